@@ -29,7 +29,7 @@ import {
 
 import { Log } from "../util/log"
 import { ACPSessionManager } from "./session"
-import type { ACPConfig } from "./types"
+import type { ACPConfig, ACPSessionState } from "./types"
 import { Provider } from "../provider/provider"
 import { Agent as AgentModule } from "../agent/agent"
 import { Installation } from "@/installation"
@@ -38,7 +38,7 @@ import { Config } from "@/config/config"
 import { Todo } from "@/session/todo"
 import { z } from "zod"
 import { LoadAPIKeyError } from "ai"
-import type { Event, OpencodeClient, SessionMessageResponse } from "@opencode-ai/sdk/v2"
+import type { Event, OpencodeClient, QuestionInfo, SessionMessageResponse, ToolPart } from "@opencode-ai/sdk/v2"
 import { applyPatch } from "diff"
 
 type ModeOption = { id: string; name: string; description?: string }
@@ -65,6 +65,8 @@ export namespace ACP {
     private eventAbort = new AbortController()
     private eventStarted = false
     private permissionQueues = new Map<string, Promise<void>>()
+    // OpenCodeOrchestra: child sessions of the hierarchy, by the ACP session and task tool call they surface in
+    private children = new Map<string, { sessionId: string; toolCallId: string }>()
     private permissionOptions: PermissionOption[] = [
       { optionId: "once", kind: "allow_once", name: "Allow once" },
       { optionId: "always", kind: "allow_always", name: "Always allow" },
@@ -105,87 +107,202 @@ export namespace ACP {
       }
     }
 
+    // OpenCodeOrchestra: a targeted child streams as the ACP session itself, other children nest in their task call
+    private route(sessionID: string): { session: ACPSessionState; toolCallId?: string } | undefined {
+      const session = this.sessionManager.tryGet(sessionID) ?? this.sessionManager.byTarget(sessionID)
+      if (session) return { session }
+      const child = this.children.get(sessionID)
+      if (!child) return
+      const root = this.sessionManager.tryGet(child.sessionId)
+      if (!root) return
+      return { session: root, toolCallId: child.toolCallId }
+    }
+
+    private adopt(part: ToolPart, sessionId: string, toolCallId: string) {
+      if (part.tool !== "task" || part.state.status === "pending") return
+      const child = part.state.metadata?.["sessionId"]
+      if (typeof child !== "string" || this.children.has(child)) return
+      this.children.set(child, { sessionId, toolCallId })
+    }
+
+    // OpenCodeOrchestra: forgets a finished task call's child sessions, or a single nested child
+    private release(sessionId: string, toolCallId: string, child?: unknown) {
+      for (const [id, entry] of this.children) {
+        if (child !== undefined ? id === child : entry.sessionId === sessionId && entry.toolCallId === toolCallId) {
+          this.children.delete(id)
+        }
+      }
+    }
+
+    // OpenCodeOrchestra: asks the client one question; a multiple-choice question is asked one option at a time.
+    // Resolves undefined when the client dismisses it
+    private async answer(sessionId: string, toolCallId: string, question: QuestionInfo) {
+      const ask = async (text: string, options: PermissionOption[]) => {
+        const res = await this.connection.requestPermission({
+          sessionId,
+          toolCall: {
+            toolCallId,
+            status: "pending",
+            title: question.header,
+            kind: "other",
+            content: [{ type: "content", content: { type: "text", text } }],
+          },
+          options,
+        })
+        return res.outcome.outcome === "selected" ? res.outcome.optionId : undefined
+      }
+      if (!question.multiple) {
+        const choice = await ask(question.question, toQuestionOptions(question))
+        if (choice === undefined) return
+        return [question.options[Number(choice)].label]
+      }
+      const selected: string[] = []
+      for (const option of question.options) {
+        const choice = await ask(`${question.question}\n\n${option.label}: ${option.description}`, [
+          { optionId: "select", kind: "allow_once", name: "Select" },
+          { optionId: "skip", kind: "reject_once", name: "Skip" },
+        ])
+        if (choice === undefined) return
+        if (choice === "select") selected.push(option.label)
+      }
+      return selected
+    }
+
+    // Requests to the client are asked one at a time per ACP session
+    private enqueue(sessionId: string, task: () => Promise<void>) {
+      const prev = this.permissionQueues.get(sessionId) ?? Promise.resolve()
+      const next = prev
+        .then(task)
+        .catch((error) => {
+          log.error("failed to handle client request", { error, sessionId })
+        })
+        .finally(() => {
+          if (this.permissionQueues.get(sessionId) === next) {
+            this.permissionQueues.delete(sessionId)
+          }
+        })
+      this.permissionQueues.set(sessionId, next)
+    }
+
     private async handleEvent(event: Event) {
       switch (event.type) {
         case "permission.asked": {
           const permission = event.properties
-          const session = this.sessionManager.tryGet(permission.sessionID)
-          if (!session) return
-
-          const prev = this.permissionQueues.get(permission.sessionID) ?? Promise.resolve()
-          const next = prev
-            .then(async () => {
-              const directory = session.cwd
-
-              const res = await this.connection
-                .requestPermission({
-                  sessionId: permission.sessionID,
-                  toolCall: {
-                    toolCallId: permission.tool?.callID ?? permission.id,
-                    status: "pending",
-                    title: permission.permission,
-                    rawInput: permission.metadata,
-                    kind: toToolKind(permission.permission),
-                    locations: toLocations(permission.permission, permission.metadata),
-                  },
-                  options: this.permissionOptions,
-                })
-                .catch(async (error) => {
-                  log.error("failed to request permission from ACP", {
-                    error,
-                    permissionID: permission.id,
-                    sessionID: permission.sessionID,
-                  })
-                  await this.sdk.permission.reply({
-                    requestID: permission.id,
-                    reply: "reject",
-                    directory,
-                  })
-                  return undefined
+          const route = this.route(permission.sessionID)
+          if (!route) return
+          const session = route.session
+
+          this.enqueue(session.id, async () => {
+            const directory = session.cwd
+
+            const res = await this.connection
+              .requestPermission({
+                sessionId: session.id,
+                toolCall: {
+                  toolCallId: route.toolCallId ?? permission.tool?.callID ?? permission.id,
+                  status: "pending",
+                  title: permission.permission,
+                  rawInput: permission.metadata,
+                  kind: toToolKind(permission.permission),
+                  locations: toLocations(permission.permission, permission.metadata),
+                },
+                options: this.permissionOptions,
+              })
+              .catch(async (error) => {
+                log.error("failed to request permission from ACP", {
+                  error,
+                  permissionID: permission.id,
+                  sessionID: permission.sessionID,
                 })
-
-              if (!res) return
-              if (res.outcome.outcome !== "selected") {
                 await this.sdk.permission.reply({
                   requestID: permission.id,
                   reply: "reject",
                   directory,
                 })
-                return
-              }
-
-              if (res.outcome.optionId !== "reject" && permission.permission == "edit") {
-                const metadata = permission.metadata || {}
-                const filepath = typeof metadata["filepath"] === "string" ? metadata["filepath"] : ""
-                const diff = typeof metadata["diff"] === "string" ? metadata["diff"] : ""
-
-                const content = await Bun.file(filepath).text()
-                const newContent = getNewContent(content, diff)
-
-                if (newContent) {
-                  this.connection.writeTextFile({
-                    sessionId: session.id,
-                    path: filepath,
-                    content: newContent,
-                  })
-                }
-              }
+                return undefined
+              })
 
+            if (!res) return
+            if (res.outcome.outcome !== "selected") {
               await this.sdk.permission.reply({
                 requestID: permission.id,
-                reply: res.outcome.optionId as "once" | "always" | "reject",
+                reply: "reject",
                 directory,
               })
-            })
-            .catch((error) => {
-              log.error("failed to handle permission", { error, permissionID: permission.id })
-            })
-            .finally(() => {
-              if (this.permissionQueues.get(permission.sessionID) === next) {
-                this.permissionQueues.delete(permission.sessionID)
+              return
+            }
+
+            if (res.outcome.optionId !== "reject" && permission.permission == "edit") {
+              const metadata = permission.metadata || {}
+              const filepath = typeof metadata["filepath"] === "string" ? metadata["filepath"] : ""
+              const diff = typeof metadata["diff"] === "string" ? metadata["diff"] : ""
+
+              const content = await Bun.file(filepath).text()
+              const newContent = getNewContent(content, diff)
+
+              if (newContent) {
+                this.connection.writeTextFile({
+                  sessionId: session.id,
+                  path: filepath,
+                  content: newContent,
+                })
               }
+            }
+
+            await this.sdk.permission.reply({
+              requestID: permission.id,
+              reply: res.outcome.optionId as "once" | "always" | "reject",
+              directory,
             })
-          this.permissionQueues.set(permission.sessionID, next)
+          })
+          return
+        }
+
+        // OpenCodeOrchestra: questions (spec approvals, escalations, audit overrides) become permission requests
+        // whose options are the answers. ACP has no text input, so a question without options stays pending for the
+        // TUI, and so does one the client dismisses if it accepts a typed answer (e.g. spec feedback)
+        case "question.asked": {
+          const request = event.properties
+          const route = this.route(request.sessionID)
+          if (!route) return
+          const session = route.session
+          const toolCallId = route.toolCallId ?? request.tool?.callID ?? request.id
+
+          const defer = () =>
+            this.connection
+              .sessionUpdate({
+                sessionId: session.id,
+                update: {
+                  sessionUpdate: "agent_message_chunk",
+                  content: {
+                    type: "text",
+                    text: `\n\n${request.questions.map((x) => x.header).join(", ")}: waiting for a typed answer. Answer it in the opencode TUI.\n\n`,
+                  },
+                },
+              })
+              .catch((error) => {
+                log.error("failed to send question notice to ACP", { error, requestID: request.id })
+              })
+
+          if (request.questions.some((question) => question.options.length === 0)) return defer()
+
+          this.enqueue(session.id, async () => {
+            const directory = session.cwd
+            const answers: string[][] = []
+            for (const question of request.questions) {
+              const answer = await this.answer(session.id, toolCallId, question).catch((error) => {
+                log.error("failed to forward question to ACP", { error, requestID: request.id })
+                return undefined
+              })
+              if (!answer) {
+                if (question.custom !== false) return defer()
+                await this.sdk.question.reject({ requestID: request.id, directory })
+                return
+              }
+              answers.push(answer)
+            }
+            await this.sdk.question.reply({ requestID: request.id, answers, directory })
+          })
           return
         }
 
@@ -193,8 +310,20 @@ export namespace ACP {
           log.info("message part updated", { event: event.properties })
           const props = event.properties
           const part = props.part
-          const session = this.sessionManager.tryGet(part.sessionID)
-          if (!session) return
+          const route = this.route(part.sessionID)
+          if (!route) return
+          if (route.toolCallId) {
+            // a nested child only reports the tasks it spawns; its progress shows in the parent's task call
+            if (part.type !== "tool") return
+            if (part.state.status === "completed" || part.state.status === "error") {
+              if (part.tool === "task")
+                this.release(route.session.id, route.toolCallId, part.state.metadata?.["sessionId"])
+              return
+            }
+            this.adopt(part, route.session.id, route.toolCallId)
+            return
+          }
+          const session = route.session
           const sessionId = session.id
           const directory = session.cwd
 
@@ -237,6 +366,7 @@ export namespace ACP {
                 return
 
               case "running":
+                this.adopt(part, sessionId, part.callID)
                 await this.connection
                   .sessionUpdate({
                     sessionId,
@@ -248,6 +378,7 @@ export namespace ACP {
                       title: part.tool,
                       locations: toLocations(part.tool, part.state.input),
                       rawInput: part.state.input,
+                      ...(part.tool === "task" && { content: toTaskContent(part.state.metadata) }),
                     },
                   })
                   .catch((error) => {
@@ -256,8 +387,10 @@ export namespace ACP {
                 return
 
               case "completed": {
+                this.release(sessionId, part.callID)
                 const kind = toToolKind(part.tool)
                 const content: ToolCallContent[] = [
+                  ...(part.tool === "task" ? toTaskContent(part.state.metadata) : []),
                   {
                     type: "content",
                     content: {
@@ -335,6 +468,7 @@ export namespace ACP {
                 return
               }
               case "error":
+                this.release(sessionId, part.callID)
                 await this.connection
                   .sessionUpdate({
                     sessionId,
@@ -972,8 +1106,9 @@ export namespace ACP {
         )
         .then((resp) => resp.data!)
 
+      // OpenCodeOrchestra: persistent subagents (the orchestrator) are modes too; selecting one targets its session
       return agents
-        .filter((agent) => agent.mode !== "subagent" && !agent.hidden)
+        .filter((agent) => (agent.mode !== "subagent" || !agent.singleShot) && !agent.hidden)
         .map((agent) => ({
           id: agent.name,
           name: agent.name,
@@ -1135,13 +1270,32 @@ export namespace ACP {
       if (!availableModes.some((mode) => mode.id === params.modeId)) {
         throw new Error(`Agent not found: ${params.modeId}`)
       }
+      const agent = await this.config.sdk.app
+        .agents({ directory: session.cwd }, { throwOnError: true })
+        .then((resp) => resp.data!.find((x) => x.name === params.modeId))
+      const targetID = agent?.mode === "subagent" ? await this.findTarget(session, params.modeId) : undefined
+      if (agent?.mode === "subagent" && !targetID) {
+        throw RequestError.invalidParams(
+          JSON.stringify({ error: `No ${params.modeId} session was spawned from this session yet` }),
+        )
+      }
+      this.sessionManager.setTarget(params.sessionId, targetID)
       this.sessionManager.setMode(params.sessionId, params.modeId)
     }
 
+    // OpenCodeOrchestra: the most recent child session running the agent
+    private async findTarget(session: ACPSessionState, agent: string) {
+      const children = await this.config.sdk.session
+        .children({ sessionID: session.id, directory: session.cwd }, { throwOnError: true })
+        .then((resp) => resp.data!)
+      return children.filter((child) => child.agentID === agent).sort((a, b) => b.time.updated - a.time.updated)[0]?.id
+    }
+
     async prompt(params: PromptRequest) {
-      const sessionID = params.sessionId
-      const session = this.sessionManager.get(sessionID)
+      const session = this.sessionManager.get(params.sessionId)
       const directory = session.cwd
+      // OpenCodeOrchestra: in a subagent mode the prompt goes to the child session running that agent
+      const sessionID = session.targetID ?? params.sessionId
 
       const current = session.model
       const model = current ?? (await defaultModel(this.config, directory))
@@ -1247,11 +1401,13 @@ export namespace ACP {
       if (!cmd) {
         await this.sdk.session.prompt({
           sessionID,
-          model: {
-            providerID: model.providerID,
-            modelID: model.modelID,
-          },
-          variant: this.sessionManager.getVariant(sessionID),
+          model: session.targetID
+            ? undefined
+            : {
+                providerID: model.providerID,
+                modelID: model.modelID,
+              },
+          variant: session.targetID ? undefined : this.sessionManager.getVariant(session.id),
           parts,
           agent,
           directory,
@@ -1295,7 +1451,7 @@ export namespace ACP {
       const session = this.sessionManager.get(params.sessionId)
       await this.config.sdk.session.abort(
         {
-          sessionID: params.sessionId,
+          sessionID: session.targetID ?? params.sessionId,
           directory: session.cwd,
         },
         { throwOnError: true },
@@ -1331,6 +1487,38 @@ export namespace ACP {
     }
   }
 
+  // OpenCodeOrchestra: live status of the child session a task call runs, from the task tool's summary metadata
+  function toTaskContent(metadata: Record<string, unknown> | undefined): ToolCallContent[] {
+    const summary = metadata?.["summary"]
+    if (!Array.isArray(summary) || !summary.length) return []
+    const icons: Record<string, string> = { pending: "○", running: "◐", completed: "●", error: "✗" }
+    const lines = summary.map(
+      (item: { tool: string; state: { status: string; title?: string } }) =>
+        `${icons[item.state.status] ?? "○"} ${item.state.title ?? item.tool}`,
+    )
+    return [
+      {
+        type: "content",
+        content: { type: "text", text: [`Session ${metadata?.["sessionId"]}`, ...lines].join("\n") },
+      },
+    ]
+  }
+
+  // OpenCodeOrchestra: an approve/reject pair maps onto the client's allow and reject choices; other answers are
+  // neutral choices, since guessing a reject kind would make clients render a real answer as a refusal
+  function toQuestionOptions(question: QuestionInfo): PermissionOption[] {
+    const [first, second] = question.options.map((option) => option.label.toLowerCase())
+    const binary =
+      question.options.length === 2 &&
+      ["approve", "allow", "accept", "yes"].includes(first) &&
+      ["reject", "deny", "decline", "no"].includes(second)
+    return question.options.map((option, index) => ({
+      optionId: String(index),
+      name: option.label,
+      kind: binary && index === 1 ? "reject_once" : "allow_once",
+    }))
+  }
+
   function toLocations(toolName: string, input: Record<string, any>): { path: string }[] {
     const tool = toolName.toLocaleLowerCase()
     switch (tool) {
@@ -75,6 +75,12 @@ export class ACPSessionManager {
     return state
   }
 
+  byTarget(targetID: string): ACPSessionState | undefined {
+    for (const session of this.sessions.values()) {
+      if (session.targetID === targetID) return session
+    }
+  }
+
   get(sessionId: string): ACPSessionState {
     const session = this.sessions.get(sessionId)
     if (!session) {
@@ -103,6 +109,13 @@ export class ACPSessionManager {
     return session
   }
 
+  setTarget(sessionId: string, targetID?: string) {
+    const session = this.get(sessionId)
+    session.targetID = targetID
+    this.sessions.set(sessionId, session)
+    return session
+  }
+
    getVariant(sessionId: string): string | undefined {
     const session = this.get(sessionId)
     return session.variant
@@ -12,6 +12,8 @@ export interface ACPSessionState {
   }
   modeId?: string
   variant?: string
+  // OpenCodeOrchestra: child session that prompts go to while a subagent mode (e.g. orchestrator) is selected
+  targetID?: string
 }
 
 export interface ACPConfig {
@@ -54,6 +54,22 @@ export namespace Agent {
       // If true (default for subagents): first response automatically returns to parent
       // If false (for PM/Orchestrator): must call finish_task to signal completion
       singleShot: z.boolean().default(true),
+      // OpenCodeOrchestra: Spend limits for tasks running this agent (see session/budget.ts)
+      budget: Config.Budget.optional(),
+      // OpenCodeOrchestra: OS-level isolation for bash commands (see shell/sandbox.ts)
+      sandbox: Config.Sandbox.optional(),
+      // OpenCodeOrchestra: Models to switch to when the agent's model keeps failing (see session/failover.ts)
+      failover: z
+        .object({
+          models: z
+            .object({
+              modelID: z.string(),
+              providerID: z.string(),
+            })
+            .array(),
+          after: z.number().int().positive().optional(),
+        })
+        .optional(),
     })
     .meta({
       ref: "Agent",
@@ -67,6 +83,7 @@ export namespace Agent {
     const defaults = PermissionNext.fromConfig({
       "*": "allow",
       doom_loop: "ask",
+      sampling: "ask",
       external_directory: {
         "*": "ask",
         [Truncate.DIR]: "allow",
@@ -74,6 +91,8 @@ export namespace Agent {
         ...Object.fromEntries(skillDirs.map((dir) => [path.join(dir, "*"), "allow"])),
       },
        question: "deny",
+       audit_verdict: "deny",
+       escalate: "deny",
        plan_enter: "deny",
        plan_exit: "deny",
        // mirrors github.com/github/gitignore Node.gitignore pattern for .env files
@@ -237,6 +256,7 @@ export namespace Agent {
             question: "allow",
             task: "allow",
             finish_task: "allow",
+            escalate: "allow",
           }),
           user,
         ),
@@ -263,6 +283,8 @@ export namespace Agent {
         ),
         prompt: PROMPT_INVESTIGATOR,
         singleShot: true, // Depth 2: auto-returns first response
+        // READ-ONLY enforced by the OS where bwrap is available; falls back to permissions elsewhere
+        sandbox: { write: [], required: false },
       },
       // OpenCodeOrchestra: Auditor agent - READ-ONLY code review at @TODO markers (depth 2)
       auditor: {
@@ -278,12 +300,15 @@ export namespace Agent {
             // READ-ONLY: deny write operations only
             edit: "deny",
             write: "deny",
+            audit_verdict: "allow",
             // Allow everything else (read, glob, grep, playwright, etc.)
           }),
           user,
         ),
         prompt: PROMPT_AUDITOR,
         singleShot: true, // Depth 2: auto-returns first response
+        // READ-ONLY enforced by the OS where bwrap is available; falls back to permissions elsewhere
+        sandbox: { write: [], required: false },
       },
       // OpenCodeOrchestra: Researcher agent - READ-ONLY external web research (depth 2)
       researcher: {
@@ -380,6 +405,10 @@ export namespace Agent {
       item.steps = value.steps ?? item.steps
       item.variant = value.variant ?? item.variant
       item.singleShot = value.single_shot ?? item.singleShot // OpenCodeOrchestra: Config override
+      item.budget = value.budget ?? item.budget
+      item.sandbox = value.sandbox === false ? undefined : (value.sandbox ?? item.sandbox)
+      if (value.failover)
+        item.failover = { models: value.failover.models.map(Provider.parseModel), after: value.failover.after }
       item.options = mergeDeep(item.options, value.options ?? {})
       item.permission = PermissionNext.merge(item.permission, PermissionNext.fromConfig(value.permission ?? {}))
     }
@@ -14,6 +14,9 @@ import path from "path"
 import { Global } from "../../global"
 import { modify, applyEdits } from "jsonc-parser"
 import { Bus } from "../../bus"
+import { McpServer } from "../../mcp/server"
+import { bootstrap } from "../bootstrap"
+import { withNetworkOptions, resolveNetworkOptions } from "../network"
 
 function getAuthStatusIcon(status: MCP.AuthStatus): string {
   switch (status) {
@@ -59,10 +62,31 @@ export const McpCommand = cmd({
       .command(McpAuthCommand)
       .command(McpLogoutCommand)
       .command(McpDebugCommand)
+      .command(McpServeCommand)
       .demandCommand(),
   async handler() {},
 })
 
+export const McpServeCommand = cmd({
+  command: "serve",
+  describe: "expose the PM/orchestrator hierarchy as an MCP server",
+  builder: (yargs) =>
+    withNetworkOptions(yargs).option("http", {
+      describe: "serve streamable HTTP on /mcp instead of stdio",
+      type: "boolean",
+      default: false,
+    }),
+  async handler(args) {
+    await bootstrap(process.cwd(), async () => {
+      if (!args.http) return McpServer.stdio()
+      const opts = await resolveNetworkOptions(args)
+      const { url } = await McpServer.http(opts)
+      console.log(`opencode MCP server listening on ${url}`)
+      await new Promise(() => {})
+    })
+  },
+})
+
 export const McpListCommand = cmd({
   command: "list",
   aliases: ["ls"],
@@ -5,6 +5,7 @@ import { bootstrap } from "../bootstrap"
 import { Storage } from "../../storage/storage"
 import { Project } from "../../project/project"
 import { Instance } from "../../project/instance"
+import { SessionCache } from "../../session/cache"
 
 interface SessionStats {
   totalSessions: number
@@ -43,6 +44,18 @@ interface SessionStats {
   costPerDay: number
   tokensPerSession: number
   medianTokensPerSession: number
+  // OpenCodeOrchestra: prompt cache efficiency, over requests of sessions that used the cache
+  cache: {
+    ratio: number
+    busts: Record<SessionCache.Cause, number>
+    sessions: {
+      id: string
+      title: string
+      requests: number
+      ratio: number
+      busts: number
+    }[]
+  }
 }
 
 export const StatsCommand = cmd({
@@ -61,6 +74,10 @@ export const StatsCommand = cmd({
       .option("models", {
         describe: "show model statistics (default: hidden). Pass a number to show top N, otherwise shows all",
       })
+      .option("cache", {
+        describe:
+          "show cache efficiency per session (default: hidden). Pass a number to show the N least efficient, otherwise shows all",
+      })
       .option("project", {
         describe: "filter by project (default: all projects, empty string: current project)",
         type: "string",
@@ -77,7 +94,14 @@ export const StatsCommand = cmd({
         modelLimit = args.models
       }
 
-      displayStats(stats, args.tools, modelLimit)
+      let cacheLimit: number | undefined
+      if (args.cache === true) {
+        cacheLimit = Infinity
+      } else if (typeof args.cache === "number") {
+        cacheLimit = args.cache
+      }
+
+      displayStats(stats, args.tools, modelLimit, cacheLimit)
     })
   },
 })
@@ -162,6 +186,11 @@ export async function aggregateSessionStats(days?: number, projectFilter?: strin
     costPerDay: 0,
     tokensPerSession: 0,
     medianTokensPerSession: 0,
+    cache: {
+      ratio: 0,
+      busts: { compaction: 0, model: 0, expired: 0, prefix: 0 },
+      sessions: [],
+    },
   }
 
   if (filteredSessions.length > 1000) {
@@ -177,6 +206,7 @@ export async function aggregateSessionStats(days?: number, projectFilter?: strin
   let latestTime = 0
 
   const sessionTotalTokens: number[] = []
+  const cacheTokens = { input: 0, read: 0, write: 0 }
 
   const BATCH_SIZE = 20
   for (let i = 0; i < filteredSessions.length; i += BATCH_SIZE) {
@@ -242,6 +272,8 @@ export async function aggregateSessionStats(days?: number, projectFilter?: strin
       }
 
       return {
+        session,
+        cache: SessionCache.efficiency(messages),
         messageCount: messages.length,
         sessionCost,
         sessionTokens,
@@ -261,6 +293,19 @@ export async function aggregateSessionStats(days?: number, projectFilter?: strin
     const batchResults = await Promise.all(batchPromises)
 
     for (const result of batchResults) {
+      if (result.cache.read + result.cache.write > 0) {
+        cacheTokens.input += result.cache.input
+        cacheTokens.read += result.cache.read
+        cacheTokens.write += result.cache.write
+        for (const bust of result.cache.busts) stats.cache.busts[bust.cause]++
+        stats.cache.sessions.push({
+          id: result.session.id,
+          title: result.session.title,
+          requests: result.cache.requests,
+          ratio: result.cache.ratio,
+          busts: result.cache.busts.length,
+        })
+      }
       earliestTime = Math.min(earliestTime, result.earliestTime)
       latestTime = Math.max(latestTime, result.latestTime)
       sessionTotalTokens.push(result.sessionTotalTokens)
@@ -295,6 +340,10 @@ export async function aggregateSessionStats(days?: number, projectFilter?: strin
     }
   }
 
+  const cachedTotal = cacheTokens.input + cacheTokens.read + cacheTokens.write
+  stats.cache.ratio = cachedTotal > 0 ? cacheTokens.read / cachedTotal : 0
+  stats.cache.sessions.sort((a, b) => a.ratio - b.ratio)
+
   const rangeDays = Math.max(1, Math.ceil((latestTime - earliestTime) / MS_IN_DAY))
   const effectiveDays = windowDays ?? rangeDays
   stats.dateRange = {
@@ -322,7 +371,7 @@ export async function aggregateSessionStats(days?: number, projectFilter?: strin
   return stats
 }
 
-export function displayStats(stats: SessionStats, toolLimit?: number, modelLimit?: number) {
+export function displayStats(stats: SessionStats, toolLimit?: number, modelLimit?: number, cacheLimit?: number) {
   const width = 56
 
   function renderRow(label: string, value: string): string {
@@ -361,6 +410,33 @@ export function displayStats(stats: SessionStats, toolLimit?: number, modelLimit
   console.log("└────────────────────────────────────────────────────────┘")
   console.log()
 
+  // Cache section
+  if (stats.cache.sessions.length > 0) {
+    console.log("┌────────────────────────────────────────────────────────┐")
+    console.log("│                    PROMPT CACHE                        │")
+    console.log("├────────────────────────────────────────────────────────┤")
+    console.log(renderRow("Hit Rate", `${(stats.cache.ratio * 100).toFixed(1)}%`))
+    console.log(renderRow("Busts by Compaction", stats.cache.busts.compaction.toLocaleString()))
+    console.log(renderRow("Busts by Model Switch", stats.cache.busts.model.toLocaleString()))
+    console.log(renderRow("Busts by Expiry", stats.cache.busts.expired.toLocaleString()))
+    console.log(renderRow("Busts by Prompt Change", stats.cache.busts.prefix.toLocaleString()))
+
+    if (cacheLimit !== undefined) {
+      const sessions = cacheLimit === Infinity ? stats.cache.sessions : stats.cache.sessions.slice(0, cacheLimit)
+      for (const session of sessions) {
+        console.log("├────────────────────────────────────────────────────────┤")
+        const title = session.title.length > 54 ? session.title.substring(0, 52) + ".." : session.title
+        console.log(`│ ${title.padEnd(54)} │`)
+        console.log(renderRow("  Session", session.id))
+        console.log(renderRow("  Requests", session.requests.toLocaleString()))
+        console.log(renderRow("  Hit Rate", `${(session.ratio * 100).toFixed(1)}%`))
+        console.log(renderRow("  Busts", session.busts.toLocaleString()))
+      }
+    }
+    console.log("└────────────────────────────────────────────────────────┘")
+    console.log()
+  }
+
   // Model Usage section
   if (modelLimit !== undefined && Object.keys(stats.modelUsage).length > 0) {
     const sortedModels = Object.entries(stats.modelUsage).sort(([, a], [, b]) => b.messages - a.messages)
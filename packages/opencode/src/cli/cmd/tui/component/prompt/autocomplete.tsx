@@ -8,8 +8,12 @@ import { useSync } from "@tui/context/sync"
 import { useTheme, selectedForeground } from "@tui/context/theme"
 import { SplitBorder } from "@tui/component/border"
 import { useCommandDialog } from "@tui/component/dialog-command"
+import { useDialog } from "@tui/ui/dialog"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
 import { useTerminalDimensions } from "@opentui/solid"
 import { Locale } from "@/util/locale"
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js"
+import type { McpResourceTemplate } from "@opencode-ai/sdk/v2"
 import type { PromptInfo } from "./history"
 import { useFrecency } from "./frecency"
 
@@ -77,6 +81,7 @@ export function Autocomplete(props: {
   const sdk = useSDK()
   const sync = useSync()
   const command = useCommandDialog()
+  const dialog = useDialog()
   const { theme } = useTheme()
   const dimensions = useTerminalDimensions()
   const frecency = useFrecency()
@@ -295,30 +300,62 @@ export function Autocomplete(props: {
         display: Locale.truncateMiddle(text, width),
         value: text,
         description: res.description,
-        onSelect: () => {
-          insertPart(res.name, {
-            type: "file",
-            mime: res.mimeType ?? "text/plain",
-            filename: res.name,
-            url: res.uri,
-            source: {
-              type: "resource",
-              text: {
-                start: 0,
-                end: 0,
-                value: "",
-              },
-              clientName: res.client,
-              uri: res.uri,
-            },
-          })
-        },
+        onSelect: () => insertResource(res.name, res.uri, res.client, res.mimeType),
+      })
+    }
+
+    for (const template of Object.values(sync.data.mcp_resource_template)) {
+      const text = `${template.name} (${template.uriTemplate})`
+      options.push({
+        display: Locale.truncateMiddle(text, width),
+        value: text,
+        description: template.description,
+        onSelect: () => fillTemplate(template),
       })
     }
 
     return options
   })
 
+  function insertResource(name: string, uri: string, client: string, mime?: string) {
+    insertPart(name, {
+      type: "file",
+      mime: mime ?? "text/plain",
+      filename: name,
+      url: uri,
+      source: {
+        type: "resource",
+        text: {
+          start: 0,
+          end: 0,
+          value: "",
+        },
+        clientName: client,
+        uri,
+      },
+    })
+  }
+
+  // OpenCodeOrchestra: asks for each variable of the template, then attaches the expanded resource
+  async function fillTemplate(template: McpResourceTemplate) {
+    const index = store.index
+    const offset = props.input().cursorOffset
+    const uri = new UriTemplate(template.uriTemplate)
+    const values: Record<string, string> = {}
+    for (const name of uri.variableNames) {
+      const value = await DialogPrompt.show(dialog, name, {
+        description: () => <text fg={theme.textMuted}>{template.uriTemplate}</text>,
+        placeholder: `Value of ${name}`,
+      })
+      if (value === null) return
+      values[name] = value
+    }
+    dialog.clear()
+    setStore("index", index)
+    props.input().cursorOffset = offset
+    insertResource(template.name, uri.expand(values), template.client, template.mimeType)
+  }
+
   const agents = createMemo(() => {
     const agents = sync.data.agent
     return agents
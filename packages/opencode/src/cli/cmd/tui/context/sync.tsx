@@ -6,12 +6,14 @@ import type {
   Part,
   Config,
   Todo,
+  MarkerLedger,
   Command,
   PermissionRequest,
   QuestionRequest,
   LspStatus,
   McpStatus,
   McpResource,
+  McpResourceTemplate,
   FormatterStatus,
   SessionStatus,
   ProviderListResponse,
@@ -57,6 +59,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       todo: {
         [sessionID: string]: Todo[]
       }
+      marker: {
+        [sessionID: string]: MarkerLedger
+      }
       message: {
         [sessionID: string]: Message[]
       }
@@ -70,6 +75,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       mcp_resource: {
         [key: string]: McpResource
       }
+      mcp_resource_template: {
+        [key: string]: McpResourceTemplate
+      }
       formatter: FormatterStatus[]
       vcs: VcsInfo | undefined
       path: Path
@@ -92,11 +100,13 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       session_status: {},
       session_diff: {},
       todo: {},
+      marker: {},
       message: {},
       part: {},
       lsp: [],
       mcp: {},
       mcp_resource: {},
+      mcp_resource_template: {},
       formatter: [],
       vcs: undefined,
       path: { state: "", config: "", worktree: "", directory: "" },
@@ -189,6 +199,10 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           setStore("todo", event.properties.sessionID, event.properties.todos)
           break
 
+        case "session.marker.updated":
+          setStore("marker", event.properties.ledger.sessionID, event.properties.ledger)
+          break
+
         case "session.diff":
           setStore("session_diff", event.properties.sessionID, event.properties.diff)
           break
@@ -388,6 +402,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
             sdk.client.lsp.status().then((x) => setStore("lsp", reconcile(x.data!))),
             sdk.client.mcp.status().then((x) => setStore("mcp", reconcile(x.data!))),
             sdk.client.experimental.resource.list().then((x) => setStore("mcp_resource", reconcile(x.data ?? {}))),
+            sdk.client.experimental.resource
+              .templates()
+              .then((x) => setStore("mcp_resource_template", reconcile(x.data ?? {}))),
             sdk.client.formatter.status().then((x) => setStore("formatter", reconcile(x.data!))),
             sdk.client.session.status().then((x) => {
               setStore("session_status", reconcile(x.data!))
@@ -441,11 +458,12 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
         },
         async sync(sessionID: string) {
           if (fullSyncedSessions.has(sessionID)) return
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, markers] = await Promise.all([
             sdk.client.session.get({ sessionID }, { throwOnError: true }),
             sdk.client.session.messages({ sessionID, limit: 100 }),
             sdk.client.session.todo({ sessionID }),
             sdk.client.session.diff({ sessionID }),
+            sdk.client.session.markers({ sessionID }),
           ])
           setStore(
             produce((draft) => {
@@ -458,6 +476,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
                 draft.part[message.info.id] = message.parts
               }
               draft.session_diff[sessionID] = diff.data ?? []
+              if (markers.data) draft.marker[markers.data.sessionID] = markers.data
             }),
           )
           fullSyncedSessions.add(sessionID)
@@ -15,6 +15,9 @@ export function DialogMessage(props: {
   const sdk = useSDK()
   const message = createMemo(() => sync.data.message[props.sessionID]?.find((x) => x.id === props.messageID))
   const route = useRoute()
+  const parts = createMemo(() => sync.data.part[props.messageID] ?? [])
+  const pinned = createMemo(() => parts().length > 0 && parts().every((x) => x.pinned))
+  const excluded = createMemo(() => parts().length > 0 && parts().every((x) => x.excluded))
 
   return (
     <DialogSelect
@@ -71,6 +74,32 @@ export function DialogMessage(props: {
             dialog.clear()
           },
         },
+        {
+          title: pinned() ? "Unpin" : "Pin",
+          value: "message.pin",
+          description: pinned() ? "let compaction summarize it" : "keep verbatim through compaction",
+          onSelect: async (dialog) => {
+            await sdk.client.session.curate({
+              sessionID: props.sessionID,
+              messageID: props.messageID,
+              pinned: pinned() ? null : true,
+            })
+            dialog.clear()
+          },
+        },
+        {
+          title: excluded() ? "Include" : "Exclude",
+          value: "message.exclude",
+          description: excluded() ? "send it to the model again" : "leave it out of the model context",
+          onSelect: async (dialog) => {
+            await sdk.client.session.curate({
+              sessionID: props.sessionID,
+              messageID: props.messageID,
+              excluded: excluded() ? null : true,
+            })
+            dialog.clear()
+          },
+        },
         {
           title: "Fork",
           value: "session.fork",
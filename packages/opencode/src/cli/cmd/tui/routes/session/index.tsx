@@ -27,7 +27,16 @@ import {
   RGBA,
 } from "@opentui/core"
 import { Prompt, type PromptRef } from "@tui/component/prompt"
-import type { AssistantMessage, Part, ToolPart, UserMessage, TextPart, ReasoningPart } from "@opencode-ai/sdk/v2"
+import type {
+  AssistantMessage,
+  Part,
+  ToolPart,
+  UserMessage,
+  TextPart,
+  ReasoningPart,
+  EscalationPart,
+  FailoverPart,
+} from "@opencode-ai/sdk/v2"
 import { useLocal } from "@tui/context/local"
 import { Locale } from "@/util/locale"
 import type { Tool } from "@/tool/tool"
@@ -40,6 +49,7 @@ import type { GrepTool } from "@/tool/grep"
 import type { ListTool } from "@/tool/ls"
 import type { EditTool } from "@/tool/edit"
 import type { ApplyPatchTool } from "@/tool/apply_patch"
+import type { LspEditTool } from "@/tool/lsp-edit"
 import type { WebFetchTool } from "@/tool/webfetch"
 import type { TaskTool } from "@/tool/task"
 import type { QuestionTool } from "@/tool/question"
@@ -267,6 +277,30 @@ export function Session() {
     dialog.clear()
   }
 
+  // OpenCodeOrchestra: The message at the top of the viewport, the one pin and exclude act on
+  const selectedMessage = () => {
+    const ids = new Set(messages().map((x) => x.id))
+    const children = scroll.getChildren().filter((c) => c.id && ids.has(c.id))
+    const child = children.find((c) => c.y + c.height > scroll.y) ?? children.at(-1)
+    return child ? messages().find((x) => x.id === child.id) : undefined
+  }
+
+  // Pin or exclude the selected message, or reset the flag when every part already has it
+  const curateMessage = async (flag: "pinned" | "excluded", dialog: ReturnType<typeof useDialog>) => {
+    dialog.clear()
+    const message = selectedMessage()
+    if (!message) {
+      toast.show({ message: "No message selected", variant: "error" })
+      return
+    }
+    const parts = sync.data.part[message.id] ?? []
+    const set = !(parts.length > 0 && parts.every((x) => x[flag]))
+    await sdk.client.session.curate({ sessionID: route.sessionID, messageID: message.id, [flag]: set ? true : null })
+    const label =
+      flag === "pinned" ? (set ? "pinned" : "unpinned") : set ? "excluded from context" : "included in context"
+    toast.show({ message: `Message ${label}`, variant: "success" })
+  }
+
    function toBottom() {
      setTimeout(() => {
        if (!scroll || scroll.isDestroyed) return
@@ -676,6 +710,20 @@ export function Session() {
       hidden: true,
       onSelect: (dialog) => scrollToMessage("prev", dialog),
     },
+    {
+      title: "Pin/unpin message",
+      value: "messages.pin",
+      keybind: "messages_pin",
+      category: "Session",
+      onSelect: (dialog) => curateMessage("pinned", dialog),
+    },
+    {
+      title: "Exclude/include message",
+      value: "messages.exclude",
+      keybind: "messages_exclude",
+      category: "Session",
+      onSelect: (dialog) => curateMessage("excluded", dialog),
+    },
     {
       title: "Copy last assistant message",
       value: "messages.copy",
@@ -1310,6 +1358,70 @@ const PART_MAPPING = {
   text: TextPart,
   tool: ToolPart,
   reasoning: ReasoningPart,
+  escalation: EscalationPart,
+  failover: FailoverPart,
+}
+
+// OpenCodeOrchestra: The agent moved on to the next model of its failover chain
+function FailoverPart(props: { last: boolean; part: FailoverPart; message: AssistantMessage }) {
+  const { theme } = useTheme()
+  return (
+    <box paddingLeft={3} marginTop={1}>
+      <text fg={theme.textMuted}>
+        <span style={{ fg: theme.warning }}>Switched model</span> {props.part.from.modelID} → {props.part.to.modelID}
+        {props.part.reason === "overflow" ? " · context too long" : ` · after ${props.part.attempt} failed attempts`}
+      </text>
+      <text fg={theme.textMuted}>{props.part.message}</text>
+    </box>
+  )
+}
+
+// OpenCodeOrchestra: Question escalated by an orchestrator, answered by resuming its task
+function EscalationPart(props: { last: boolean; part: EscalationPart; message: AssistantMessage }) {
+  const { theme } = useTheme()
+  const pending = createMemo(() => props.part.status === "pending")
+  return (
+    <box
+      id={"escalation-" + props.part.id}
+      border={["left"]}
+      paddingTop={1}
+      paddingBottom={1}
+      paddingLeft={2}
+      marginTop={1}
+      gap={1}
+      backgroundColor={theme.backgroundPanel}
+      customBorderChars={SplitBorder.customBorderChars}
+      borderColor={pending() ? theme.warning : theme.success}
+    >
+      <text fg={theme.text}>
+        <span style={{ fg: pending() ? theme.warning : theme.success }}>
+          {pending() ? "Escalation pending" : "Escalation answered"}
+        </span>
+        <span style={{ fg: theme.textMuted }}> · @{props.part.agent}</span>
+      </text>
+      <text fg={theme.text}>{props.part.question}</text>
+      <Show when={props.part.context}>
+        <text fg={theme.textMuted}>{props.part.context}</text>
+      </Show>
+      <Show when={props.part.options.length}>
+        <box>
+          <For each={props.part.options}>
+            {(option) => (
+              <text fg={theme.textMuted}>
+                <span style={{ fg: theme.text }}>- {option.label}</span>: {option.description}
+              </text>
+            )}
+          </For>
+        </box>
+      </Show>
+      <Show when={props.part.answer}>
+        <text fg={theme.text}>
+          <span style={{ fg: theme.textMuted }}>Answer: </span>
+          {props.part.answer}
+        </text>
+      </Show>
+    </box>
+  )
 }
 
 function ReasoningPart(props: { last: boolean; part: ReasoningPart; message: AssistantMessage }) {
@@ -1440,6 +1552,9 @@ function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMess
         <Match when={props.part.tool === "apply_patch"}>
           <ApplyPatch {...toolprops} />
         </Match>
+        <Match when={props.part.tool === "lsp_edit"}>
+          <LspEdit {...toolprops} />
+        </Match>
         <Match when={props.part.tool === "todowrite"}>
           <TodoWrite {...toolprops} />
         </Match>
@@ -1887,7 +2002,8 @@ function Edit(props: ToolProps<typeof EditTool>) {
   )
 }
 
-function ApplyPatch(props: ToolProps<typeof ApplyPatchTool>) {
+// lsp_edit reports its workspace edits in the same per-file shape
+function ApplyPatch(props: ToolProps<typeof ApplyPatchTool | typeof LspEditTool>) {
   const ctx = use()
   const { theme, syntax } = useTheme()
 
@@ -1961,6 +2077,14 @@ function ApplyPatch(props: ToolProps<typeof ApplyPatchTool>) {
   )
 }
 
+function LspEdit(props: ToolProps<typeof LspEditTool>) {
+  return (
+    <Show when={props.metadata.files?.length} fallback={<GenericTool {...props} />}>
+      <ApplyPatch {...props} />
+    </Show>
+  )
+}
+
 function TodoWrite(props: ToolProps<typeof TodoWriteTool>) {
   return (
     <Switch>
@@ -259,6 +259,9 @@ export function PermissionPrompt(props: { request: PermissionRequest }) {
                   <Match when={props.request.permission === "doom_loop"}>
                     <TextBody icon="⟳" title="Continue after repeated failures" />
                   </Match>
+                  <Match when={props.request.permission === "sampling"}>
+                    <TextBody icon="⚙" title={`Let MCP server ` + props.request.patterns?.[0] + ` use the model`} />
+                  </Match>
                   <Match when={true}>
                     <TextBody icon="⚙" title={`Call tool ` + props.request.permission} />
                   </Match>
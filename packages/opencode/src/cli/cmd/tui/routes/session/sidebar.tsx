@@ -18,12 +18,14 @@ export function Sidebar(props: { sessionID: string; overlay?: boolean }) {
   const session = createMemo(() => sync.session.get(props.sessionID)!)
   const diff = createMemo(() => sync.data.session_diff[props.sessionID] ?? [])
   const todo = createMemo(() => sync.data.todo[props.sessionID] ?? [])
+  const markers = createMemo(() => sync.data.marker[props.sessionID]?.markers ?? [])
   const messages = createMemo(() => sync.data.message[props.sessionID] ?? [])
 
   const [expanded, setExpanded] = createStore({
     mcp: true,
     diff: true,
     todo: true,
+    markers: true,
     lsp: true,
   })
 
@@ -221,6 +223,36 @@ export function Sidebar(props: { sessionID: string; overlay?: boolean }) {
                 </Show>
               </box>
             </Show>
+            <Show when={markers().length > 0}>
+              <box>
+                <box
+                  flexDirection="row"
+                  gap={1}
+                  onMouseDown={() => markers().length > 2 && setExpanded("markers", !expanded.markers)}
+                >
+                  <Show when={markers().length > 2}>
+                    <text fg={theme.text}>{expanded.markers ? "▼" : "▶"}</text>
+                  </Show>
+                  <text fg={theme.text}>
+                    <b>@TODO Markers</b>
+                    <Show when={!expanded.markers}>
+                      <span style={{ fg: theme.textMuted }}> ({markers().length})</span>
+                    </Show>
+                  </text>
+                </box>
+                <Show when={markers().length <= 2 || expanded.markers}>
+                  <For each={markers()}>
+                    {(item) => (
+                      <box flexDirection="row" gap={1} justifyContent="space-between">
+                        <text fg={theme.textMuted} wrapMode="none">
+                          {item.file}:{item.line}
+                        </text>
+                      </box>
+                    )}
+                  </For>
+                </Show>
+              </box>
+            </Show>
             <Show when={diff().length > 0}>
               <box>
                 <box
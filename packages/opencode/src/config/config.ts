@@ -542,6 +542,7 @@ export namespace Config {
           codesearch: PermissionAction.optional(),
           lsp: PermissionRule.optional(),
           doom_loop: PermissionAction.optional(),
+          sampling: PermissionRule.optional(),
         })
         .catchall(PermissionRule)
         .or(PermissionAction),
@@ -561,6 +562,69 @@ export namespace Config {
   })
   export type Command = z.infer<typeof Command>
 
+  // OpenCodeOrchestra: Spend limits for a task and every session it spawns (see session/budget.ts)
+  export const Budget = z
+    .object({
+      tokens: z.number().int().positive().optional().describe("Maximum input, output and reasoning tokens"),
+      cost: z.number().positive().optional().describe("Maximum cost in dollars"),
+      duration: z.number().positive().optional().describe("Maximum wall-clock time in seconds"),
+      steps: z.number().int().positive().optional().describe("Maximum number of model calls"),
+      warn: z
+        .number()
+        .gt(0)
+        .lt(1)
+        .optional()
+        .describe("Fraction of any limit at which the task is warned (default: 0.8)"),
+    })
+    .strict()
+    .meta({
+      ref: "BudgetConfig",
+    })
+  export type Budget = z.infer<typeof Budget>
+
+  // OpenCodeOrchestra: Models an agent switches to when its model keeps failing (see session/failover.ts)
+  export const Failover = z
+    .object({
+      models: z.array(z.string()).min(1).describe("Models to fall back to, in order, in provider/model format"),
+      after: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Retryable failures of a model before switching to the next one (default: 3)"),
+    })
+    .strict()
+    .meta({
+      ref: "FailoverConfig",
+    })
+  export type Failover = z.infer<typeof Failover>
+
+  // OpenCodeOrchestra: OS-level isolation for the bash tool of an agent (see shell/sandbox.ts)
+  export const Sandbox = z
+    .object({
+      backend: z.enum(["bwrap"]).optional().describe("Sandbox backend (default: bwrap, Linux only)"),
+      read: z
+        .array(z.string())
+        .optional()
+        .describe("Paths visible read-only to commands (default: the whole filesystem)"),
+      write: z
+        .array(z.string())
+        .optional()
+        .describe("Paths commands may modify (default: none; /tmp is always a private scratch directory)"),
+      network: z.boolean().optional().describe("Allow network access (default: true)"),
+      required: z
+        .boolean()
+        .optional()
+        .describe(
+          "Refuse to run commands when the backend is unavailable instead of running them unsandboxed (default: true)",
+        ),
+    })
+    .strict()
+    .meta({
+      ref: "SandboxConfig",
+    })
+  export type Sandbox = z.infer<typeof Sandbox>
+
   export const Agent = z
     .object({
       model: z.string().optional(),
@@ -594,6 +658,14 @@ export namespace Config {
         .boolean()
         .optional()
         .describe("If true, first response auto-returns to parent. If false, agent must call finish_task."),
+      budget: Budget.optional().describe("Spend limits applied to each task this agent runs, including its subagents"),
+      sandbox: z
+        .union([Sandbox, z.literal(false)])
+        .optional()
+        .describe("Run this agent's bash commands in a sandbox, or false to disable a built-in sandbox"),
+      failover: Failover.optional().describe(
+        "Models to switch to when this agent's model keeps failing or its context is too long",
+      ),
     })
     .catchall(z.any())
     .transform((agent, ctx) => {
@@ -614,6 +686,9 @@ export namespace Config {
         "disable",
         "tools",
         "single_shot", // OpenCodeOrchestra: singleShot config key
+        "budget", // OpenCodeOrchestra: subtree budget config key
+        "sandbox", // OpenCodeOrchestra: bash sandbox config key
+        "failover", // OpenCodeOrchestra: model failover config key
       ])
 
       // Extract unknown properties into options
@@ -693,6 +768,12 @@ export namespace Config {
       messages_previous: z.string().optional().default("none").describe("Navigate to previous message"),
       messages_last_user: z.string().optional().default("none").describe("Navigate to last user message"),
       messages_copy: z.string().optional().default("<leader>y").describe("Copy message"),
+      messages_pin: z.string().optional().default("<leader>p").describe("Pin or unpin the selected message"),
+      messages_exclude: z
+        .string()
+        .optional()
+        .default("none")
+        .describe("Exclude the selected message from context, or include it again"),
       messages_undo: z.string().optional().default("<leader>u").describe("Undo message"),
       messages_redo: z.string().optional().default("<leader>r").describe("Redo message"),
       messages_toggle_conceal: z
@@ -833,6 +914,93 @@ export namespace Config {
       ref: "ServerConfig",
     })
 
+  // OpenCodeOrchestra: Which agents may occupy which depth and spawn which agents (see session/hierarchy.ts)
+  export const Hierarchy = z
+    .object({
+      max_depth: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Deepest level a session may be spawned at. The PM is depth 0 (default: unlimited)"),
+      levels: z
+        .record(
+          z.string(),
+          z
+            .object({
+              agents: z
+                .array(z.string())
+                .min(1)
+                .optional()
+                .describe(
+                  "Agents allowed at this depth. Agents that are not listed are placed at the next depth that allows them",
+                ),
+              single_shot: z
+                .boolean()
+                .optional()
+                .describe("Force every agent at this depth to be single-shot (true) or persistent (false)"),
+            })
+            .strict(),
+        )
+        .optional()
+        .describe('Per-depth rules keyed by depth, e.g. { "1": { "agents": ["orchestrator"] } }'),
+      single_shot_depth: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Sessions at or below this depth are always single-shot unless a level overrides it (default: 2)"),
+      spawn: z
+        .record(z.string(), z.array(z.string()))
+        .optional()
+        .describe("Agents each agent may spawn through the task tool (wildcards allowed). Unlisted agents are unrestricted"),
+    })
+    .strict()
+    .superRefine((data, ctx) => {
+      for (const key of Object.keys(data.levels ?? {})) {
+        const depth = Number(key)
+        if (!Number.isInteger(depth) || depth < 1) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Hierarchy level "${key}" must be a positive integer depth (depth 0 is the PM)`,
+            path: ["levels", key],
+          })
+          continue
+        }
+        if (data.max_depth !== undefined && depth > data.max_depth) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Hierarchy level ${depth} is deeper than max_depth ${data.max_depth}`,
+            path: ["levels", key],
+          })
+        }
+      }
+    })
+    .meta({
+      ref: "HierarchyConfig",
+    })
+  export type Hierarchy = z.infer<typeof Hierarchy>
+
+  // OpenCodeOrchestra: Tracks LSP errors introduced by edits in orchestrator subtrees (see session/diagnostic.ts)
+  export const Diagnostics = z
+    .object({
+      gate: z
+        .boolean()
+        .optional()
+        .describe(
+          "Report errors introduced by each edit and summarize outstanding ones in finish_task (default: true)",
+        ),
+      severity: z
+        .enum(["error", "warning"])
+        .optional()
+        .describe("Lowest severity tracked by the gate (default: error)"),
+    })
+    .strict()
+    .meta({
+      ref: "DiagnosticsConfig",
+    })
+  export type Diagnostics = z.infer<typeof Diagnostics>
+
   export const Layout = z.enum(["auto", "stretch"]).meta({
     ref: "LayoutConfig",
   })
@@ -967,6 +1135,8 @@ export namespace Config {
         .catchall(Agent)
         .optional()
         .describe("Agent configuration, see https://opencode.ai/docs/agents"),
+      hierarchy: Hierarchy.optional().describe("Session hierarchy policy for the task tool"),
+      diagnostics: Diagnostics.optional().describe("LSP diagnostics gate for edits made by orchestrator subtrees"),
       provider: z
         .record(z.string(), Provider)
         .optional()
@@ -1091,12 +1261,39 @@ export namespace Config {
             .optional()
             .describe("Tools that should only be available to primary agents."),
           continue_loop_on_deny: z.boolean().optional().describe("Continue the agent loop when a tool call is denied"),
+          task_concurrency: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe("Maximum number of task_graph nodes that run at the same time (default: 4)"),
           mcp_timeout: z
             .number()
             .int()
             .positive()
             .optional()
             .describe("Timeout in milliseconds for model context protocol (MCP) requests"),
+          format_scope: z
+            .enum(["file", "changes"])
+            .optional()
+            .describe(
+              "Whether formatters rewrite the whole file after an edit or only the lines the edit changed (default: file)",
+            ),
+          mcp_resource_updates: z
+            .enum(["refresh", "mark"])
+            .optional()
+            .describe(
+              "What happens on the next turn to attached MCP resources the server reported as updated: re-read them into the conversation, or only note that they are stale (default: refresh)",
+            ),
+          cassette: z
+            .object({
+              mode: z
+                .enum(["record", "replay"])
+                .describe("Record model streams, or replay them instead of calling the provider"),
+              path: z.string().describe("Directory holding the cassette files, relative to the project directory"),
+            })
+            .optional()
+            .describe("Record and replay model streams for offline tests"),
         })
         .optional(),
     })
@@ -115,6 +115,10 @@ export namespace File {
       "file.edited",
       z.object({
         file: z.string(),
+        lines: z
+          .array(z.object({ start: z.number(), end: z.number() }))
+          .optional()
+          .describe("Lines changed by the edit, 0-based and inclusive; omitted when the whole file changed"),
       }),
     ),
   }
@@ -28,6 +28,9 @@ export namespace Flag {
   export const OPENCODE_CLIENT = process.env["OPENCODE_CLIENT"] ?? "cli"
   export const OPENCODE_SERVER_PASSWORD = process.env["OPENCODE_SERVER_PASSWORD"]
   export const OPENCODE_SERVER_USERNAME = process.env["OPENCODE_SERVER_USERNAME"]
+  // OpenCodeOrchestra: record model streams to, or replay them from, cassettes (see provider/cassette.ts)
+  export const OPENCODE_CASSETTE_MODE = process.env["OPENCODE_CASSETTE_MODE"]
+  export const OPENCODE_CASSETTE_PATH = process.env["OPENCODE_CASSETTE_PATH"]
 
   // Experimental
   export const OPENCODE_EXPERIMENTAL = truthy("OPENCODE_EXPERIMENTAL")
@@ -2,12 +2,16 @@ import { Bus } from "../bus"
 import { File } from "../file"
 import { Log } from "../util/log"
 import path from "path"
+import os from "os"
 import z from "zod"
+import * as fs from "fs/promises"
+import { createTwoFilesPatch, diffLines } from "diff"
 
 import * as Formatter from "./formatter"
 import { Config } from "../config/config"
 import { mergeDeep } from "remeda"
 import { Instance } from "../project/instance"
+import { NamedError } from "@opencode-ai/util/error"
 
 export namespace Format {
   const log = Log.create({ service: "format" })
@@ -100,38 +104,177 @@ export namespace Format {
     return result
   }
 
+  export const Preview = z
+    .object({
+      file: z.string(),
+      formatters: z.string().array().describe("Formatters that would run on the file"),
+      diff: z.string().describe("Unified diff of the changes the formatters would make"),
+      additions: z.number(),
+      deletions: z.number(),
+    })
+    .meta({
+      ref: "FormatterPreview",
+    })
+  export type Preview = z.infer<typeof Preview>
+
+  export const PreviewError = NamedError.create(
+    "FormatPreviewError",
+    z.object({
+      file: z.string(),
+      message: z.string(),
+    }),
+  )
+
+  async function run(item: Formatter.Info, file: string) {
+    log.info("running", { command: item.command })
+    try {
+      const proc = Bun.spawn({
+        cmd: item.command.map((x) => x.replace("$FILE", file)),
+        cwd: Instance.directory,
+        env: { ...process.env, ...item.environment },
+        stdout: "ignore",
+        stderr: "ignore",
+      })
+      const exit = await proc.exited
+      if (exit !== 0)
+        log.error("failed", {
+          command: item.command,
+          ...item.environment,
+        })
+    } catch (error) {
+      log.error("failed to format file", {
+        error,
+        command: item.command,
+        ...item.environment,
+        file,
+      })
+    }
+  }
+
+  /** OpenCodeOrchestra: Lines of `after` an edit changed, 0-based and inclusive; a deletion marks the lines around it. */
+  export function changed(before: string, after: string) {
+    const result: { start: number; end: number }[] = []
+    const changes = diffLines(before, after)
+    let line = 0
+    for (const [index, change] of changes.entries()) {
+      const count = change.count ?? 0
+      if (change.added) {
+        result.push({ start: line, end: line + count - 1 })
+        line += count
+        continue
+      }
+      if (change.removed) {
+        // a replacement is marked by the lines that were added in its place
+        if (!changes[index + 1]?.added) result.push({ start: Math.max(line - 1, 0), end: line })
+        continue
+      }
+      line += count
+    }
+    return result
+  }
+
+  function split(text: string) {
+    return text.split(/(?<=\n)/).filter(Boolean)
+  }
+
+  /**
+   * OpenCodeOrchestra: Keeps only the formatter changes that touch `lines` of `before`, reverting the hunks elsewhere
+   * so a file that was not formatted before does not get unrelated changes.
+   */
+  export function select(before: string, after: string, lines: { start: number; end: number }[]) {
+    const changes = diffLines(before, after)
+    let result = ""
+    let line = 0
+    for (let i = 0; i < changes.length; i++) {
+      const change = changes[i]
+      if (!change.added && !change.removed) {
+        result += change.value
+        line += change.count ?? 0
+        continue
+      }
+      const removed = change.removed ? change : undefined
+      const added = change.added ? change : changes[i + 1]?.added ? changes[++i] : undefined
+      const count = removed?.count ?? 0
+      const touched = (first: number, last: number) => lines.some((range) => range.start <= last && range.end >= first)
+      // a hunk that rewrites lines one for one is decided per line
+      const before = split(removed?.value ?? "")
+      const after = split(added?.value ?? "")
+      if (before.length > 0 && before.length === after.length) {
+        result += before.map((text, index) => (touched(line + index, line + index) ? after[index] : text)).join("")
+      } else {
+        const keep = touched(line, line + Math.max(count, 1) - 1)
+        result += keep ? (added?.value ?? "") : (removed?.value ?? "")
+      }
+      line += count
+    }
+    return result
+  }
+
+  /** Reports what the formatters would change in `file` without writing it. */
+  export async function preview(file: string): Promise<Preview> {
+    const full = path.resolve(Instance.directory, file)
+    if (!Instance.containsPath(full)) {
+      throw new PreviewError({ file, message: `Access denied: ${file} escapes the project directory` })
+    }
+    const before = await Bun.file(full)
+      .text()
+      .catch(() => {
+        throw new PreviewError({ file, message: `File not found: ${file}` })
+      })
+    const formatters = await getFormatter(path.extname(full))
+    // the copy keeps the file name but lives outside the project, so nothing in the user's tree changes; formatters
+    // still run from the project directory, though ones that look up their configuration next to the file won't see it
+    const after = await (async () => {
+      if (formatters.length === 0) return before
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-format-"))
+      try {
+        const copy = path.join(dir, path.basename(full))
+        await Bun.write(copy, before)
+        for (const item of formatters) await run(item, copy)
+        return await Bun.file(copy).text()
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true })
+      }
+    })()
+
+    let additions = 0
+    let deletions = 0
+    for (const change of diffLines(before, after)) {
+      if (change.added) additions += change.count ?? 0
+      if (change.removed) deletions += change.count ?? 0
+    }
+    return {
+      file: path.relative(Instance.worktree, full).replaceAll("\\", "/"),
+      formatters: formatters.map((x) => x.name),
+      diff: before === after ? "" : createTwoFilesPatch(full, full, before, after),
+      additions,
+      deletions,
+    }
+  }
+
   export function init() {
     log.info("init")
     Bus.subscribe(File.Event.Edited, async (payload) => {
-      const file = payload.properties.file
+      const { file, lines } = payload.properties
       log.info("formatting", { file })
       const ext = path.extname(file)
 
-      for (const item of await getFormatter(ext)) {
-        log.info("running", { command: item.command })
-        try {
-          const proc = Bun.spawn({
-            cmd: item.command.map((x) => x.replace("$FILE", file)),
-            cwd: Instance.directory,
-            env: { ...process.env, ...item.environment },
-            stdout: "ignore",
-            stderr: "ignore",
-          })
-          const exit = await proc.exited
-          if (exit !== 0)
-            log.error("failed", {
-              command: item.command,
-              ...item.environment,
-            })
-        } catch (error) {
-          log.error("failed to format file", {
-            error,
-            command: item.command,
-            ...item.environment,
-            file,
-          })
-        }
+      // OpenCodeOrchestra: with the "changes" scope, formatter changes outside the edited lines are reverted
+      const scope = await Config.get().then((x) => x.experimental?.format_scope)
+      const before =
+        scope === "changes" && lines
+          ? await Bun.file(file)
+              .text()
+              .catch(() => undefined)
+          : undefined
+      const formatters = await getFormatter(ext)
+      for (const item of formatters) {
+        await run(item, file)
       }
+      if (before === undefined || !lines || formatters.length === 0) return
+      const after = await Bun.file(file).text()
+      const result = select(before, after, lines)
+      if (result !== after) await Bun.write(file, result)
     })
   }
 }
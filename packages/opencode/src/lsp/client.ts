@@ -3,7 +3,7 @@ import { Bus } from "@/bus"
 import path from "path"
 import { pathToFileURL, fileURLToPath } from "url"
 import { createMessageConnection, StreamMessageReader, StreamMessageWriter } from "vscode-jsonrpc/node"
-import type { Diagnostic as VSCodeDiagnostic } from "vscode-languageserver-types"
+import type { Diagnostic as VSCodeDiagnostic, WorkspaceEdit } from "vscode-languageserver-types"
 import { Log } from "../util/log"
 import { LANGUAGE_EXTENSIONS } from "./language"
 import z from "zod"
@@ -68,6 +68,13 @@ export namespace LSPClient {
       // Return server initialization options
       return [input.server.initialization ?? {}]
     })
+    // OpenCodeOrchestra: edits a server applies while executing a command are collected for the caller to apply
+    let collector: ((edit: WorkspaceEdit) => void) | undefined
+    connection.onRequest("workspace/applyEdit", async (params: { edit: WorkspaceEdit }) => {
+      if (!collector) return { applied: false, failureReason: "Workspace edits are only applied on request" }
+      collector(params.edit)
+      return { applied: true }
+    })
     connection.onRequest("client/registerCapability", async () => {})
     connection.onRequest("client/unregisterCapability", async () => {})
     connection.onRequest("workspace/workspaceFolders", async () => [
@@ -98,6 +105,11 @@ export namespace LSPClient {
           },
           workspace: {
             configuration: true,
+            applyEdit: true,
+            workspaceEdit: {
+              documentChanges: true,
+              resourceOperations: ["create", "rename", "delete"],
+            },
             didChangeWatchedFiles: {
               dynamicRegistration: true,
             },
@@ -110,6 +122,30 @@ export namespace LSPClient {
             publishDiagnostics: {
               versionSupport: true,
             },
+            rename: {
+              prepareSupport: false,
+            },
+            codeAction: {
+              codeActionLiteralSupport: {
+                codeActionKind: {
+                  valueSet: [
+                    "quickfix",
+                    "refactor",
+                    "refactor.extract",
+                    "refactor.inline",
+                    "refactor.rewrite",
+                    "source",
+                    "source.organizeImports",
+                    "source.fixAll",
+                  ],
+                },
+              },
+              dataSupport: true,
+              resolveSupport: {
+                properties: ["edit"],
+              },
+            },
+            formatting: {},
           },
         },
       }),
@@ -207,6 +243,16 @@ export namespace LSPClient {
       get diagnostics() {
         return diagnostics
       },
+      /** Runs `fn` and returns the workspace edits the server asked to apply meanwhile, instead of rejecting them. */
+      async collectEdits<T>(fn: () => Promise<T>) {
+        const edits: WorkspaceEdit[] = []
+        collector = (edit) => edits.push(edit)
+        try {
+          return { value: await fn(), edits }
+        } finally {
+          collector = undefined
+        }
+      },
       async waitForDiagnostics(input: { path: string }) {
         const normalizedPath = Filesystem.normalizePath(
           path.isAbsolute(input.path) ? input.path : path.resolve(Instance.directory, input.path),
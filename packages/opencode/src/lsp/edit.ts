@@ -0,0 +1,138 @@
+import * as fs from "fs/promises"
+import { fileURLToPath } from "url"
+import type { Position, TextEdit, WorkspaceEdit } from "vscode-languageserver-types"
+
+/**
+ * OpenCodeOrchestra: Turns the workspace edits returned by language servers (rename, code actions, formatting)
+ * into whole-file changes, so they can be applied through the same permission and diff pipeline as the edit tools.
+ */
+export namespace LSPEdit {
+  export interface Change {
+    filePath: string
+    type: "add" | "update" | "delete"
+    oldContent: string
+    newContent: string
+  }
+
+  function offsets(text: string) {
+    const result = [0]
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (char === "\r" && text[i + 1] === "\n") continue
+      if (char === "\n" || char === "\r") result.push(i + 1)
+    }
+    return result
+  }
+
+  function offset(lines: number[], text: string, position: Position) {
+    if (position.line >= lines.length) return text.length
+    const start = lines[position.line]
+    const end = position.line + 1 < lines.length ? lines[position.line + 1] : text.length
+    return Math.min(start + position.character, end)
+  }
+
+  /** Applies text edits to `text`. Positions refer to the original text; inserts at the same position keep their order. */
+  export function apply(text: string, edits: TextEdit[]) {
+    const lines = offsets(text)
+    const sorted = edits
+      .map((edit) => ({
+        start: offset(lines, text, edit.range.start),
+        end: offset(lines, text, edit.range.end),
+        text: edit.newText,
+      }))
+      .sort((a, b) => a.start - b.start || a.end - b.end)
+    let result = ""
+    let cursor = 0
+    for (const edit of sorted) {
+      if (edit.start < cursor) throw new Error("Language server returned overlapping text edits")
+      result += text.slice(cursor, edit.start) + edit.text
+      cursor = edit.end
+    }
+    return result + text.slice(cursor)
+  }
+
+  /**
+   * Resolves workspace edits against the file system, in order, without writing anything.
+   * Returns one change per file whose content or existence differs afterwards.
+   */
+  export async function resolve(edits: WorkspaceEdit[]): Promise<Change[]> {
+    const original = new Map<string, string | undefined>()
+    const current = new Map<string, string | undefined>()
+
+    async function load(filePath: string) {
+      if (current.has(filePath)) return current.get(filePath)
+      const stats = await fs.stat(filePath).catch(() => undefined)
+      if (stats?.isDirectory()) throw new Error(`Workspace edits on directories are not supported: ${filePath}`)
+      const content = stats ? await fs.readFile(filePath, "utf-8") : undefined
+      original.set(filePath, content)
+      current.set(filePath, content)
+      return content
+    }
+
+    async function edit(uri: string, textEdits: TextEdit[]) {
+      const filePath = fileURLToPath(uri)
+      const content = await load(filePath)
+      if (content === undefined) throw new Error(`Workspace edit targets a missing file: ${filePath}`)
+      current.set(filePath, apply(content, textEdits))
+    }
+
+    for (const item of edits) {
+      if (item.documentChanges) {
+        for (const change of item.documentChanges) {
+          if (!("kind" in change)) {
+            await edit(change.textDocument.uri, change.edits as TextEdit[])
+            continue
+          }
+          if (change.kind === "create") {
+            const filePath = fileURLToPath(change.uri)
+            const existing = await load(filePath)
+            if (existing !== undefined && !change.options?.overwrite) {
+              if (change.options?.ignoreIfExists) continue
+              throw new Error(`Workspace edit creates a file that already exists: ${filePath}`)
+            }
+            current.set(filePath, "")
+            continue
+          }
+          if (change.kind === "rename") {
+            const from = fileURLToPath(change.oldUri)
+            const to = fileURLToPath(change.newUri)
+            const content = await load(from)
+            if (content === undefined) throw new Error(`Workspace edit renames a missing file: ${from}`)
+            const existing = await load(to)
+            if (existing !== undefined && !change.options?.overwrite) {
+              if (change.options?.ignoreIfExists) continue
+              throw new Error(`Workspace edit renames onto an existing file: ${to}`)
+            }
+            current.set(from, undefined)
+            current.set(to, content)
+            continue
+          }
+          const filePath = fileURLToPath(change.uri)
+          const existing = await load(filePath)
+          if (existing === undefined) {
+            if (change.options?.ignoreIfNotExists) continue
+            throw new Error(`Workspace edit deletes a missing file: ${filePath}`)
+          }
+          current.set(filePath, undefined)
+        }
+        continue
+      }
+      for (const [uri, textEdits] of Object.entries(item.changes ?? {})) {
+        await edit(uri, textEdits)
+      }
+    }
+
+    const result: Change[] = []
+    for (const [filePath, after] of current) {
+      const before = original.get(filePath)
+      if (before === after) continue
+      result.push({
+        filePath,
+        type: before === undefined ? "add" : after === undefined ? "delete" : "update",
+        oldContent: before ?? "",
+        newContent: after ?? "",
+      })
+    }
+    return result
+  }
+}
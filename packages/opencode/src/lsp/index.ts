@@ -10,6 +10,8 @@ import { Config } from "../config/config"
 import { spawn } from "child_process"
 import { Instance } from "../project/instance"
 import { Flag } from "@/flag/flag"
+import { Filesystem } from "../util/filesystem"
+import type { CodeAction, Command, TextEdit, WorkspaceEdit } from "vscode-languageserver-types"
 
 export namespace LSP {
   const log = Log.create({ service: "lsp" })
@@ -454,6 +456,84 @@ export namespace LSP {
     }).then((result) => result.flat().filter(Boolean))
   }
 
+  // OpenCodeOrchestra: write-side operations; they return workspace edits for the caller to apply (see lsp/edit.ts)
+  export async function rename(input: { file: string; line: number; character: number; newName: string }) {
+    return run(input.file, (client) =>
+      client.connection
+        .sendRequest("textDocument/rename", {
+          textDocument: { uri: pathToFileURL(input.file).href },
+          position: { line: input.line, character: input.character },
+          newName: input.newName,
+        })
+        .catch(() => null),
+    ).then((result) => result.filter(Boolean) as WorkspaceEdit[])
+  }
+
+  export type CodeActionItem = {
+    serverID: string
+    action: CodeAction | Command
+  }
+
+  export async function codeActions(input: { file: string; range: Range; only?: string[] }) {
+    const overlaps = (range: Range) =>
+      range.start.line <= input.range.end.line && range.end.line >= input.range.start.line
+    return run(input.file, (client) =>
+      client.connection
+        .sendRequest("textDocument/codeAction", {
+          textDocument: { uri: pathToFileURL(input.file).href },
+          range: input.range,
+          context: {
+            diagnostics: (client.diagnostics.get(Filesystem.normalizePath(input.file)) ?? []).filter((x) =>
+              overlaps(x.range),
+            ),
+            only: input.only,
+          },
+        })
+        .then((result) =>
+          ((result ?? []) as (CodeAction | Command)[]).map(
+            (action): CodeActionItem => ({ serverID: client.serverID, action }),
+          ),
+        )
+        .catch(() => [] as CodeActionItem[]),
+    ).then((result) => result.flat())
+  }
+
+  /**
+   * The workspace edits of a code action: its own edit (resolved lazily when the server supports it) followed by
+   * the edits the server requests while executing its command.
+   */
+  export async function codeActionEdits(input: { file: string; item: CodeActionItem }) {
+    const client = (await getClients(input.file)).find((x) => x.serverID === input.item.serverID)
+    if (!client) return []
+    let action = input.item.action
+    if (typeof action.command !== "string" && !("edit" in action && action.edit)) {
+      action = await client.connection
+        .sendRequest("codeAction/resolve", action)
+        .then((result) => (result ?? action) as CodeAction)
+        .catch(() => action)
+    }
+    const command = typeof action.command === "string" ? (action as Command) : (action as CodeAction).command
+    const edits = "edit" in action && action.edit ? [action.edit] : []
+    if (!command) return edits
+    const collected = await client.collectEdits(() =>
+      client.connection
+        .sendRequest("workspace/executeCommand", { command: command.command, arguments: command.arguments })
+        .catch((error) => log.error("failed to execute code action command", { error, command: command.command })),
+    )
+    return [...edits, ...collected.edits]
+  }
+
+  export async function formatting(input: { file: string; tabSize: number; insertSpaces: boolean }) {
+    return run(input.file, (client) =>
+      client.connection
+        .sendRequest("textDocument/formatting", {
+          textDocument: { uri: pathToFileURL(input.file).href },
+          options: { tabSize: input.tabSize, insertSpaces: input.insertSpaces },
+        })
+        .catch(() => null),
+    ).then((result) => ((result as (TextEdit[] | null)[]).find((x) => x?.length) ?? []) as TextEdit[])
+  }
+
   async function runAll<T>(input: (client: LSPClient.Info) => Promise<T>): Promise<T[]> {
     const clients = await state().then((x) => x.clients)
     const tasks = clients.map((x) => input(x))
@@ -0,0 +1,44 @@
+import type { Tool } from "../tool/tool"
+import type { Provider } from "../provider/provider"
+import type { MessageV2 } from "../session/message-v2"
+import type { Agent } from "../agent/agent"
+import { Instance } from "../project/instance"
+
+/**
+ * OpenCodeOrchestra: Tracks which session tool calls each MCP server is serving. Sampling and elicitation requests
+ * carry no session and nothing on the wire ties them to the tool call that triggered them, so they are only answered
+ * while exactly one tool call is running on that server.
+ */
+export namespace McpCaller {
+  export interface Info {
+    ctx: Tool.Context
+    agent: Agent.Info
+    model: Provider.Model
+    message: MessageV2.Assistant
+  }
+
+  const state = Instance.state(() => ({}) as Record<string, Info[]>)
+
+  export async function track<T>(server: string, caller: Info | undefined, fn: () => Promise<T>) {
+    if (!caller) return fn()
+    const active = (state()[server] ??= [])
+    active.push(caller)
+    try {
+      return await fn()
+    } finally {
+      active.splice(active.indexOf(caller), 1)
+    }
+  }
+
+  /** Number of tool calls running on the server, across all sessions of the instance. */
+  export function active(server: string) {
+    return state()[server]?.length ?? 0
+  }
+
+  /** The caller a server-initiated request belongs to, or undefined when none or more than one call is running. */
+  export function current(server: string) {
+    const active = state()[server] ?? []
+    if (active.length !== 1) return
+    return active[0]
+  }
+}
@@ -0,0 +1,118 @@
+import type { ElicitRequest, ElicitResult } from "@modelcontextprotocol/sdk/types.js"
+import { Question } from "../question"
+import { Log } from "../util/log"
+import type { McpCaller } from "./caller"
+
+/**
+ * OpenCodeOrchestra: Answers `elicitation/create` requests by asking one question per field of the requested schema
+ * in the session whose tool call the server is serving. Dismissing the questions declines the request.
+ */
+export namespace McpElicitation {
+  const log = Log.create({ service: "mcp.elicitation" })
+
+  type Params = Extract<ElicitRequest["params"], { requestedSchema: unknown }>
+  type Property = Params["requestedSchema"]["properties"][string]
+  type Choice = { value: string; label: string }
+
+  const YES = "Yes"
+  const NO = "No"
+
+  function choices(property: Property): Choice[] | undefined {
+    const schema = property as {
+      enum?: string[]
+      enumNames?: string[]
+      oneOf?: { const: string; title?: string }[]
+      items?: { enum?: string[]; anyOf?: { const: string; title?: string }[] }
+    }
+    const titled = schema.oneOf ?? schema.items?.anyOf
+    if (titled) return titled.map((x) => ({ value: x.const, label: x.title ?? x.const }))
+    const values = schema.enum ?? schema.items?.enum
+    if (values) return values.map((value, i) => ({ value, label: schema.enumNames?.[i] ?? value }))
+    return undefined
+  }
+
+  function question(name: string, property: Property, message?: string): Question.Info {
+    const text = property.description ?? property.title ?? name
+    const header = (property.title ?? name).slice(0, 30)
+    const question = message ? `${message}\n\n${text}` : text
+    if (property.type === "boolean")
+      return {
+        header,
+        question,
+        options: [
+          { label: YES, description: "true" },
+          { label: NO, description: "false" },
+        ],
+        custom: false,
+      }
+    const options = choices(property)
+    if (options)
+      return {
+        header,
+        question,
+        options: options.map((x) => ({ label: x.label, description: x.value })),
+        multiple: property.type === "array",
+        custom: false,
+      }
+    return { header, question, options: [], custom: true }
+  }
+
+  function value(property: Property, answer: Question.Answer) {
+    if (property.type === "boolean") return answer[0] === YES
+    const options = choices(property)
+    if (options) {
+      const values = answer.map((label) => options.find((x) => x.label === label)?.value ?? label)
+      return property.type === "array" ? values : values[0]
+    }
+    const text = answer[0]?.trim()
+    if (!text) return undefined
+    if (property.type === "number" || property.type === "integer") {
+      const number = Number(text)
+      return Number.isFinite(number) ? number : undefined
+    }
+    return text
+  }
+
+  export async function create(input: {
+    server: string
+    caller: McpCaller.Info
+    params: ElicitRequest["params"]
+  }): Promise<ElicitResult> {
+    const { caller, params } = input
+    if (!("requestedSchema" in params)) return { action: "decline" }
+
+    const fields = Object.entries(params.requestedSchema.properties)
+    const message = `${input.server}: ${params.message}`
+    const questions = fields.length
+      ? fields.map(([name, property], i) => question(name, property, i === 0 ? message : undefined))
+      : [
+          {
+            header: input.server.slice(0, 30),
+            question: message,
+            options: [{ label: "Accept", description: `Confirm the request of ${input.server}` }],
+            custom: false,
+          },
+        ]
+
+    const answers = await Question.ask({
+      sessionID: caller.ctx.sessionID,
+      questions,
+      tool: caller.ctx.callID ? { messageID: caller.ctx.messageID, callID: caller.ctx.callID } : undefined,
+    }).catch((error) => {
+      if (error instanceof Question.RejectedError) return undefined
+      throw error
+    })
+    if (!answers) {
+      log.info("declined", { server: input.server })
+      return { action: "decline" }
+    }
+
+    const content: Record<string, unknown> = {}
+    fields.forEach(([name, property], i) => {
+      const result = value(property, answers[i] ?? [])
+      if (result !== undefined) content[name] = result
+    })
+    log.info("accepted", { server: input.server, fields: Object.keys(content) })
+    return { action: "accept", content: content as ElicitResult["content"] }
+  }
+}
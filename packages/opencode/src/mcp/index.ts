@@ -6,6 +6,11 @@ import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js"
 import {
   CallToolResultSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  McpError,
+  ResourceUpdatedNotificationSchema,
   type Tool as MCPToolDef,
   ToolListChangedNotificationSchema,
 } from "@modelcontextprotocol/sdk/types.js"
@@ -23,6 +28,9 @@ import { BusEvent } from "../bus/bus-event"
 import { Bus } from "@/bus"
 import { TuiEvent } from "@/cli/cmd/tui/event"
 import open from "open"
+import { McpCaller } from "./caller"
+import { McpSampling } from "./sampling"
+import { McpElicitation } from "./elicitation"
 
 export namespace MCP {
   const log = Log.create({ service: "mcp" })
@@ -39,6 +47,25 @@ export namespace MCP {
     .meta({ ref: "McpResource" })
   export type Resource = z.infer<typeof Resource>
 
+  export const ResourceTemplate = z
+    .object({
+      name: z.string(),
+      uriTemplate: z.string().describe("RFC 6570 URI template"),
+      description: z.string().optional(),
+      mimeType: z.string().optional(),
+      client: z.string(),
+    })
+    .meta({ ref: "McpResourceTemplate" })
+  export type ResourceTemplate = z.infer<typeof ResourceTemplate>
+
+  export const ResourceUpdated = BusEvent.define(
+    "mcp.resource.updated",
+    z.object({
+      server: z.string(),
+      uri: z.string(),
+    }),
+  )
+
   export const ToolsChanged = BusEvent.define(
     "mcp.tools.changed",
     z.object({
@@ -114,10 +141,45 @@ export namespace MCP {
       log.info("tools list changed notification received", { server: serverName })
       Bus.publish(ToolsChanged, { server: serverName })
     })
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      log.info("resource updated notification received", { server: serverName, uri: notification.params.uri })
+      Bus.publish(ResourceUpdated, { server: serverName, uri: notification.params.uri })
+    })
+  }
+
+  // OpenCodeOrchestra: server-initiated requests are answered in the session of the tool call the server is serving
+  function registerRequestHandlers(client: MCPClient, serverName: string) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      const caller = McpCaller.current(serverName)
+      if (!caller)
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          McpCaller.active(serverName) > 1
+            ? "Sampling is unavailable while several of your tools are running, since the request names no session"
+            : "Sampling is only available while one of your tools is running",
+        )
+      return McpSampling.create({ server: serverName, caller, params: request.params, abort: extra.signal })
+    })
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      const caller = McpCaller.current(serverName)
+      if (!caller) {
+        log.warn("declining elicitation without a single running tool call", {
+          server: serverName,
+          active: McpCaller.active(serverName),
+        })
+        return { action: "decline" as const }
+      }
+      return McpElicitation.create({ server: serverName, caller, params: request.params })
+    })
   }
 
   // Convert MCP tool definition to AI SDK Tool type
-  async function convertMcpTool(mcpTool: MCPToolDef, client: MCPClient, timeout?: number): Promise<Tool> {
+  async function convertMcpTool(
+    mcpTool: MCPToolDef,
+    client: MCPClient,
+    clientName: string,
+    timeout?: number,
+  ): Promise<Tool> {
     const inputSchema = mcpTool.inputSchema
 
     // Spread first, then override type to ensure it's always "object"
@@ -131,17 +193,19 @@ export namespace MCP {
     return dynamicTool({
       description: mcpTool.description ?? "",
       inputSchema: jsonSchema(schema),
-      execute: async (args: unknown) => {
-        return client.callTool(
-          {
-            name: mcpTool.name,
-            arguments: args as Record<string, unknown>,
-          },
-          CallToolResultSchema,
-          {
-            resetTimeoutOnProgress: true,
-            timeout,
-          },
+      execute: async (args: unknown, options) => {
+        return McpCaller.track(clientName, options.experimental_context as McpCaller.Info | undefined, () =>
+          client.callTool(
+            {
+              name: mcpTool.name,
+              arguments: args as Record<string, unknown>,
+            },
+            CallToolResultSchema,
+            {
+              resetTimeoutOnProgress: true,
+              timeout,
+            },
+          ),
         )
       },
     })
@@ -155,6 +219,7 @@ export namespace MCP {
   type PromptInfo = Awaited<ReturnType<MCPClient["listPrompts"]>>["prompts"][number]
 
   type ResourceInfo = Awaited<ReturnType<MCPClient["listResources"]>>["resources"][number]
+  type ResourceTemplateInfo = Awaited<ReturnType<MCPClient["listResourceTemplates"]>>["resourceTemplates"][number]
   type McpEntry = NonNullable<Config.Info["mcp"]>[string]
   function isMcpConfigured(entry: McpEntry): entry is Config.Mcp {
     return typeof entry === "object" && entry !== null && "type" in entry
@@ -254,6 +319,29 @@ export namespace MCP {
     return commands
   }
 
+  async function fetchResourceTemplatesForClient(clientName: string, client: Client) {
+    if (!client.getServerCapabilities()?.resources) return
+    const templates = await client.listResourceTemplates().catch((e) => {
+      log.error("failed to get resource templates", { clientName, error: e.message })
+      return undefined
+    })
+
+    if (!templates) {
+      return
+    }
+
+    const commands: Record<string, ResourceTemplateInfo & { client: string }> = {}
+
+    for (const template of templates.resourceTemplates) {
+      const sanitizedClientName = clientName.replace(/[^a-zA-Z0-9_-]/g, "_")
+      const sanitizedTemplateName = template.name.replace(/[^a-zA-Z0-9_-]/g, "_")
+      const key = sanitizedClientName + ":" + sanitizedTemplateName
+
+      commands[key] = { ...template, client: clientName }
+    }
+    return commands
+  }
+
   export async function add(name: string, mcp: Config.Mcp) {
     const s = await state()
     const result = await create(name, mcp)
@@ -346,10 +434,14 @@ export namespace MCP {
       const connectTimeout = mcp.timeout ?? DEFAULT_TIMEOUT
       for (const { name, transport } of transports) {
         try {
-          const client = new Client({
-            name: "opencode",
-            version: Installation.VERSION,
-          })
+          const client = new Client(
+            {
+              name: "opencode",
+              version: Installation.VERSION,
+            },
+            { capabilities: { sampling: {}, elicitation: {} } },
+          )
+          registerRequestHandlers(client, key)
           await withTimeout(client.connect(transport), connectTimeout)
           registerNotificationHandlers(client, key)
           mcpClient = client
@@ -425,10 +517,14 @@ export namespace MCP {
 
       const connectTimeout = mcp.timeout ?? DEFAULT_TIMEOUT
       try {
-        const client = new Client({
-          name: "opencode",
-          version: Installation.VERSION,
-        })
+        const client = new Client(
+          {
+            name: "opencode",
+            version: Installation.VERSION,
+          },
+          { capabilities: { sampling: {}, elicitation: {} } },
+        )
+        registerRequestHandlers(client, key)
         await withTimeout(client.connect(transport), connectTimeout)
         registerNotificationHandlers(client, key)
         mcpClient = client
@@ -596,7 +692,12 @@ export namespace MCP {
       for (const mcpTool of toolsResult.tools) {
         const sanitizedClientName = clientName.replace(/[^a-zA-Z0-9_-]/g, "_")
         const sanitizedToolName = mcpTool.name.replace(/[^a-zA-Z0-9_-]/g, "_")
-        result[sanitizedClientName + "_" + sanitizedToolName] = await convertMcpTool(mcpTool, client, timeout)
+        result[sanitizedClientName + "_" + sanitizedToolName] = await convertMcpTool(
+          mcpTool,
+          client,
+          clientName,
+          timeout,
+        )
       }
     }
     return result
@@ -644,6 +745,25 @@ export namespace MCP {
     return result
   }
 
+  export async function resourceTemplates() {
+    const s = await state()
+    const clientsSnapshot = await clients()
+
+    return Object.fromEntries<ResourceTemplateInfo & { client: string }>(
+      (
+        await Promise.all(
+          Object.entries(clientsSnapshot).map(async ([clientName, client]) => {
+            if (s.status[clientName]?.status !== "connected") {
+              return []
+            }
+
+            return Object.entries((await fetchResourceTemplatesForClient(clientName, client)) ?? {})
+          }),
+        )
+      ).flat(),
+    )
+  }
+
   export async function getPrompt(clientName: string, name: string, args?: Record<string, string>) {
     const clientsSnapshot = await clients()
     const client = clientsSnapshot[clientName]
@@ -699,6 +819,32 @@ export namespace MCP {
     return result
   }
 
+  // OpenCodeOrchestra: subscriptions are tracked per client object, so a reconnected server starts without any
+  const subscriptions = new WeakMap<MCPClient, Set<string>>()
+
+  /**
+   * Subscribe to updates of a resource, announced as ResourceUpdated events.
+   * Returns false when the server does not support subscriptions.
+   */
+  export async function subscribe(clientName: string, uri: string) {
+    const client = (await clients())[clientName]
+    if (!client?.getServerCapabilities()?.resources?.subscribe) return false
+
+    const subscribed = subscriptions.get(client) ?? new Set<string>()
+    subscriptions.set(client, subscribed)
+    if (subscribed.has(uri)) return true
+
+    const ok = await client.subscribeResource({ uri }).then(
+      () => true,
+      (e) => {
+        log.error("failed to subscribe to resource", { clientName, uri, error: e.message })
+        return false
+      },
+    )
+    if (ok) subscribed.add(uri)
+    return ok
+  }
+
   /**
    * Start OAuth authentication flow for an MCP server.
    * Returns the authorization URL that should be opened in a browser.
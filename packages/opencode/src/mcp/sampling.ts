@@ -0,0 +1,99 @@
+import type { FinishReason, ModelMessage } from "ai"
+import {
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+} from "@modelcontextprotocol/sdk/types.js"
+import { Session } from "../session"
+import { LLM } from "../session/llm"
+import { MessageV2 } from "../session/message-v2"
+import { SessionBudget } from "../session/budget"
+import { Log } from "../util/log"
+import type { McpCaller } from "./caller"
+
+/**
+ * OpenCodeOrchestra: Answers `sampling/createMessage` requests with the model of the session whose tool call the
+ * server is serving, after a `sampling` permission prompt. The request goes through LLM like the session's own, so
+ * plugin hooks and cassettes apply; the server's system prompt stands in for the agent's. The cost is charged to that
+ * session's assistant message and its budgets.
+ */
+export namespace McpSampling {
+  const log = Log.create({ service: "mcp.sampling" })
+
+  type Params = CreateMessageRequest["params"]
+
+  function messages(params: Params): ModelMessage[] {
+    return params.messages.map((message) => {
+      const blocks = Array.isArray(message.content) ? message.content : [message.content]
+      const content = blocks.map((block) => {
+        if (block.type === "text") return { type: "text" as const, text: block.text }
+        if (block.type === "image" || block.type === "audio")
+          return { type: "file" as const, data: block.data, mediaType: block.mimeType }
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported sampling content: ${block.type}`)
+      })
+      if (message.role === "assistant") return { role: "assistant", content }
+      return { role: "user", content }
+    })
+  }
+
+  function stopReason(reason: FinishReason) {
+    if (reason === "stop") return "endTurn"
+    if (reason === "length") return "maxTokens"
+    return reason
+  }
+
+  export async function create(input: {
+    server: string
+    caller: McpCaller.Info
+    params: Params
+    abort: AbortSignal
+  }): Promise<CreateMessageResult> {
+    const { caller, params } = input
+    const model = caller.model
+    await caller.ctx.ask({
+      permission: "sampling",
+      patterns: [input.server],
+      always: [input.server],
+      metadata: {
+        server: input.server,
+        systemPrompt: params.systemPrompt,
+        messages: params.messages.length,
+        maxTokens: params.maxTokens,
+      },
+    })
+
+    const user = await MessageV2.get({ sessionID: caller.ctx.sessionID, messageID: caller.message.parentID })
+    const stream = await LLM.stream({
+      user: user.info as MessageV2.User,
+      sessionID: caller.ctx.sessionID,
+      model,
+      agent: { ...caller.agent, prompt: params.systemPrompt, temperature: params.temperature },
+      system: [],
+      abort: AbortSignal.any([input.abort, caller.ctx.abort]),
+      messages: messages(params),
+      tools: {},
+      maxOutputTokens: params.maxTokens,
+      stopSequences: params.stopSequences,
+    })
+    const [text, finishReason, usage] = await Promise.all([
+      stream.text,
+      stream.finishReason,
+      Promise.all([stream.usage, stream.providerMetadata]).then(([usage, metadata]) =>
+        Session.getUsage({ model, usage, metadata }),
+      ),
+    ])
+
+    caller.message.cost += usage.cost
+    await Session.updateMessage(caller.message)
+    await SessionBudget.record(caller.ctx.sessionID, usage)
+    log.info("sampled", { server: input.server, sessionID: caller.ctx.sessionID, cost: usage.cost })
+
+    return {
+      model: `${model.providerID}/${model.id}`,
+      role: "assistant",
+      content: { type: "text", text },
+      stopReason: stopReason(finishReason),
+    }
+  }
+}
@@ -0,0 +1,370 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { CallToolRequestSchema, ListToolsRequestSchema, type CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { createServer, type IncomingMessage } from "http"
+import z from "zod"
+import { Session } from "../session"
+import { SessionPrompt } from "../session/prompt"
+import { SessionTaskLink } from "../session/task-link"
+import { MessageV2 } from "../session/message-v2"
+import { ProjectMemory } from "../project/memory"
+import { PermissionNext } from "../permission/next"
+import { Question } from "../question"
+import { Spec } from "../spec"
+import { Bus } from "../bus"
+import { Instance } from "../project/instance"
+import { Installation } from "../installation"
+import { Flag } from "../flag/flag"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Exposes the PM/orchestrator hierarchy as an MCP server, so other MCP hosts can delegate work
+ * to OcO: create PM sessions, prompt them, follow their tasks, read project state and specs, and answer permissions,
+ * questions and spec approvals.
+ */
+export namespace McpServer {
+  const log = Log.create({ service: "mcp.server" })
+
+  interface Definition<Parameters extends z.ZodObject> {
+    description: string
+    parameters: Parameters
+    execute(args: z.infer<Parameters>, abort: AbortSignal): Promise<string>
+  }
+
+  function define<Parameters extends z.ZodObject>(definition: Definition<Parameters>) {
+    return definition
+  }
+
+  function text(message: MessageV2.WithParts) {
+    return message.parts
+      .filter((part): part is MessageV2.TextPart => part.type === "text" && !part.synthetic)
+      .map((part) => part.text)
+      .join("\n")
+  }
+
+  /** Whether `sessionID` is `root` or one of the sessions it spawned. */
+  async function within(sessionID: string, root: string) {
+    const seen = new Set<string>()
+    let current: string | undefined = sessionID
+    while (current && !seen.has(current)) {
+      if (current === root) return true
+      seen.add(current)
+      current = await Session.get(current)
+        .then((session) => session.parentID)
+        .catch(() => undefined)
+    }
+    return false
+  }
+
+  export const tools = {
+    session_create: define({
+      description: "Create a new PM session. Send it work with session_prompt.",
+      parameters: z.object({
+        title: z.string().optional().describe("Title of the session"),
+      }),
+      async execute(args) {
+        const session = await Session.create({ title: args.title })
+        return JSON.stringify({ id: session.id, title: session.title })
+      },
+    }),
+    session_list: define({
+      description: "List the most recently updated PM sessions of the project.",
+      parameters: z.object({
+        limit: z.number().int().positive().optional().describe("Maximum number of sessions (default: 20)"),
+      }),
+      async execute(args) {
+        const sessions = []
+        for await (const session of Session.list()) {
+          if (session.parentID || session.time.archived) continue
+          sessions.push({ id: session.id, title: session.title, updated: session.time.updated })
+        }
+        sessions.sort((a, b) => b.updated - a.updated)
+        return JSON.stringify(sessions.slice(0, args.limit ?? 20))
+      },
+    }),
+    session_prompt: define({
+      description: [
+        "Send a prompt to an agent in a session, by default the PM.",
+        "Waits for the reply and returns its text unless wait is false; then poll session_messages and task_list.",
+        "Also returns as soon as the session or one of its tasks asks a question or a permission:",
+        "answer it with question_reply or permission_reply, then poll session_messages.",
+      ].join(" "),
+      parameters: z.object({
+        sessionID: z.string().describe("Session to prompt"),
+        text: z.string().describe("The prompt"),
+        agent: z.string().optional().describe("Agent that handles the prompt (default: the session's agent)"),
+        wait: z.boolean().optional().describe("Wait for the reply (default: true)"),
+      }),
+      async execute(args, abort) {
+        await Session.get(args.sessionID)
+        const reply = SessionPrompt.prompt({
+          sessionID: args.sessionID,
+          agent: args.agent,
+          parts: [{ type: "text", text: args.text }],
+        })
+        if (args.wait === false) {
+          reply.catch((error) => log.error("prompt failed", { sessionID: args.sessionID, error }))
+          return `Prompt sent to ${args.sessionID}.`
+        }
+        const cancel = () => SessionPrompt.cancel(args.sessionID)
+        abort.addEventListener("abort", cancel, { once: true })
+        return new Promise<string>((resolve, reject) => {
+          // the caller cannot answer while it waits on this call, so hand control back instead of hanging
+          const blocked = (kind: string) => async (event: { properties: { id: string; sessionID: string } }) => {
+            if (!(await within(event.properties.sessionID, args.sessionID))) return
+            done()
+            reply.catch((error) => log.error("prompt failed", { sessionID: args.sessionID, error }))
+            resolve(
+              `Session ${event.properties.sessionID} is waiting for an answer to ${kind} ${event.properties.id}. ` +
+                `The prompt keeps running; answer with ${kind}_reply, then poll session_messages.`,
+            )
+          }
+          const unsubscribe = [
+            Bus.subscribe(Question.Event.Asked, blocked("question")),
+            Bus.subscribe(PermissionNext.Event.Asked, blocked("permission")),
+          ]
+          const done = () => {
+            for (const fn of unsubscribe) fn()
+            abort.removeEventListener("abort", cancel)
+          }
+          reply.then(text).then(resolve, reject).finally(done)
+        })
+      },
+    }),
+    session_messages: define({
+      description: "Read the latest messages of a session.",
+      parameters: z.object({
+        sessionID: z.string(),
+        limit: z.number().int().positive().optional().describe("Number of messages (default: 10)"),
+      }),
+      async execute(args) {
+        const messages = await Session.messages({ sessionID: args.sessionID, limit: args.limit ?? 10 })
+        return messages.map((message) => `[${message.info.role}] ${text(message)}`).join("\n\n")
+      },
+    }),
+    task_list: define({
+      description: "List the tasks (orchestrators and subagents) a session spawned, with their status and result.",
+      parameters: z.object({
+        sessionID: z.string().describe("The PM or orchestrator session"),
+      }),
+      async execute(args) {
+        const links = await SessionTaskLink.list(args.sessionID)
+        const children = await Session.children(args.sessionID)
+        return JSON.stringify(
+          children.map((child) => {
+            const link = links.find((x) => x.sessionID === child.id)
+            return {
+              sessionID: child.id,
+              agent: child.agentID,
+              title: child.title,
+              status: link?.status,
+              result: link?.result,
+            }
+          }),
+        )
+      },
+    }),
+    project_state_read: define({
+      description: "Read the project memory: objectives, decisions, learnings, todos, history and preferences.",
+      parameters: z.object({}),
+      async execute() {
+        return JSON.stringify(await ProjectMemory.read(ProjectMemory.root()))
+      },
+    }),
+    spec_list: define({
+      description: "List the specs of the project with their status.",
+      parameters: z.object({}),
+      async execute() {
+        const specs = await Spec.list()
+        return JSON.stringify(
+          specs.map((spec) => ({
+            id: spec.id,
+            title: spec.title,
+            status: spec.status,
+            orchestratorID: spec.orchestratorID,
+          })),
+        )
+      },
+    }),
+    spec_read: define({
+      description: "Read a spec: objective, scope, acceptance criteria and test cases.",
+      parameters: z.object({
+        specID: z.string(),
+      }),
+      async execute(args) {
+        return Spec.format(await Spec.get(args.specID))
+      },
+    }),
+    permission_list: define({
+      description: "List the permission requests waiting for an answer, across all sessions.",
+      parameters: z.object({}),
+      async execute() {
+        return JSON.stringify(await PermissionNext.list())
+      },
+    }),
+    permission_reply: define({
+      description:
+        'Answer a permission request: "once" allows it, "always" also allows matching requests, "reject" denies it.',
+      parameters: z.object({
+        requestID: z.string(),
+        reply: PermissionNext.Reply,
+        message: z.string().optional().describe("Feedback for the agent when rejecting"),
+      }),
+      async execute(args) {
+        await PermissionNext.reply(args)
+        return `Replied ${args.reply} to ${args.requestID}.`
+      },
+    }),
+    question_list: define({
+      description: [
+        "List the questions waiting for an answer, across all sessions.",
+        "The PM asks them for spec approvals, escalations and audit overrides.",
+      ].join(" "),
+      parameters: z.object({}),
+      async execute() {
+        return JSON.stringify(await Question.list())
+      },
+    }),
+    question_reply: define({
+      description: [
+        "Answer a question request. Give one answer per question, in order,",
+        "each a list of the selected option labels, or a custom answer when the question allows it.",
+      ].join(" "),
+      parameters: z.object({
+        requestID: z.string(),
+        answers: Question.Reply.shape.answers,
+      }),
+      async execute(args) {
+        const pending = await Question.list()
+        if (!pending.some((request) => request.id === args.requestID)) {
+          throw new Error(`Question ${args.requestID} is not waiting for an answer`)
+        }
+        await Question.reply(args)
+        return `Answered ${args.requestID}.`
+      },
+    }),
+    question_reject: define({
+      description: "Dismiss a question request without answering it.",
+      parameters: z.object({
+        requestID: z.string(),
+      }),
+      async execute(args) {
+        await Question.reject(args.requestID)
+        return `Dismissed ${args.requestID}.`
+      },
+    }),
+    spec_approve: define({
+      description: [
+        "Approve a draft spec so an orchestrator can execute it.",
+        "A spec the PM is asking about right now is approved by answering its question with question_reply instead.",
+      ].join(" "),
+      parameters: z.object({
+        specID: z.string(),
+      }),
+      async execute(args) {
+        const spec = await Spec.approve(args.specID)
+        return `Spec ${spec.id} is ${spec.status}.`
+      },
+    }),
+    spec_reject: define({
+      description: "Send a draft or approved spec back to the PM for revision, with feedback.",
+      parameters: z.object({
+        specID: z.string(),
+        feedback: z.string().optional().describe("What the PM should change"),
+      }),
+      async execute(args) {
+        const spec = await Spec.reject(args.specID, args.feedback)
+        return `Spec ${spec.id} is ${spec.status}.`
+      },
+    }),
+  }
+
+  export function create() {
+    const server = new Server(
+      { name: "opencode-orchestra", version: Installation.VERSION },
+      { capabilities: { tools: {} } },
+    )
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: Object.entries(tools).map(([name, tool]) => ({
+        name,
+        description: tool.description,
+        inputSchema: z.toJSONSchema(tool.parameters) as { type: "object" },
+      })),
+    }))
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<CallToolResult> => {
+      const tool = tools[request.params.name as keyof typeof tools] as Definition<z.ZodObject> | undefined
+      if (!tool) return { content: [{ type: "text", text: `Unknown tool: ${request.params.name}` }], isError: true }
+      log.info("call", { tool: request.params.name })
+      try {
+        const args = tool.parameters.parse(request.params.arguments ?? {})
+        const output = await tool.execute(args, extra.signal)
+        return { content: [{ type: "text", text: output }] }
+      } catch (error) {
+        log.error("call failed", { tool: request.params.name, error })
+        const message = error instanceof Error ? error.message : String(error)
+        return { content: [{ type: "text", text: message }], isError: true }
+      }
+    })
+    return server
+  }
+
+  /** Serves over stdin/stdout until stdin closes. */
+  export async function stdio() {
+    const server = create()
+    await server.connect(new StdioServerTransport())
+    log.info("serving over stdio")
+    await new Promise((resolve, reject) => {
+      process.stdin.on("end", resolve)
+      process.stdin.on("error", reject)
+    })
+    await server.close()
+  }
+
+  function authorized(req: IncomingMessage) {
+    const password = Flag.OPENCODE_SERVER_PASSWORD
+    if (!password) return true
+    const username = Flag.OPENCODE_SERVER_USERNAME ?? "opencode"
+    const expected = "Basic " + Buffer.from(`${username}:${password}`).toString("base64")
+    return req.headers.authorization === expected
+  }
+
+  /** Serves streamable HTTP on /mcp, statelessly: each request gets its own server bound to the current instance. */
+  export async function http(opts: { hostname: string; port: number }) {
+    if (!Flag.OPENCODE_SERVER_PASSWORD) {
+      console.log("Warning: OPENCODE_SERVER_PASSWORD is not set; server is unsecured.")
+    }
+    const directory = Instance.directory
+    const server = createServer(async (req, res) => {
+      if (!authorized(req)) {
+        res.writeHead(401, { "WWW-Authenticate": 'Basic realm="opencode"' }).end()
+        return
+      }
+      if (new URL(req.url ?? "/", "http://localhost").pathname !== "/mcp") {
+        res.writeHead(404).end()
+        return
+      }
+      await Instance.provide({
+        directory,
+        fn: async () => {
+          const mcp = create()
+          const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+          res.on("close", () => {
+            transport.close()
+            mcp.close()
+          })
+          await mcp.connect(transport)
+          await transport.handleRequest(req, res)
+        },
+      }).catch((error) => {
+        log.error("request failed", { error })
+        if (!res.headersSent) res.writeHead(500).end()
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(opts.port, opts.hostname, resolve))
+    const address = server.address()
+    const port = typeof address === "object" && address ? address.port : opts.port
+    log.info("serving over http", { hostname: opts.hostname, port })
+    return { server, url: `http://${opts.hostname}:${port}/mcp` }
+  }
+}
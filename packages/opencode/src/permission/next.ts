@@ -5,6 +5,7 @@ import { Identifier } from "@/id/id"
 import { Instance } from "@/project/instance"
 import { Storage } from "@/storage/storage"
 import { fn } from "@/util/fn"
+import { iife } from "@/util/iife"
 import { Log } from "@/util/log"
 import { Wildcard } from "@/util/wildcard"
 import os from "os"
@@ -237,12 +238,20 @@ export namespace PermissionNext {
     return match ?? { action: "ask", permission, pattern: "*" }
   }
 
-  const EDIT_TOOLS = ["edit", "write", "patch", "multiedit"]
+  const EDIT_TOOLS = ["edit", "write", "patch", "multiedit", "lsp_edit"]
+  // OpenCodeOrchestra: background processes run commands, so they follow the bash permission
+  const PROCESS_TOOLS = ["process_start", "process_output", "process_input", "process_kill", "process_list"]
 
   export function disabled(tools: string[], ruleset: Ruleset): Set<string> {
     const result = new Set<string>()
     for (const tool of tools) {
-      const permission = EDIT_TOOLS.includes(tool) ? "edit" : tool
+      const permission = iife(() => {
+        if (EDIT_TOOLS.includes(tool)) return "edit"
+        if (PROCESS_TOOLS.includes(tool)) return "bash"
+        // task_graph spawns its nodes through the task tool
+        if (tool === "task_graph") return "task"
+        return tool
+      })
 
       const rule = ruleset.findLast((r) => Wildcard.match(permission, r.permission))
       if (!rule) continue
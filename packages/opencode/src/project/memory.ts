@@ -0,0 +1,264 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { Instance } from "./instance"
+import { Lock } from "../util/lock"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Versioned cross-session memory of the PM, persisted as .opencode/project-state.json.
+ * Older layouts (including the legacy .opencode/pm-state.json) are migrated on first read. Writes only
+ * append, patch or remove entries so a single call can never drop a whole section.
+ */
+export namespace ProjectMemory {
+  const log = Log.create({ service: "project.memory" })
+
+  export const VERSION = 1
+
+  export const Decision = z.object({
+    decision: z.string().min(1).describe("The decision made"),
+    rationale: z.string().describe("Why this decision was made"),
+    timestamp: z.string().describe("When the decision was made (ISO format)"),
+  })
+  export type Decision = z.infer<typeof Decision>
+
+  export const Learning = z.object({
+    topic: z.string().min(1).describe("Topic or area of the learning"),
+    insight: z.string().min(1).describe("The insight or knowledge gained"),
+  })
+  export type Learning = z.infer<typeof Learning>
+
+  export const Todo = z.object({
+    id: z.string().min(1).describe("Unique ID for the todo item"),
+    task: z.string().min(1).describe("Description of the task"),
+    status: z.enum(["pending", "in_progress", "completed", "cancelled"]).describe("Current status"),
+    priority: z.enum(["high", "medium", "low"]).describe("Priority level"),
+  })
+  export type Todo = z.infer<typeof Todo>
+
+  export const History = z.object({
+    id: z.string().min(1).describe("ID of the task, usually the orchestrator session ID"),
+    summary: z.string().min(1).describe("What the task delivered"),
+    status: z.string().describe("How the task ended, e.g. completed or failed"),
+    date: z.string().describe("When the task ended (ISO format)"),
+  })
+  export type History = z.infer<typeof History>
+
+  export const Info = z.object({
+    version: z.number().int(),
+    objectives: z.array(z.string()).default([]),
+    decisions: z.array(Decision).default([]),
+    learnings: z.array(Learning).default([]),
+    todos: z.array(Todo).default([]),
+    history: z.array(History).default([]),
+    preferences: z.record(z.string(), z.string()).default({}),
+    lastUpdated: z.string().optional(),
+  })
+  export type Info = z.infer<typeof Info>
+
+  export const Section = z.enum(["objectives", "decisions", "learnings", "todos", "history", "preferences"])
+  export type Section = z.infer<typeof Section>
+
+  export const Append = z.object({
+    objectives: z.array(z.string().min(1)).optional().describe("Objectives to add"),
+    decisions: z.array(Decision).optional().describe("Decisions to record"),
+    learnings: z.array(Learning).optional().describe("Learnings to record"),
+    todos: z.array(Todo).optional().describe("New todo items; IDs must not exist yet"),
+    history: z.array(History).optional().describe("Finished tasks to record"),
+  })
+  export type Append = z.infer<typeof Append>
+
+  export const Patch = z.object({
+    todos: z
+      .array(Todo.partial().required({ id: true }))
+      .optional()
+      .describe("Updates to existing todo items, matched by id; omitted fields are kept"),
+    preferences: z.record(z.string(), z.string()).optional().describe("Preferences to set, by key"),
+  })
+  export type Patch = z.infer<typeof Patch>
+
+  export const Remove = z.object({
+    objectives: z.array(z.string()).optional().describe("Objectives to remove, by exact text"),
+    todos: z.array(z.string()).optional().describe("IDs of todo items to remove"),
+    preferences: z.array(z.string()).optional().describe("Keys of preferences to remove"),
+  })
+  export type Remove = z.infer<typeof Remove>
+
+  export const Update = z.object({
+    append: Append.optional(),
+    patch: Patch.optional(),
+    remove: Remove.optional(),
+  })
+  export type Update = z.infer<typeof Update>
+
+  export class ValidationError extends Error {
+    constructor(
+      public readonly field: string,
+      message: string,
+    ) {
+      super(`${field}: ${message}`)
+    }
+  }
+
+  /** The layout of .opencode/pm-state.json written by the former pm_state tool. */
+  const Legacy = z.object({
+    decisions: z
+      .array(z.object({ date: z.string().default(""), decision: z.string(), context: z.string().default("") }))
+      .default([]),
+    taskHistory: z
+      .array(
+        z.object({ id: z.string(), summary: z.string(), status: z.string().default(""), date: z.string().default("") }),
+      )
+      .default([]),
+    learnings: z.array(z.string()).default([]),
+    preferences: z.record(z.string(), z.string()).default({}),
+  })
+
+  type Migration = (data: Record<string, any>) => Record<string, any>
+
+  /** migrations[n] upgrades a file at version n to version n + 1 */
+  const migrations: Migration[] = [
+    // 0 → 1: add the version field; legacy pm-state.json files are folded in by load()
+    (data) => data,
+  ]
+
+  /** Git root if present, otherwise the current working directory. */
+  export function root() {
+    if (Instance.project.vcs && Instance.worktree !== "/") return Instance.worktree
+    return Instance.directory
+  }
+
+  export function file(root: string) {
+    return path.join(root, ".opencode", "project-state.json")
+  }
+
+  /** Existing pm-state.json files: the pm_state tool wrote one below the working directory, not the git root. */
+  async function legacyFiles(root: string) {
+    const candidates = new Set([root, Instance.directory].map((dir) => path.join(dir, ".opencode", "pm-state.json")))
+    const result: string[] = []
+    for (const candidate of candidates) {
+      if (await Bun.file(candidate).exists()) result.push(candidate)
+    }
+    return result
+  }
+
+  async function raw(root: string): Promise<Record<string, any> | undefined> {
+    const f = Bun.file(file(root))
+    if (!(await f.exists())) return
+    return f.json()
+  }
+
+  async function outdated(root: string, data: Record<string, any> | undefined) {
+    if (data && (data.version ?? 0) < VERSION) return true
+    return (await legacyFiles(root)).length > 0
+  }
+
+  function fold(data: Record<string, any>, legacy: z.infer<typeof Legacy>) {
+    return {
+      ...data,
+      decisions: [
+        ...(data.decisions ?? []),
+        ...legacy.decisions.map((x) => ({ decision: x.decision, rationale: x.context, timestamp: x.date })),
+      ],
+      learnings: [...(data.learnings ?? []), ...legacy.learnings.map((insight) => ({ topic: "general", insight }))],
+      history: [...(data.history ?? []), ...legacy.taskHistory],
+      preferences: { ...legacy.preferences, ...data.preferences },
+    }
+  }
+
+  async function save(root: string, info: Info) {
+    await fs.mkdir(path.dirname(file(root)), { recursive: true })
+    await Bun.write(file(root), JSON.stringify(info, null, 2))
+  }
+
+  /** Reads the store and runs pending migrations. Callers must hold the write lock. */
+  async function load(root: string): Promise<Info> {
+    const data = await raw(root)
+    if (!(await outdated(root, data))) return Info.parse({ version: VERSION, ...data })
+
+    let current = data ?? {}
+    for (let version = current.version ?? 0; version < VERSION; version++) {
+      current = migrations[version](current)
+      log.info("migrated", { root, version: version + 1 })
+    }
+    // a legacy file is only removed once its contents are saved in the store; one that does not parse is kept aside
+    const folded: string[] = []
+    for (const legacy of await legacyFiles(root)) {
+      const parsed = await Bun.file(legacy)
+        .json()
+        .then((x) => Legacy.safeParse(x))
+        .catch(() => undefined)
+      if (!parsed?.success) {
+        log.warn("legacy pm state could not be read, kept as .bak", { file: legacy, error: parsed?.error.message })
+        await fs.rename(legacy, legacy + ".bak")
+        continue
+      }
+      log.info("folding legacy pm state", { file: legacy })
+      current = fold(current, parsed.data)
+      folded.push(legacy)
+    }
+    const info = Info.parse({ ...current, version: VERSION })
+    await save(root, info)
+    for (const legacy of folded) await fs.rm(legacy, { force: true })
+    return info
+  }
+
+  export async function read(root: string): Promise<Info> {
+    {
+      using _ = await Lock.read(file(root))
+      const data = await raw(root)
+      if (!(await outdated(root, data))) return Info.parse({ version: VERSION, ...data })
+    }
+    using _ = await Lock.write(file(root))
+    return load(root)
+  }
+
+  function validate<T extends z.ZodType>(field: string, schema: T, value: unknown): z.infer<T> {
+    const result = schema.safeParse(value)
+    if (result.success) return result.data
+    const issue = result.error.issues[0]
+    const at = issue.path.map((p) => (typeof p === "number" ? `[${p}]` : `.${String(p)}`)).join("")
+    throw new ValidationError(field + at, issue.message)
+  }
+
+  export async function update(root: string, input: Update): Promise<Info> {
+    const append = validate("append", Append, input.append ?? {})
+    const patch = validate("patch", Patch, input.patch ?? {})
+    const remove = validate("remove", Remove, input.remove ?? {})
+
+    using _ = await Lock.write(file(root))
+    const info = await load(root)
+
+    const objectives = new Set(remove.objectives ?? [])
+    info.objectives = info.objectives.filter((x) => !objectives.has(x))
+    const todos = new Set(remove.todos ?? [])
+    for (const id of todos) {
+      if (!info.todos.some((x) => x.id === id)) throw new ValidationError("remove.todos", `no todo with id "${id}"`)
+    }
+    info.todos = info.todos.filter((x) => !todos.has(x.id))
+    for (const key of remove.preferences ?? []) delete info.preferences[key]
+
+    for (const [index, item] of (patch.todos ?? []).entries()) {
+      const todo = info.todos.find((x) => x.id === item.id)
+      if (!todo) throw new ValidationError(`patch.todos[${index}].id`, `no todo with id "${item.id}"`)
+      Object.assign(todo, item)
+    }
+    Object.assign(info.preferences, patch.preferences)
+
+    for (const [index, todo] of (append.todos ?? []).entries()) {
+      if (info.todos.some((x) => x.id === todo.id)) {
+        throw new ValidationError(`append.todos[${index}].id`, `todo "${todo.id}" already exists, patch it instead`)
+      }
+      info.todos.push(todo)
+    }
+    info.objectives.push(...(append.objectives ?? []).filter((x) => !info.objectives.includes(x)))
+    info.decisions.push(...(append.decisions ?? []))
+    info.learnings.push(...(append.learnings ?? []))
+    info.history.push(...(append.history ?? []))
+
+    info.lastUpdated = new Date().toISOString()
+    await save(root, info)
+    log.info("updated", { root })
+    return info
+  }
+}
@@ -0,0 +1,86 @@
+import type { ModelMessage } from "ai"
+import type { Provider } from "./provider"
+import { Instance } from "../project/instance"
+import { Token } from "../util/token"
+
+/**
+ * OpenCodeOrchestra: Plans where prompt cache breakpoints go. Instead of always marking the same messages, the planner
+ * measures how much of the prompt is unchanged since the previous request of the session and spends the provider's
+ * breakpoints on the end of that stable prefix, the system prompt and the tail, skipping prefixes too short to cache.
+ */
+export namespace ProviderCache {
+  export interface Limits {
+    // breakpoints accepted per request
+    breakpoints: number
+    // shortest prefix the provider caches
+    minTokens: number
+  }
+
+  /** Explicit cache limits of the model, undefined when the provider caches prefixes by itself or not at all. */
+  export function limits(model: Provider.Model): Limits | undefined {
+    const ids = [model.id, model.api.id].map((x) => x.toLowerCase())
+    const anthropic =
+      model.providerID === "anthropic" ||
+      model.api.npm === "@ai-sdk/anthropic" ||
+      ids.some((x) => x.includes("anthropic") || x.includes("claude"))
+    if (!anthropic) return undefined
+    return { breakpoints: 4, minTokens: ids.some((x) => x.includes("haiku")) ? 2048 : 1024 }
+  }
+
+  export function fingerprint(msg: ModelMessage) {
+    return Bun.hash.xxHash32(JSON.stringify([msg.role, msg.content])).toString(36)
+  }
+
+  const state = Instance.state(() => new Map<string, string[]>())
+
+  /** Fingerprints of the prompt last sent for the session; replaced by `current`. */
+  export function swap(sessionID: string, current: string[]) {
+    const previous = state().get(sessionID)
+    state().set(sessionID, current)
+    return previous
+  }
+
+  /** Number of leading messages `current` shares with `previous`. */
+  export function stable(previous: string[], current: string[]) {
+    let i = 0
+    while (i < previous.length && i < current.length && previous[i] === current[i]) i++
+    return i
+  }
+
+  /**
+   * Indexes of the messages to mark, at most `limits.breakpoints` of them, in prompt order. Without a previous
+   * request the system prompt counts as the stable prefix.
+   */
+  export function plan(input: { messages: ModelMessage[]; limits: Limits; stable?: number }) {
+    const { messages, limits } = input
+    if (messages.length === 0) return []
+    const prefix: number[] = []
+    let total = 0
+    for (const msg of messages) {
+      total += Token.estimate(typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content))
+      prefix.push(total)
+    }
+    const system = messages.findLastIndex((msg) => msg.role === "system")
+    const stable = input.stable ?? system + 1
+    const last = messages.length - 1
+    const candidates = [
+      // written now, read by the next request
+      last,
+      // the part known to hit: what the previous request already wrote
+      stable - 1,
+      system,
+      // still reached when only the last message is rewritten
+      last - 1,
+      messages.findIndex((msg) => msg.role === "system"),
+    ]
+    const result = new Set<number>()
+    for (const index of candidates) {
+      if (result.size >= limits.breakpoints) break
+      if (index < 0 || result.has(index)) continue
+      // the estimate is rough, so the tail is marked regardless
+      if (index !== last && prefix[index] < limits.minTokens) continue
+      result.add(index)
+    }
+    return [...result].sort((a, b) => a - b)
+  }
+}
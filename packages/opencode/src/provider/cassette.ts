@@ -0,0 +1,140 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Middleware,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider"
+import { NamedError } from "@opencode-ai/util/error"
+import path from "path"
+import fs from "fs/promises"
+import z from "zod"
+import type { Provider } from "./provider"
+import { Config } from "../config/config"
+import { Flag } from "../flag/flag"
+import { Instance } from "../project/instance"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Deterministic record/replay of model streams. In record mode every streamed request is written
+ * with its chunks to a cassette file named after the request's key; in replay mode a stand-in model serves those
+ * cassettes without contacting the provider, so agent workflows can be tested offline.
+ *
+ * The key covers the model, the conversation and the tool names. System prompts are left out, and the working
+ * directory and identifiers are normalized, so that a cassette recorded in one checkout replays in another.
+ */
+export namespace ProviderCassette {
+  const log = Log.create({ service: "cassette" })
+
+  export const Mode = z.enum(["record", "replay"])
+  export type Mode = z.infer<typeof Mode>
+
+  export const MissingError = NamedError.create(
+    "CassetteMissingError",
+    z.object({
+      key: z.string(),
+      path: z.string(),
+    }),
+  )
+
+  export interface Cassette {
+    key: string
+    model: string
+    request: Omit<LanguageModelV2CallOptions, "abortSignal" | "headers">
+    chunks: LanguageModelV2StreamPart[]
+  }
+
+  /** The configured mode and cassette directory, OPENCODE_CASSETTE_MODE and OPENCODE_CASSETTE_PATH taking precedence. */
+  export async function active(): Promise<{ mode: Mode; path: string } | undefined> {
+    const config = (await Config.get()).experimental?.cassette
+    const mode = Flag.OPENCODE_CASSETTE_MODE ?? config?.mode
+    const dir = Flag.OPENCODE_CASSETTE_PATH ?? config?.path
+    if (!mode || !dir) return undefined
+    return { mode: Mode.parse(mode), path: path.resolve(Instance.directory, dir) }
+  }
+
+  const ID = /\b(ses|msg|per|que|usr|prt|pty|tool|spc)_[0-9a-f]{12}[0-9A-Za-z]{14}\b/g
+
+  export function key(model: Provider.Model, request: LanguageModelV2CallOptions) {
+    const messages = request.prompt.filter((msg) => msg.role !== "system")
+    const tools = (request.tools ?? []).map((tool) => tool.name).sort()
+    let text = JSON.stringify({ model: `${model.providerID}/${model.id}`, messages, tools }, (key, value) =>
+      key === "providerOptions" ? undefined : value,
+    )
+    for (const dir of new Set([Instance.directory, Instance.worktree])) {
+      if (dir !== "/") text = text.replaceAll(dir, "<dir>")
+    }
+    text = text.replace(ID, "$1_<id>")
+    return Bun.hash(text).toString(16)
+  }
+
+  function file(dir: string, key: string) {
+    return path.join(dir, key + ".json")
+  }
+
+  /** Middleware writing each streamed request and its chunks to a cassette once the stream completes. */
+  export function record(model: Provider.Model, dir: string): LanguageModelV2Middleware {
+    return {
+      async wrapStream({ doStream, params }) {
+        const result = await doStream()
+        const chunks: LanguageModelV2StreamPart[] = []
+        const cassette = (): Cassette => {
+          const { abortSignal, headers, ...request } = params
+          return { key: key(model, params), model: `${model.providerID}/${model.id}`, request, chunks }
+        }
+        return {
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+              transform(chunk, controller) {
+                chunks.push(chunk)
+                controller.enqueue(chunk)
+              },
+              async flush() {
+                const value = cassette()
+                await fs.mkdir(dir, { recursive: true })
+                await Bun.write(file(dir, value.key), JSON.stringify(value, null, 2))
+                log.info("recorded", { key: value.key, chunks: chunks.length })
+              },
+            }),
+          ),
+        }
+      },
+    }
+  }
+
+  /** A model serving recorded streams for `model`; requests without a cassette fail with MissingError. */
+  export function replay(model: Provider.Model, dir: string): LanguageModelV2 {
+    return {
+      specificationVersion: "v2",
+      provider: model.providerID,
+      modelId: model.api.id,
+      supportedUrls: {},
+      async doGenerate() {
+        throw new Error("Cassettes only replay streamed requests")
+      },
+      async doStream(options) {
+        const id = key(model, options)
+        const target = file(dir, id)
+        const source = Bun.file(target)
+        if (!(await source.exists())) throw new MissingError({ key: id, path: target })
+        const cassette: Cassette = await source.json()
+        log.info("replaying", { key: id, chunks: cassette.chunks.length })
+        return {
+          stream: new ReadableStream<LanguageModelV2StreamPart>({
+            start(controller) {
+              for (const chunk of cassette.chunks) {
+                // dates come back from JSON as strings
+                if (chunk.type === "response-metadata" && chunk.timestamp) {
+                  controller.enqueue({ ...chunk, timestamp: new Date(chunk.timestamp) })
+                  continue
+                }
+                controller.enqueue(chunk)
+              }
+              controller.close()
+            },
+          }),
+        }
+      },
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import type { APICallError, ModelMessage } from "ai"
-import { mergeDeep, unique } from "remeda"
+import { mergeDeep } from "remeda"
 import type { JSONSchema7 } from "@ai-sdk/provider"
 import type { JSONSchema } from "zod/v4/core"
 import type { Provider } from "./provider"
 import type { ModelsDev } from "./models"
+import { ProviderCache } from "./cache"
 import { iife } from "@/util/iife"
 
 type Modality = NonNullable<ModelsDev.Model["modalities"]>["input"][number]
@@ -168,9 +169,20 @@ export namespace ProviderTransform {
     return msgs
   }
 
-  function applyCaching(msgs: ModelMessage[], providerID: string): ModelMessage[] {
-    const system = msgs.filter((msg) => msg.role === "system").slice(0, 2)
-    const final = msgs.filter((msg) => msg.role !== "system").slice(-2)
+  function applyCaching(
+    msgs: ModelMessage[],
+    providerID: string,
+    limits: ProviderCache.Limits,
+    stream?: string,
+  ): ModelMessage[] {
+    // OpenCodeOrchestra: breakpoints follow the prefix measured stable since the stream's previous request
+    const fingerprints = msgs.map(ProviderCache.fingerprint)
+    const previous = stream ? ProviderCache.swap(stream, fingerprints) : undefined
+    const plan = ProviderCache.plan({
+      messages: msgs,
+      limits,
+      stable: previous ? ProviderCache.stable(previous, fingerprints) : undefined,
+    })
 
     const providerOptions = {
       anthropic: {
@@ -190,7 +202,7 @@ export namespace ProviderTransform {
       },
     }
 
-    for (const msg of unique([...system, ...final])) {
+    for (const msg of plan.map((index) => msgs[index])) {
       const useMessageLevelOptions = providerID === "anthropic" || providerID.includes("bedrock")
       const shouldUseContentOptions = !useMessageLevelOptions && Array.isArray(msg.content) && msg.content.length > 0
 
@@ -246,18 +258,21 @@ export namespace ProviderTransform {
     })
   }
 
-  export function message(msgs: ModelMessage[], model: Provider.Model, options: Record<string, unknown>) {
+  /**
+   * `stream` identifies a sequence of requests sharing a prompt prefix, such as one agent's turns in a session; cache
+   * breakpoints are planned from how much of the prompt it kept unchanged.
+   */
+  export function message(
+    msgs: ModelMessage[],
+    model: Provider.Model,
+    options: Record<string, unknown>,
+    stream?: string,
+  ) {
     msgs = unsupportedParts(msgs, model)
     msgs = normalizeMessages(msgs, model, options)
-    if (
-      model.providerID === "anthropic" ||
-      model.api.id.includes("anthropic") ||
-      model.api.id.includes("claude") ||
-      model.id.includes("anthropic") ||
-      model.id.includes("claude") ||
-      model.api.npm === "@ai-sdk/anthropic"
-    ) {
-      msgs = applyCaching(msgs, model.providerID)
+    const limits = ProviderCache.limits(model)
+    if (limits) {
+      msgs = applyCaching(msgs, model.providerID, limits, stream)
     }
 
     // Remap providerOptions keys from stored providerID to expected SDK key
@@ -68,6 +68,8 @@ export namespace Pty {
     process: IPty
     buffer: string
     subscribers: Set<WSContext>
+    // OpenCodeOrchestra: in-process consumers of the output (see session/process.ts)
+    listeners: Set<(data: string) => void>
   }
 
   const state = Instance.state(
@@ -93,11 +95,15 @@ export namespace Pty {
     return state().get(id)?.info
   }
 
-  export async function create(input: CreateInput) {
+  /**
+   * OpenCodeOrchestra: `login: false` keeps a shell's arguments as given, so that `sh -c <command>` runs exactly
+   * <command> (see session/process.ts). Terminals opened through the API stay login shells.
+   */
+  export async function create(input: CreateInput, options?: { login?: boolean }) {
     const id = Identifier.create("pty", false)
     const command = input.command || Shell.preferred()
     const args = input.args || []
-    if (command.endsWith("sh")) {
+    if (command.endsWith("sh") && options?.login !== false) {
       args.push("-l")
     }
 
@@ -131,9 +137,11 @@ export namespace Pty {
       process: ptyProcess,
       buffer: "",
       subscribers: new Set(),
+      listeners: new Set(),
     }
     state().set(id, session)
     ptyProcess.onData((data) => {
+      for (const listener of session.listeners) listener(data)
       let open = false
       for (const ws of session.subscribers) {
         if (ws.readyState !== 1) {
@@ -206,6 +214,16 @@ export namespace Pty {
     }
   }
 
+  /** Calls `listener` with all further output of the terminal; returns a function that stops it. */
+  export function listen(id: string, listener: (data: string) => void) {
+    const session = state().get(id)
+    if (!session) return
+    session.listeners.add(listener)
+    return () => {
+      session.listeners.delete(listener)
+    }
+  }
+
   export function connect(id: string, ws: WSContext) {
     const session = state().get(id)
     if (!session) {
@@ -204,5 +204,26 @@ export const ExperimentalRoutes = lazy(() =>
       async (c) => {
         return c.json(await MCP.resources())
       },
+    )
+    .get(
+      "/resource/template",
+      describeRoute({
+        summary: "Get MCP resource templates",
+        description: "Get the resource templates of all connected MCP servers.",
+        operationId: "experimental.resource.templates",
+        responses: {
+          200: {
+            description: "MCP resource templates",
+            content: {
+              "application/json": {
+                schema: resolver(z.record(z.string(), MCP.ResourceTemplate)),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await MCP.resourceTemplates())
+      },
     ),
 )
@@ -10,12 +10,18 @@ import { SessionRevert } from "../../session/revert"
 import { SessionStatus } from "@/session/status"
 import { SessionSummary } from "@/session/summary"
 import { Todo } from "../../session/todo"
+import { SessionMarker } from "../../session/marker"
+import { SessionTaskLink } from "../../session/task-link"
+import { SessionEscalation } from "../../session/escalation"
+import { SessionPin } from "../../session/pin"
+import { roleOf } from "../../session/depth"
 import { Agent } from "../../agent/agent"
 import { Snapshot } from "@/snapshot"
 import { Log } from "../../util/log"
 import { PermissionNext } from "@/permission/next"
 import { errors } from "../error"
 import { lazy } from "../../util/lazy"
+import { Storage } from "../../storage/storage"
 
 const log = Log.create({ service: "server" })
 
@@ -49,6 +55,8 @@ export const SessionRoutes = lazy(() =>
             .meta({ description: "Filter sessions updated on or after this timestamp (milliseconds since epoch)" }),
           search: z.string().optional().meta({ description: "Filter sessions by title (case-insensitive)" }),
           limit: z.coerce.number().optional().meta({ description: "Maximum number of sessions to return" }),
+          depth: z.coerce.number().optional().meta({ description: "Only return sessions at this hierarchy depth" }),
+          role: Session.Info.shape.role.meta({ description: "Only return sessions with this hierarchy role" }),
         }),
       ),
       async (c) => {
@@ -58,6 +66,8 @@ export const SessionRoutes = lazy(() =>
         for await (const session of Session.list()) {
           if (query.directory !== undefined && session.directory !== query.directory) continue
           if (query.roots && session.parentID) continue
+          if (query.depth !== undefined && session.depth !== query.depth) continue
+          if (query.role !== undefined && (await roleOf(session)) !== query.role) continue
           if (query.start !== undefined && session.time.updated < query.start) continue
           if (term !== undefined && !session.title.toLowerCase().includes(term)) continue
           sessions.push(session)
@@ -182,6 +192,102 @@ export const SessionRoutes = lazy(() =>
         return c.json(todos)
       },
     )
+    .get(
+      "/:sessionID/markers",
+      describeRoute({
+        summary: "Get session markers",
+        description:
+          "Retrieve the @TODO marker ledger of an orchestrator session: markers added by edits in its subtree that are still present.",
+        operationId: "session.markers",
+        responses: {
+          200: {
+            description: "Marker ledger",
+            content: {
+              "application/json": {
+                schema: resolver(SessionMarker.Ledger),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const orchestratorID = (await SessionMarker.owner(sessionID)) ?? sessionID
+        const ledger = await SessionMarker.get(orchestratorID)
+        return c.json(ledger)
+      },
+    )
+    .get(
+      "/:sessionID/tasks",
+      describeRoute({
+        summary: "Get session task links",
+        description:
+          "Retrieve the orchestrators a session is waiting on, including ones left behind when the process that spawned them exited.",
+        operationId: "session.tasks",
+        responses: {
+          200: {
+            description: "Task links",
+            content: {
+              "application/json": {
+                schema: resolver(SessionTaskLink.Info.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        return c.json(await SessionTaskLink.list(sessionID))
+      },
+    )
+    .post(
+      "/:sessionID/escalation",
+      describeRoute({
+        summary: "Answer escalation",
+        description:
+          "Answer the pending escalation of an orchestrator session and resume the orchestrator with the answer.",
+        operationId: "session.answer",
+        responses: {
+          200: {
+            description: "Answered escalation",
+            content: {
+              "application/json": {
+                schema: resolver(MessageV2.EscalationPart),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Orchestrator session ID" }),
+        }),
+      ),
+      validator("json", z.object({ answer: z.string() })),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        if (!(await SessionEscalation.pending(sessionID))) {
+          throw new Storage.NotFoundError({ message: `Session ${sessionID} has no pending escalation` })
+        }
+        return c.json(await SessionEscalation.answer({ sessionID, answer: c.req.valid("json").answer }))
+      },
+    )
     .post(
       "/",
       describeRoute({
@@ -694,6 +800,47 @@ export const SessionRoutes = lazy(() =>
         return c.json(part)
       },
     )
+    .patch(
+      "/:sessionID/message/:messageID/curate",
+      describeRoute({
+        summary: "Curate message context",
+        description:
+          "Pin parts of a message so they survive compaction verbatim, or exclude them from the model context. Applies to every part of the message unless a part is given; null resets a flag.",
+        operationId: "session.curate",
+        responses: {
+          200: {
+            description: "Updated parts",
+            content: {
+              "application/json": {
+                schema: resolver(MessageV2.Part.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          messageID: z.string().meta({ description: "Message ID" }),
+        }),
+      ),
+      validator(
+        "json",
+        z.object({
+          partID: z.string().optional(),
+          pinned: z.boolean().nullable().optional(),
+          excluded: z.boolean().nullable().optional(),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        const body = c.req.valid("json")
+        const parts = await SessionPin.curate({ ...params, ...body })
+        return c.json(parts)
+      },
+    )
     .post(
       "/:sessionID/message",
       describeRoute({
@@ -0,0 +1,130 @@
+import { Hono } from "hono"
+import { describeRoute, validator } from "hono-openapi"
+import { resolver } from "hono-openapi"
+import { Spec } from "../../spec"
+import z from "zod"
+import { errors } from "../error"
+import { lazy } from "../../util/lazy"
+
+export const SpecRoutes = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        summary: "List specs",
+        description: "Get all specs in the project spec store, most recently updated first.",
+        operationId: "spec.list",
+        responses: {
+          200: {
+            description: "List of specs",
+            content: {
+              "application/json": {
+                schema: resolver(Spec.Info.array()),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        const specs = await Spec.list()
+        return c.json(specs)
+      },
+    )
+    .get(
+      "/:specID",
+      describeRoute({
+        summary: "Get spec",
+        description: "Retrieve a spec with its acceptance criteria and test cases.",
+        operationId: "spec.get",
+        responses: {
+          200: {
+            description: "Spec",
+            content: {
+              "application/json": {
+                schema: resolver(Spec.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          specID: z.string(),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        const spec = await Spec.get(params.specID)
+        return c.json(spec)
+      },
+    )
+    .post(
+      "/:specID/approve",
+      describeRoute({
+        summary: "Approve spec",
+        description: "Approve a draft spec so it can be handed to an orchestrator.",
+        operationId: "spec.approve",
+        responses: {
+          200: {
+            description: "Approved spec",
+            content: {
+              "application/json": {
+                schema: resolver(Spec.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          specID: z.string(),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        const spec = await Spec.approve(params.specID)
+        return c.json(spec)
+      },
+    )
+    .post(
+      "/:specID/reject",
+      describeRoute({
+        summary: "Reject spec",
+        description: "Send a spec back to draft with optional feedback for the PM.",
+        operationId: "spec.reject",
+        responses: {
+          200: {
+            description: "Rejected spec",
+            content: {
+              "application/json": {
+                schema: resolver(Spec.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          specID: z.string(),
+        }),
+      ),
+      validator(
+        "json",
+        z.object({
+          feedback: z.string().optional(),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        const json = c.req.valid("json")
+        const spec = await Spec.reject(params.specID, json.feedback)
+        return c.json(spec)
+      },
+    ),
+)
@@ -37,6 +37,8 @@ import { websocket } from "hono/bun"
 import { HTTPException } from "hono/http-exception"
 import { errors } from "./error"
 import { QuestionRoutes } from "./routes/question"
+import { SpecRoutes } from "./routes/spec"
+import { Spec } from "../spec"
 import { PermissionRoutes } from "./routes/permission"
 import { GlobalRoutes } from "./routes/global"
 import { MDNS } from "./mdns"
@@ -68,6 +70,8 @@ export namespace Server {
             if (err instanceof Storage.NotFoundError) status = 404
             else if (err instanceof Provider.ModelNotFoundError) status = 400
             else if (err.name.startsWith("Worktree")) status = 400
+            else if (err instanceof Spec.TransitionError) status = 400
+            else if (err instanceof Format.PreviewError) status = 400
             else status = 500
             return c.json(err.toObject(), { status })
           }
@@ -158,6 +162,7 @@ export namespace Server {
         .route("/session", SessionRoutes())
         .route("/permission", PermissionRoutes())
         .route("/question", QuestionRoutes())
+        .route("/spec", SpecRoutes())
         .route("/provider", ProviderRoutes())
         .route("/", FileRoutes())
         .route("/mcp", McpRoutes())
@@ -409,6 +414,34 @@ export namespace Server {
             return c.json(await Format.status())
           },
         )
+        .get(
+          "/formatter/preview",
+          describeRoute({
+            summary: "Preview formatting",
+            description: "Report what the configured formatters would change in a file, without writing it.",
+            operationId: "formatter.preview",
+            responses: {
+              200: {
+                description: "Formatter preview",
+                content: {
+                  "application/json": {
+                    schema: resolver(Format.Preview),
+                  },
+                },
+              },
+              ...errors(400),
+            },
+          }),
+          validator(
+            "query",
+            z.object({
+              path: z.string(),
+            }),
+          ),
+          async (c) => {
+            return c.json(await Format.preview(c.req.valid("query").path))
+          },
+        )
         .put(
           "/auth/:providerID",
           describeRoute({
@@ -0,0 +1,89 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import { Storage } from "../storage/storage"
+import { Lock } from "../util/lock"
+import { Session } from "."
+import { roleOf } from "./depth"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Structured Auditor verdicts, persisted per orchestrator session.
+ * finish_task consults the latest verdict before accepting status "completed".
+ */
+export namespace SessionAudit {
+  const log = Log.create({ service: "session.audit" })
+
+  export const Issue = z
+    .object({
+      file: z.string().describe("Path of the file containing the issue"),
+      line: z.number().int().optional().describe("Line number of the issue"),
+      description: z.string().describe("What is wrong and why it blocks"),
+    })
+    .meta({ ref: "AuditIssue" })
+  export type Issue = z.infer<typeof Issue>
+
+  export const Criterion = z
+    .object({
+      id: z.string().describe("Id of the spec acceptance criterion, e.g. AC-1"),
+      met: z.boolean().describe("Whether the implementation satisfies the criterion"),
+      note: z.string().optional(),
+    })
+    .meta({ ref: "AuditCriterion" })
+  export type Criterion = z.infer<typeof Criterion>
+
+  export const Verdict = z
+    .object({
+      sessionID: z.string().describe("Orchestrator session the verdict applies to"),
+      auditorSessionID: z.string(),
+      verdict: z.enum(["PASS", "FAIL"]),
+      summary: z.string(),
+      issues: z.array(Issue),
+      criteria: z.array(Criterion),
+      time: z.number(),
+    })
+    .meta({ ref: "AuditVerdict" })
+  export type Verdict = z.infer<typeof Verdict>
+
+  export const Event = {
+    Recorded: BusEvent.define("session.audit.recorded", z.object({ verdict: Verdict })),
+  }
+
+  /** Nearest ancestor with the orchestrator role, whatever its agent is called, falling back to the parent. */
+  export async function target(sessionID: string): Promise<string | undefined> {
+    const session = await Session.get(sessionID)
+    const visited = new Set<string>([sessionID])
+    let currentID = session.parentID
+    while (currentID && !visited.has(currentID)) {
+      visited.add(currentID)
+      const current = await Session.get(currentID).catch(() => undefined)
+      if (!current) break
+      if ((await roleOf(current)) === "orchestrator") return current.id
+      currentID = current.parentID
+    }
+    return session.parentID
+  }
+
+  export async function record(input: Omit<Verdict, "time">): Promise<Verdict> {
+    const verdict = Verdict.parse({ ...input, time: Date.now() })
+    {
+      // parallel auditors must not drop each other's verdicts
+      using _ = await Lock.write(`audit:${verdict.sessionID}`)
+      const existing = await list(verdict.sessionID)
+      await Storage.write(["audit", verdict.sessionID], [...existing, verdict])
+    }
+    log.info("recorded", { sessionID: verdict.sessionID, verdict: verdict.verdict })
+    Bus.publish(Event.Recorded, { verdict })
+    return verdict
+  }
+
+  export async function list(sessionID: string): Promise<Verdict[]> {
+    return Storage.read<Verdict[]>(["audit", sessionID])
+      .then((x) => x || [])
+      .catch(() => [])
+  }
+
+  export async function latest(sessionID: string): Promise<Verdict | undefined> {
+    return list(sessionID).then((x) => x.at(-1))
+  }
+}
@@ -0,0 +1,259 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import { Storage } from "../storage/storage"
+import { Instance } from "../project/instance"
+import { Config } from "../config/config"
+import { Question } from "../question"
+import { Session } from "."
+import { SessionPrompt } from "./prompt"
+import { SessionTaskLink } from "./task-link"
+import { Lock } from "../util/lock"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Spend limits for a task session and every session it spawns.
+ * Usage is aggregated from each model call in the subtree; the owning session is warned past a
+ * threshold and the whole subtree is paused with a question to the user once a limit is exceeded.
+ */
+export namespace SessionBudget {
+  const log = Log.create({ service: "session.budget" })
+
+  export const DEFAULT_WARN = 0.8
+
+  export const Limits = z
+    .object({
+      tokens: z.number().int().positive().optional(),
+      cost: z.number().positive().optional(),
+      duration: z.number().positive().optional().describe("Seconds"),
+      steps: z.number().int().positive().optional(),
+    })
+    .meta({ ref: "BudgetLimits" })
+  export type Limits = z.infer<typeof Limits>
+
+  export const Usage = z
+    .object({
+      tokens: z.number().int(),
+      cost: z.number(),
+      duration: z.number().describe("Seconds"),
+      steps: z.number().int(),
+    })
+    .meta({ ref: "BudgetUsage" })
+  export type Usage = z.infer<typeof Usage>
+
+  export const Info = z
+    .object({
+      sessionID: z.string().describe("Session owning the budget; usage of all its descendants counts against it"),
+      limits: Limits,
+      warn: z.number(),
+      usage: Usage.omit({ duration: true }),
+      status: z.enum(["ok", "warning", "paused", "stopped"]),
+      time: z.object({
+        started: z.number(),
+        updated: z.number(),
+      }),
+    })
+    .meta({ ref: "Budget" })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: BusEvent.define("session.budget.updated", z.object({ budget: Info })),
+  }
+
+  type Dimension = keyof Limits
+  const DIMENSIONS: Dimension[] = ["tokens", "cost", "duration", "steps"]
+
+  const state = Instance.state(() => {
+    const pending: Record<string, Promise<boolean>> = {}
+    return pending
+  })
+
+  export async function get(sessionID: string) {
+    return Storage.read<Info>(["budget", sessionID]).catch(() => undefined)
+  }
+
+  async function save(budget: Info) {
+    await Storage.write(["budget", budget.sessionID], budget)
+    Bus.publish(Event.Updated, { budget })
+    return budget
+  }
+
+  /** Read-modify-write of a stored budget; model calls running in parallel in the subtree update the same record. */
+  async function update(sessionID: string, fn: (budget: Info) => Info) {
+    using _ = await Lock.write(`budget:${sessionID}`)
+    const budget = await get(sessionID)
+    if (!budget) return
+    return await save(fn(budget))
+  }
+
+  export async function create(sessionID: string, config: Config.Budget) {
+    const { warn, ...limits } = config
+    if (!DIMENSIONS.some((d) => limits[d] !== undefined)) return
+    const now = Date.now()
+    return save({
+      sessionID,
+      limits,
+      warn: warn ?? DEFAULT_WARN,
+      usage: { tokens: 0, cost: 0, steps: 0 },
+      status: "ok",
+      time: { started: now, updated: now },
+    })
+  }
+
+  /** Budgets that apply to a session: its own and those of its ancestors, nearest first. */
+  export async function owners(sessionID: string) {
+    const result: Info[] = []
+    const visited = new Set<string>()
+    let currentID: string | undefined = sessionID
+    while (currentID && !visited.has(currentID)) {
+      visited.add(currentID)
+      const budget = await get(currentID)
+      if (budget) result.push(budget)
+      const current: Session.Info | undefined = await Session.get(currentID).catch(() => undefined)
+      currentID = current?.parentID
+    }
+    return result
+  }
+
+  export function usage(budget: Info, now = Date.now()): Usage {
+    return { ...budget.usage, duration: (now - budget.time.started) / 1000 }
+  }
+
+  /** Fraction of each configured limit that has been used. */
+  export function ratios(budget: Info, now = Date.now()) {
+    const used = usage(budget, now)
+    return Object.fromEntries(
+      DIMENSIONS.flatMap((d) => (budget.limits[d] === undefined ? [] : [[d, used[d] / budget.limits[d]!] as const])),
+    ) as Partial<Record<Dimension, number>>
+  }
+
+  export function exceeded(budget: Info, now = Date.now()) {
+    return DIMENSIONS.filter((d) => (ratios(budget, now)[d] ?? 0) >= 1)
+  }
+
+  export function format(budget: Info, now = Date.now()) {
+    const used = usage(budget, now)
+    const unit = (d: Dimension, value: number) => {
+      if (d === "cost") return `$${value.toFixed(2)}`
+      if (d === "duration") return `${Math.round(value)}s`
+      return String(Math.round(value))
+    }
+    return DIMENSIONS.filter((d) => budget.limits[d] !== undefined)
+      .map((d) => `${d}: ${unit(d, used[d])} / ${unit(d, budget.limits[d]!)}`)
+      .join(", ")
+  }
+
+  /** Adds the usage of one model call in `sessionID` to every budget that covers it. */
+  export async function record(
+    sessionID: string,
+    input: { cost: number; tokens: { input: number; output: number; reasoning: number } },
+  ) {
+    const budgets = await owners(sessionID)
+    for (const owner of budgets) {
+      await update(owner.sessionID, (budget) => {
+        const next: Info = {
+          ...budget,
+          usage: {
+            tokens: budget.usage.tokens + input.tokens.input + input.tokens.output + input.tokens.reasoning,
+            cost: budget.usage.cost + input.cost,
+            steps: budget.usage.steps + 1,
+          },
+          time: { ...budget.time, updated: Date.now() },
+        }
+        const used = Math.max(0, ...Object.values(ratios(next)))
+        if (next.status === "ok" && used >= next.warn) {
+          next.status = "warning"
+          log.info("budget warning", { sessionID: next.sessionID, usage: format(next) })
+        }
+        return next
+      })
+    }
+  }
+
+  /** Reminder for the owning session once its budget has crossed the warning threshold. */
+  export async function reminder(sessionID: string) {
+    const budget = await get(sessionID)
+    if (!budget || budget.status !== "warning") return
+    return [
+      "<system-reminder>",
+      `Budget warning: this task has used ${format(budget)}.`,
+      "Prioritize finishing the remaining work. Once a limit is exceeded all work in this task is paused until the user decides whether to continue.",
+      "</system-reminder>",
+    ].join("\n")
+  }
+
+  /**
+   * Called before every model call. Blocks while the user decides what to do about an exceeded budget;
+   * returns false when the session must stop because the user stopped the task.
+   */
+  export async function gate(sessionID: string) {
+    const budgets = await owners(sessionID)
+    for (const budget of budgets) {
+      if (budget.status === "stopped") return false
+      if (exceeded(budget).length === 0) continue
+      // parallel sessions in the subtree share a single question
+      const pending = state()
+      const decision = (pending[budget.sessionID] ??= pause(budget).finally(() => {
+        delete pending[budget.sessionID]
+      }))
+      if (!(await decision)) return false
+    }
+    return true
+  }
+
+  async function pause(budget: Info) {
+    const now = Date.now()
+    const over = exceeded(budget, now)
+    log.info("budget exceeded", { sessionID: budget.sessionID, exceeded: over })
+    await update(budget.sessionID, (current) => ({
+      ...current,
+      status: "paused",
+      time: { ...current.time, updated: now },
+    }))
+
+    const [answer] = await Question.ask({
+      sessionID: budget.sessionID,
+      questions: [
+        {
+          header: "Budget exceeded",
+          question: `This task exceeded its budget (${format(budget, now)}). All work in it is paused.`,
+          options: [
+            { label: "Extend budget", description: `Double the exceeded limits (${over.join(", ")}) and continue` },
+            { label: "Stop task", description: "Stop the task and report it to the parent as cancelled" },
+          ],
+          custom: false,
+        },
+      ],
+    }).catch((error) => {
+      if (error instanceof Question.RejectedError) return [] as Question.Answer[]
+      throw error
+    })
+
+    if (answer?.[0] === "Extend budget") {
+      const extended = await update(budget.sessionID, (current) => {
+        const limits = { ...current.limits }
+        for (const d of over) limits[d] = limits[d]! * 2
+        return { ...current, limits, status: "warning", time: { ...current.time, updated: Date.now() } }
+      })
+      log.info("budget extended", { sessionID: budget.sessionID, limits: extended?.limits })
+      return true
+    }
+
+    const stopped =
+      (await update(budget.sessionID, (current) => ({
+        ...current,
+        status: "stopped",
+        time: { ...current.time, updated: Date.now() },
+      }))) ?? budget
+    log.info("budget stopped", { sessionID: budget.sessionID })
+    const session = await Session.get(budget.sessionID).catch(() => undefined)
+    if (session?.parentID) {
+      await SessionTaskLink.finish(session.parentID, session.id, {
+        status: "cancelled",
+        summary: `Stopped by the user after exceeding its budget (${format(stopped)}).`,
+      })
+    }
+    SessionPrompt.cancel(budget.sessionID)
+    return false
+  }
+}
@@ -0,0 +1,88 @@
+import type { MessageV2 } from "./message-v2"
+
+/**
+ * OpenCodeOrchestra: Prompt cache efficiency of a session, read from the cache tokens its assistant messages recorded.
+ * A bust is a request that read far less from the cache than the one before it had cached, and is attributed to
+ * what happened in between.
+ */
+export namespace SessionCache {
+  // how long providers keep an unused prefix
+  export const TTL = 5 * 60 * 1000
+  // share of the previously cached prefix a request must read to count as a hit
+  const HIT = 0.5
+
+  export type Cause = "compaction" | "model" | "expired" | "prefix"
+
+  export interface Bust {
+    messageID: string
+    time: number
+    read: number
+    cached: number
+    cause: Cause
+  }
+
+  export interface Efficiency {
+    requests: number
+    input: number
+    read: number
+    write: number
+    // cached share of all prompt tokens
+    ratio: number
+    busts: Bust[]
+  }
+
+  export function efficiency(messages: MessageV2.WithParts[]): Efficiency {
+    const result: Efficiency = { requests: 0, input: 0, read: 0, write: 0, ratio: 0, busts: [] }
+    let previous: { model: string; cached: number; end: number } | undefined
+    let compacted = false
+    for (const msg of messages) {
+      if (msg.info.role !== "assistant") continue
+      if (msg.info.summary) {
+        compacted = true
+        continue
+      }
+      const model = `${msg.info.providerID}/${msg.info.modelID}`
+      // every step is a request; the wait before the next step is its tools running
+      let idle = previous ? msg.info.time.created - previous.end : 0
+      const tools = { start: Infinity, end: 0 }
+      for (const part of msg.parts) {
+        if (part.type === "tool" && (part.state.status === "completed" || part.state.status === "error")) {
+          tools.start = Math.min(tools.start, part.state.time.start)
+          tools.end = Math.max(tools.end, part.state.time.end)
+        }
+        if (part.type !== "step-finish") continue
+        const { tokens } = part
+        result.requests++
+        result.input += tokens.input
+        result.read += tokens.cache.read
+        result.write += tokens.cache.write
+        if (previous && previous.cached > 0 && tokens.cache.read < previous.cached * HIT) {
+          result.busts.push({
+            messageID: msg.info.id,
+            time: msg.info.time.created,
+            read: tokens.cache.read,
+            cached: previous.cached,
+            cause: cause({ compacted, switched: previous.model !== model, idle }),
+          })
+        }
+        previous = { model, cached: tokens.cache.read + tokens.cache.write, end: 0 }
+        compacted = false
+        idle = tools.end > 0 ? tools.end - tools.start : 0
+        tools.start = Infinity
+        tools.end = 0
+      }
+      if (previous) previous.end = msg.info.time.completed ?? msg.info.time.created
+    }
+    const total = result.input + result.read + result.write
+    result.ratio = total > 0 ? result.read / total : 0
+    return result
+  }
+
+  function cause(input: { compacted: boolean; switched: boolean; idle: number }): Cause {
+    if (input.compacted) return "compaction"
+    if (input.switched) return "model"
+    if (input.idle > TTL) return "expired"
+    // something rewrote the prompt: a reminder, pruned tool output, a changed system prompt
+    return "prefix"
+  }
+}
@@ -14,6 +14,8 @@ import { fn } from "@/util/fn"
 import { Agent } from "@/agent/agent"
 import { Plugin } from "@/plugin"
 import { Config } from "@/config/config"
+import { SessionPin } from "./pin"
+import PROMPT_ORCHESTRATION from "./prompt/compaction-orchestration.txt"
 
 export namespace SessionCompaction {
   const log = Log.create({ service: "session.compaction" })
@@ -66,6 +68,7 @@ export namespace SessionCompaction {
         if (part.type === "tool")
           if (part.state.status === "completed") {
             if (PRUNE_PROTECTED_TOOLS.includes(part.tool)) continue
+            if (await SessionPin.pinned(part)) continue
 
             if (part.state.time.compacted) break loop
             const estimate = Token.estimate(part.state.output)
@@ -138,9 +141,18 @@ export namespace SessionCompaction {
       { sessionID: input.sessionID },
       { context: [], prompt: undefined },
     )
+    // OpenCodeOrchestra: PM and orchestrator sessions summarize the orchestration; pinned records are kept verbatim
+    const role = await Agent.get(userMessage.agent)
+    const pins = await SessionPin.carry({ sessionID: input.sessionID, messageID: msg.id, messages: input.messages })
     const defaultPrompt =
-      "Provide a detailed prompt for continuing our conversation above. Focus on information that would be helpful for continuing the conversation, including what we did, what we're doing, which files we're working on, and what we're going to do next considering new session will not have access to our conversation."
-    const promptText = compacting.prompt ?? [defaultPrompt, ...compacting.context].join("\n\n")
+      role && !role.singleShot
+        ? PROMPT_ORCHESTRATION
+        : "Provide a detailed prompt for continuing our conversation above. Focus on information that would be helpful for continuing the conversation, including what we did, what we're doing, which files we're working on, and what we're going to do next considering new session will not have access to our conversation."
+    const pinNote = pins.length
+      ? `${pins.length} pinned records (specs, audit verdicts, task results, project-state decisions, escalations and parts pinned by the user) are kept verbatim after your summary. Refer to them instead of restating them.`
+      : undefined
+    const promptText =
+      compacting.prompt ?? [defaultPrompt, ...(pinNote ? [pinNote] : []), ...compacting.context].join("\n\n")
     const result = await processor.process({
       user: userMessage,
       agent,
@@ -163,6 +175,11 @@ export namespace SessionCompaction {
       model,
     })
 
+    if (!processor.message.error) {
+      // appended after the summary so they follow it in the next context
+      for (const pin of pins) await Session.updatePart({ ...pin, id: Identifier.ascending("part") })
+    }
+
     if (result === "continue" && input.auto) {
       const continueMsg = await Session.updateMessage({
         id: Identifier.ascending("message"),
@@ -12,9 +12,14 @@
  */
 
 import { Session } from "./index"
+import { SessionHierarchy } from "./hierarchy"
+import { Agent } from "../agent/agent"
 
 /**
- * Calculate the depth of a session by traversing the parentID chain.
+ * Calculate the depth of a session.
+ *
+ * Depth is cached on Session.Info when the session is created, so this is a single read.
+ * Sessions created before the cache existed fall back to traversing the parentID chain.
  * 
  * @param sessionID - The session ID to calculate depth for
  * @returns The depth of the session (0 = PM, 1 = Orchestrator, 2+ = Subagent)
@@ -51,6 +56,7 @@ export async function calculateDepth(sessionID: string): Promise<number> {
     } catch {
       session = undefined
     }
+    if (session?.depth !== undefined) return depth + session.depth
     if (!session?.parentID) break
     currentID = session.parentID
     depth++
@@ -59,6 +65,31 @@ export async function calculateDepth(sessionID: string): Promise<number> {
   return depth
 }
 
+type Role = NonNullable<Session.Info["role"]>
+
+/**
+ * Hierarchy role of a session. The root session is the PM; a child is an orchestrator when its agent persists
+ * until finish_task at its depth under the hierarchy policy, and a subagent when it completes on its first response.
+ *
+ * @param input.depth - The session depth (from calculateDepth)
+ * @param input.agentID - The agent running in the session, if any
+ */
+export async function resolveRole(input: { depth: number; agentID?: string }): Promise<Role> {
+  if (input.depth === 0) return "pm"
+  const agent = input.agentID ? await Agent.get(input.agentID) : undefined
+  return SessionHierarchy.singleShot(await SessionHierarchy.get(), input.depth, agent?.singleShot)
+    ? "subagent"
+    : "orchestrator"
+}
+
+/**
+ * Role of an existing session: the role cached at creation, or resolved for sessions created before it was cached.
+ */
+export async function roleOf(session: Session.Info): Promise<Role> {
+  if (session.role) return session.role
+  return resolveRole({ depth: session.depth ?? (await calculateDepth(session.id)), agentID: session.agentID })
+}
+
 /**
  * Determine if pruning (DCP) should be applied to a session based on depth.
  * 
@@ -66,6 +97,9 @@ export async function calculateDepth(sessionID: string): Promise<number> {
  * - depth 0 (PM): Apply pruning (true)
  * - depth 1 (Orchestrator): Apply pruning (true)
  * - depth 2+ (Subagent): Skip pruning (false) - singleShot sessions don't need context management
+ *
+ * Depth is the placement depth cached at creation, not the length of the parentID chain. The hierarchy places
+ * the PM's single-shot children (investigator, researcher, ...) at depth 2, so they are no longer pruned.
  * 
  * @param depth - The session depth (from calculateDepth)
  * @returns true if pruning should be applied, false otherwise
@@ -0,0 +1,198 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import path from "path"
+import { Storage } from "../storage/storage"
+import { Instance } from "../project/instance"
+import { Config } from "../config/config"
+import { LSP } from "../lsp"
+import type { LSPClient } from "../lsp/client"
+import { SessionMarker } from "./marker"
+import { Filesystem } from "../util/filesystem"
+import { Lock } from "../util/lock"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Diagnostics gate for edits within an orchestrator subtree.
+ * Each edit is compared against the diagnostics the file had before it, so only errors the edit introduced
+ * are reported; those that remain are kept in a ledger that finish_task reports to the PM.
+ */
+export namespace SessionDiagnostic {
+  const log = Log.create({ service: "session.diagnostic" })
+
+  const MAX_PER_FILE = 20
+
+  export const Entry = z
+    .object({
+      file: z.string().describe("Path relative to the worktree"),
+      line: z.number().int(),
+      character: z.number().int(),
+      severity: z.enum(["error", "warning"]),
+      message: z.string(),
+      sessionID: z.string().describe("Session whose edit introduced the diagnostic"),
+    })
+    .meta({ ref: "DiagnosticEntry" })
+  export type Entry = z.infer<typeof Entry>
+
+  export const Ledger = z
+    .object({
+      sessionID: z.string().describe("Orchestrator session owning the ledger"),
+      diagnostics: z.array(Entry).describe("Introduced diagnostics that are still present"),
+      introduced: z.number().int(),
+      resolved: z.number().int(),
+      time: z.object({
+        updated: z.number(),
+      }),
+    })
+    .meta({ ref: "DiagnosticLedger" })
+  export type Ledger = z.infer<typeof Ledger>
+
+  export const Event = {
+    Updated: BusEvent.define("session.diagnostic.updated", z.object({ ledger: Ledger })),
+  }
+
+  /** Diagnostics of a file before an edit, captured only while the gate applies to the editing session. */
+  export interface Baseline {
+    orchestratorID: string
+    file: string
+    issues: LSPClient.Diagnostic[]
+  }
+
+  function key(diagnostic: { severity: string; message: string }) {
+    return `${diagnostic.severity}:${diagnostic.message}`
+  }
+
+  /** Entries of `a` without a counterpart in `b`; duplicates are matched one to one. */
+  function unmatched<T extends { severity: string; message: string }>(
+    a: T[],
+    b: { severity: string; message: string }[],
+  ) {
+    const counts = new Map<string, number>()
+    for (const item of b) counts.set(key(item), (counts.get(key(item)) ?? 0) + 1)
+    return a.filter((item) => {
+      const count = counts.get(key(item)) ?? 0
+      if (count === 0) return true
+      counts.set(key(item), count - 1)
+      return false
+    })
+  }
+
+  export async function get(sessionID: string): Promise<Ledger> {
+    return Storage.read<Ledger>(["diagnostic", sessionID]).catch(() => ({
+      sessionID,
+      diagnostics: [],
+      introduced: 0,
+      resolved: 0,
+      time: { updated: 0 },
+    }))
+  }
+
+  async function severity() {
+    const config = await Config.get().then((x) => x.diagnostics)
+    if (config?.gate === false) return
+    return config?.severity === "warning" ? 2 : 1
+  }
+
+  function entries(file: string, issues: LSPClient.Diagnostic[], level: number) {
+    const relative = path.relative(Instance.worktree, file).replaceAll("\\", "/")
+    return issues
+      .filter((x) => (x.severity ?? 1) <= level)
+      .map((x) => ({
+        file: relative,
+        line: x.range.start.line + 1,
+        character: x.range.start.character + 1,
+        severity: (x.severity ?? 1) === 1 ? ("error" as const) : ("warning" as const),
+        message: x.message,
+      }))
+  }
+
+  /** Captures the diagnostics of `file` before `sessionID` edits it; undefined when the gate does not apply. */
+  export async function baseline(sessionID: string, file: string): Promise<Baseline | undefined> {
+    if (!(await severity())) return
+    const orchestratorID = await SessionMarker.owner(sessionID)
+    if (!orchestratorID) return
+    const normalized = Filesystem.normalizePath(file)
+    let known = await LSP.diagnostics()
+    // a file no language server has seen yet has no diagnostics to compare against, so open it first
+    if (!known[normalized] && (await Bun.file(file).exists())) {
+      await LSP.touchFile(file, true)
+      known = await LSP.diagnostics()
+    }
+    return { orchestratorID, file, issues: known[normalized] ?? [] }
+  }
+
+  /**
+   * Compares the diagnostics after an edit against its baseline, records what the edit introduced or resolved
+   * and returns the introduced diagnostics. `diagnostics` is the LSP state after the edited file was touched.
+   */
+  export async function check(input: {
+    sessionID: string
+    baseline: Baseline | undefined
+    diagnostics: Record<string, LSPClient.Diagnostic[]>
+  }) {
+    if (!input.baseline) return
+    const level = await severity()
+    if (!level) return
+    const { orchestratorID, file } = input.baseline
+    const current = entries(file, input.diagnostics[Filesystem.normalizePath(file)] ?? [], level)
+    const introduced = unmatched(current, entries(file, input.baseline.issues, level)).map((x) => ({
+      ...x,
+      sessionID: input.sessionID,
+    }))
+
+    // parallel subagents editing at once must not drop each other's entries
+    using _ = await Lock.write(`diagnostic:${orchestratorID}`)
+    const ledger = await get(orchestratorID)
+    const relative = path.relative(Instance.worktree, file).replaceAll("\\", "/")
+    const existing = ledger.diagnostics.filter((x) => x.file === relative)
+    if (introduced.length === 0 && existing.length === 0) return { introduced, outstanding: ledger.diagnostics.length }
+
+    // tracked diagnostics that the file no longer reports were resolved; the rest move to their new position
+    const resolved = unmatched(existing, current)
+    const kept = unmatched(existing, resolved)
+    const remaining = [...current]
+    const moved = kept.map((entry) => {
+      const index = remaining.findIndex((x) => key(x) === key(entry))
+      const [match] = remaining.splice(index, 1)
+      return { ...match, sessionID: entry.sessionID }
+    })
+    const next: Ledger = {
+      sessionID: orchestratorID,
+      diagnostics: [...ledger.diagnostics.filter((x) => x.file !== relative), ...moved, ...introduced],
+      introduced: ledger.introduced + introduced.length,
+      resolved: ledger.resolved + resolved.length,
+      time: { updated: Date.now() },
+    }
+    await Storage.write(["diagnostic", orchestratorID], next)
+    log.info("checked", { sessionID: orchestratorID, file: relative, introduced: introduced.length })
+    Bus.publish(Event.Updated, { ledger: next })
+    return { introduced, outstanding: next.diagnostics.length }
+  }
+
+  export function pretty(entry: Entry) {
+    return `${entry.severity.toUpperCase()} ${entry.file}:${entry.line}:${entry.character} ${entry.message}`
+  }
+
+  /** The block appended to an edit tool's output when the edit introduced diagnostics. */
+  export function report(result: Awaited<ReturnType<typeof check>>) {
+    if (!result?.introduced.length) return ""
+    const limited = result.introduced.slice(0, MAX_PER_FILE)
+    const suffix =
+      result.introduced.length > MAX_PER_FILE ? `\n... and ${result.introduced.length - MAX_PER_FILE} more` : ""
+    return [
+      "",
+      "",
+      `This edit introduced ${result.introduced.length} new diagnostic(s); ${result.outstanding} introduced in this task remain outstanding:`,
+      `<diagnostics_gate file="${result.introduced[0].file}">`,
+      limited.map(pretty).join("\n") + suffix,
+      "</diagnostics_gate>",
+    ].join("\n")
+  }
+
+  /** Introduced diagnostics still present in the orchestrator subtree of `sessionID`. */
+  export async function outstanding(sessionID: string) {
+    const orchestratorID = await SessionMarker.owner(sessionID)
+    if (!orchestratorID) return []
+    return get(orchestratorID).then((x) => x.diagnostics)
+  }
+}
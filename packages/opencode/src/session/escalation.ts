@@ -0,0 +1,138 @@
+import z from "zod"
+import { Storage } from "../storage/storage"
+import { Instance } from "../project/instance"
+import { Identifier } from "../id/id"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { SessionPrompt } from "./prompt"
+import { SessionTaskLink } from "./task-link"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Questions an orchestrator escalates to its parent without ending its task.
+ * The orchestrator is suspended inside the escalate tool; the question is recorded as an EscalationPart on
+ * the parent's task call and answered by resuming the task, or directly by the user through the server.
+ */
+export namespace SessionEscalation {
+  const log = Log.create({ service: "session.escalation" })
+
+  export const Option = z.object({
+    label: z.string().describe("Short label for the option"),
+    description: z.string().describe("What choosing this option means for the task"),
+  })
+  export type Option = z.infer<typeof Option>
+
+  const state = Instance.state(() => {
+    const waiters: Record<string, (answer: string) => void> = {}
+    return waiters
+  })
+
+  /** The latest escalation of an orchestrator session, answered or not. */
+  export async function get(sessionID: string) {
+    return Storage.read<MessageV2.EscalationPart>(["escalation", sessionID]).catch(() => undefined)
+  }
+
+  export async function pending(sessionID: string) {
+    const escalation = await get(sessionID)
+    return escalation?.status === "pending" ? escalation : undefined
+  }
+
+  export function format(escalation: MessageV2.EscalationPart) {
+    return [
+      `[ESCALATED] @${escalation.agent} needs a decision before it can continue.`,
+      "",
+      `Question: ${escalation.question}`,
+      ...(escalation.context ? ["", `Context: ${escalation.context}`] : []),
+      ...(escalation.options.length
+        ? ["", "Proposed options:", ...escalation.options.map((o) => `- ${o.label}: ${o.description}`)]
+        : []),
+      "",
+      `task_id: ${escalation.orchestratorID} (call task with this task_id and your answer as the prompt to resume the orchestrator)`,
+    ].join("\n")
+  }
+
+  /** Records the escalation on the parent's task call and resolves with the answer once one is given. */
+  export async function raise(input: {
+    sessionID: string
+    agent: string
+    question: string
+    context?: string
+    options: Option[]
+    abort: AbortSignal
+  }) {
+    const session = await Session.get(input.sessionID)
+    const link = session.parentID ? await SessionTaskLink.get(session.parentID, session.id) : undefined
+    if (!link || link.status !== "running") {
+      throw new Error("escalate can only be used by an orchestrator whose parent is waiting on its task")
+    }
+
+    const escalation = (await Session.updatePart({
+      id: Identifier.ascending("part"),
+      sessionID: link.parentID,
+      messageID: link.messageID,
+      type: "escalation",
+      orchestratorID: session.id,
+      agent: input.agent,
+      question: input.question,
+      context: input.context,
+      options: input.options,
+      status: "pending",
+      time: { created: Date.now() },
+    })) as MessageV2.EscalationPart
+    await Storage.write(["escalation", session.id], escalation)
+    log.info("escalated", { sessionID: session.id, parentID: link.parentID, escalationID: escalation.id })
+
+    const answer = new Promise<string>((resolve, reject) => {
+      const waiters = state()
+      const onAbort = () => {
+        delete waiters[escalation.id]
+        reject(new Error("Escalation aborted"))
+      }
+      waiters[escalation.id] = (answer) => {
+        input.abort.removeEventListener("abort", onAbort)
+        resolve(answer)
+      }
+      input.abort.addEventListener("abort", onAbort)
+    })
+    await SessionTaskLink.escalate(link, escalation)
+    return answer
+  }
+
+  /** Answers the pending escalation of `sessionID` and resumes the orchestrator with it. */
+  export async function answer(input: { sessionID: string; answer: string }) {
+    const escalation = await pending(input.sessionID)
+    if (!escalation) throw new Error(`Session ${input.sessionID} has no pending escalation`)
+
+    const answered: MessageV2.EscalationPart = {
+      ...escalation,
+      status: "answered",
+      answer: input.answer,
+      time: { ...escalation.time, answered: Date.now() },
+    }
+    await Session.updatePart(answered)
+    await Storage.write(["escalation", input.sessionID], answered)
+    log.info("answered", { sessionID: input.sessionID, escalationID: escalation.id })
+
+    const waiter = state()[escalation.id]
+    if (waiter) {
+      delete state()[escalation.id]
+      waiter(input.answer)
+      return answered
+    }
+    // the orchestrator is no longer suspended in the escalate tool (e.g. after a restart): inject the answer
+    SessionPrompt.prompt({
+      sessionID: input.sessionID,
+      agent: escalation.agent,
+      parts: [
+        {
+          type: "text",
+          synthetic: true,
+          text: [`Answer to your escalation "${escalation.question}":`, "", input.answer].join("\n"),
+        },
+      ],
+    }).catch((error) => {
+      log.error("failed to resume orchestrator", { error: String(error), sessionID: input.sessionID })
+    })
+    return answered
+  }
+}
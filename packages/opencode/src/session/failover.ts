@@ -0,0 +1,80 @@
+import { Instance } from "../project/instance"
+import { Agent } from "../agent/agent"
+import { Provider } from "../provider/provider"
+import { Log } from "../util/log"
+import type { MessageV2 } from "./message-v2"
+
+/**
+ * OpenCodeOrchestra: Model failover chains. An agent's `failover` models are tried in order after its model keeps
+ * failing with retryable errors or rejects the conversation as too long. The switch lasts until the next user
+ * message, which starts again from the model it asked for.
+ */
+export namespace SessionFailover {
+  const log = Log.create({ service: "session.failover" })
+
+  export const AFTER = 3
+
+  type Ref = { providerID: string; modelID: string }
+
+  // position in the chain of each session for the user message being answered
+  const state = Instance.state(() => ({}) as Record<string, { userID: string; index: number }>)
+
+  function same(a: Ref, b: Ref) {
+    return a.providerID === b.providerID && a.modelID === b.modelID
+  }
+
+  export function chain(agent: Agent.Info, model: Ref) {
+    return [model, ...(agent.failover?.models ?? []).filter((x) => !same(x, model))]
+  }
+
+  function position(sessionID: string, user: MessageV2.User) {
+    const current = state()[sessionID]
+    if (current?.userID === user.id) return current.index
+    return 0
+  }
+
+  /** The model currently answering the user message. */
+  export async function model(input: { sessionID: string; user: MessageV2.User }) {
+    const agent = await Agent.get(input.user.agent)
+    const models = agent ? chain(agent, input.user.model) : [input.user.model]
+    const active = models[position(input.sessionID, input.user)] ?? input.user.model
+    return Provider.getModel(active.providerID, active.modelID)
+  }
+
+  /** Retryable failures of the active model after which the agent moves on, if it has somewhere to go. */
+  export function after(agent: Agent.Info) {
+    return agent.failover?.after ?? AFTER
+  }
+
+  /**
+   * Moves the session to the next model of the agent's chain that resolves. Returns it, or undefined when the chain
+   * is exhausted and the caller should keep its current behaviour.
+   */
+  export async function next(input: { sessionID: string; user: MessageV2.User; agent: Agent.Info }) {
+    const models = chain(input.agent, input.user.model)
+    for (let index = position(input.sessionID, input.user) + 1; index < models.length; index++) {
+      const model = await Provider.getModel(models[index].providerID, models[index].modelID).catch((error) => {
+        log.warn("skipping unavailable failover model", { ...models[index], error })
+        return undefined
+      })
+      if (!model) continue
+      state()[input.sessionID] = { userID: input.user.id, index }
+      log.info("failover", { sessionID: input.sessionID, providerID: model.providerID, modelID: model.id })
+      return model
+    }
+    return undefined
+  }
+
+  /**
+   * The model that produced a session's last answer, with a note for the caller when it is not the requested one.
+   */
+  export function report(requested: Ref, messages: MessageV2.WithParts[]) {
+    const last = messages.findLast((x) => x.info.role === "assistant")?.info as MessageV2.Assistant | undefined
+    const model = last ? { providerID: last.providerID, modelID: last.modelID } : requested
+    if (same(model, requested)) return { model }
+    return {
+      model,
+      note: `model: ${model.providerID}/${model.modelID} (failed over from ${requested.providerID}/${requested.modelID})`,
+    }
+  }
+}
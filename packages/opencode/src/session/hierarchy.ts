@@ -0,0 +1,81 @@
+import { Config } from "../config/config"
+import { Wildcard } from "../util/wildcard"
+
+/**
+ * OpenCodeOrchestra: Resolves the `hierarchy` config section into placement and completion rules for TaskTool.
+ *
+ * Defaults reproduce the built-in hierarchy:
+ * - only `orchestrator` may live at depth 1, so the PM's other children are placed at depth 2
+ * - depth 2+ is always single-shot
+ */
+export namespace SessionHierarchy {
+  export interface Policy {
+    maxDepth?: number
+    levels: Record<number, { agents?: string[]; singleShot?: boolean }>
+    singleShotDepth: number
+    spawn: Record<string, string[]>
+  }
+
+  export const DEFAULT: Policy = {
+    levels: { 1: { agents: ["orchestrator"] } },
+    singleShotDepth: 2,
+    spawn: {},
+  }
+
+  export class ViolationError extends Error {}
+
+  export function fromConfig(config?: Config.Hierarchy): Policy {
+    if (!config) return DEFAULT
+    return {
+      maxDepth: config.max_depth,
+      levels: config.levels
+        ? Object.fromEntries(
+            Object.entries(config.levels).map(([depth, level]) => [
+              Number(depth),
+              { agents: level.agents, singleShot: level.single_shot },
+            ]),
+          )
+        : DEFAULT.levels,
+      singleShotDepth: config.single_shot_depth ?? DEFAULT.singleShotDepth,
+      spawn: config.spawn ?? DEFAULT.spawn,
+    }
+  }
+
+  export async function get() {
+    return fromConfig((await Config.get()).hierarchy)
+  }
+
+  function allowed(policy: Policy, depth: number, agent: string) {
+    const agents = policy.levels[depth]?.agents
+    return !agents || agents.some((pattern) => Wildcard.match(agent, pattern))
+  }
+
+  /** The depth a child running `agent` is placed at: the first depth below the parent that allows the agent. */
+  export function place(policy: Policy, parentDepth: number, agent: string): number {
+    const deepestLevel = Math.max(0, ...Object.keys(policy.levels).map(Number))
+    const limit = policy.maxDepth ?? Math.max(deepestLevel, parentDepth) + 1
+    for (let depth = parentDepth + 1; depth <= limit; depth++) {
+      if (allowed(policy, depth, agent)) return depth
+    }
+    throw new ViolationError(
+      policy.maxDepth !== undefined && parentDepth >= policy.maxDepth
+        ? `Cannot spawn ${agent}: the session is already at the maximum hierarchy depth (${policy.maxDepth})`
+        : `Cannot spawn ${agent}: no hierarchy level between depth ${parentDepth + 1} and ${limit} allows it`,
+    )
+  }
+
+  /** Whether a child at `depth` completes on its first response, given the agent's own setting. */
+  export function singleShot(policy: Policy, depth: number, configured?: boolean): boolean {
+    const forced = policy.levels[depth]?.singleShot
+    if (forced !== undefined) return forced
+    if (depth >= policy.singleShotDepth) return true
+    return configured ?? true
+  }
+
+  export function assertSpawn(policy: Policy, caller: string, agent: string) {
+    const rules = policy.spawn[caller]
+    if (!rules) return
+    if (rules.some((pattern) => Wildcard.match(agent, pattern))) return
+    throw new ViolationError(`${caller} is not allowed to spawn ${agent} (allowed: ${rules.join(", ") || "none"})`)
+  }
+}
@@ -18,6 +18,7 @@ import { SessionPrompt } from "./prompt"
 import { fn } from "@/util/fn"
 import { Command } from "../command"
 import { Snapshot } from "@/snapshot"
+import { calculateDepth, resolveRole } from "./depth"
 
 import type { Provider } from "@/provider/provider"
 import { PermissionNext } from "@/permission/next"
@@ -48,6 +49,9 @@ export const Info = z
       parentID: Identifier.schema("session").optional(),
       // OpenCodeOrchestra: Store agent type for subagent sessions
       agentID: z.string().optional(),
+      // OpenCodeOrchestra: Hierarchy position, computed once at creation (see session/depth.ts)
+      depth: z.number().int().nonnegative().optional(),
+      role: z.enum(["pm", "orchestrator", "subagent"]).optional(),
       summary: z
         .object({
           additions: z.number(),
@@ -134,6 +138,7 @@ export const create = fn(
       .object({
         parentID: Identifier.schema("session").optional(),
         agentID: z.string().optional(), // OpenCodeOrchestra: Store agent type for subagent sessions
+        depth: Info.shape.depth, // OpenCodeOrchestra: Override the default parent depth + 1
         title: z.string().optional(),
         permission: Info.shape.permission,
       })
@@ -142,6 +147,7 @@ export const create = fn(
       return createNext({
         parentID: input?.parentID,
         agentID: input?.agentID, // OpenCodeOrchestra: Pass agent type
+        depth: input?.depth,
         directory: Instance.directory,
         title: input?.title,
         permission: input?.permission,
@@ -198,9 +204,11 @@ export async function createNext(input: {
     title?: string
     parentID?: string
     agentID?: string // OpenCodeOrchestra: Store agent type for subagent sessions
+    depth?: number
     directory: string
     permission?: PermissionNext.Ruleset
   }) {
+    const depth = input.depth ?? (input.parentID ? (await calculateDepth(input.parentID)) + 1 : 0)
     const result: Info = {
       id: Identifier.descending("session", input.id),
       slug: Slug.create(),
@@ -209,6 +217,8 @@ export async function createNext(input: {
       directory: input.directory,
       parentID: input.parentID,
       agentID: input.agentID, // OpenCodeOrchestra: Store agent type
+      depth,
+      role: await resolveRole({ depth, agentID: input.agentID }),
       title: input.title ?? createDefaultTitle(!!input.parentID),
       permission: input.permission,
       time: {
@@ -353,6 +363,7 @@ export async function createNext(input: {
         }
         await Storage.remove(msg)
       }
+      await Storage.remove(["session_resource", project.id, sessionID])
       await Storage.remove(["session", project.id, sessionID])
       Bus.publish(Event.Deleted, {
         info: session,
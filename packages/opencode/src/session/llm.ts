@@ -13,6 +13,7 @@ import {
 } from "ai"
 import { clone, mergeDeep, pipe } from "remeda"
 import { ProviderTransform } from "@/provider/transform"
+import { ProviderCassette } from "@/provider/cassette"
 import { Config } from "@/config/config"
 import { Instance } from "@/project/instance"
 import type { Agent } from "@/agent/agent"
@@ -39,6 +40,9 @@ export namespace LLM {
     small?: boolean
     tools: Record<string, Tool>
     retries?: number
+    // OpenCodeOrchestra: limits set by the requester, e.g. an MCP server's sampling request
+    maxOutputTokens?: number
+    stopSequences?: string[]
   }
 
   export type StreamOutput = StreamTextResult<ToolSet, unknown>
@@ -56,8 +60,12 @@ export namespace LLM {
       modelID: input.model.id,
       providerID: input.model.providerID,
     })
+    // OpenCodeOrchestra: record the stream to a cassette, or serve it from one instead of the provider
+    const cassette = await ProviderCassette.active()
     const [language, cfg, provider, auth] = await Promise.all([
-      Provider.getLanguage(input.model),
+      cassette?.mode === "replay"
+        ? ProviderCassette.replay(input.model, cassette.path)
+        : Provider.getLanguage(input.model),
       Config.get(),
       Provider.getProvider(input.model.providerID),
       Auth.get(input.model.providerID),
@@ -96,8 +104,8 @@ export namespace LLM {
       system.push(header, rest.join("\n"))
     }
 
-    const variant =
-      !input.small && input.model.variants && input.user.variant ? input.model.variants[input.user.variant] : {}
+    // the variant names one of the requested model's; a failover model may not have it
+    const variant = !input.small && input.user.variant ? (input.model.variants?.[input.user.variant] ?? {}) : {}
     const base = input.small
       ? ProviderTransform.smallOptions(input.model)
       : ProviderTransform.options({
@@ -114,6 +122,8 @@ export namespace LLM {
     if (isCodex) {
       options.instructions = SystemPrompt.instructions()
     }
+    // OpenCodeOrchestra: one agent's requests in a session share a cacheable prefix; small-model calls don't
+    const cacheKey = input.small ? undefined : `${input.sessionID}/${input.agent.name}`
 
     const params = await Plugin.trigger(
       "chat.params",
@@ -151,11 +161,14 @@ export namespace LLM {
     const maxOutputTokens =
       isCodex || provider.id.includes("github-copilot")
         ? undefined
-        : ProviderTransform.maxOutputTokens(
-            input.model.api.npm,
-            params.options,
-            input.model.limit.output,
-            OUTPUT_TOKEN_MAX,
+        : Math.min(
+            input.maxOutputTokens ?? Infinity,
+            ProviderTransform.maxOutputTokens(
+              input.model.api.npm,
+              params.options,
+              input.model.limit.output,
+              OUTPUT_TOKEN_MAX,
+            ),
           )
 
     const tools = await resolveTools(input)
@@ -214,6 +227,7 @@ export namespace LLM {
       activeTools: Object.keys(tools).filter((x) => x !== "invalid"),
       tools,
       maxOutputTokens,
+      stopSequences: input.stopSequences,
       abortSignal: input.abort,
       headers: {
         ...(input.model.providerID.startsWith("opencode")
@@ -248,11 +262,12 @@ export namespace LLM {
             async transformParams(args) {
               if (args.type === "stream") {
                 // @ts-expect-error
-                args.params.prompt = ProviderTransform.message(args.params.prompt, input.model, options)
+                args.params.prompt = ProviderTransform.message(args.params.prompt, input.model, options, cacheKey)
               }
               return args.params
             },
           },
+          ...(cassette?.mode === "record" ? [ProviderCassette.record(input.model, cassette.path)] : []),
         ],
       }),
       experimental_telemetry: {
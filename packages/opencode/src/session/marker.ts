@@ -0,0 +1,152 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import path from "path"
+import { Storage } from "../storage/storage"
+import { Instance } from "../project/instance"
+import { Lock } from "../util/lock"
+import { Session } from "."
+import { roleOf } from "./depth"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Ledger of @TODO markers added or removed by file edits within an orchestrator subtree.
+ * Replaces grepping for markers when deciding whether Cleanup is done.
+ */
+export namespace SessionMarker {
+  const log = Log.create({ service: "session.marker" })
+
+  const PATTERN = /@TODO\b/
+
+  export const Marker = z
+    .object({
+      file: z.string().describe("Path relative to the worktree"),
+      line: z.number().int(),
+      text: z.string(),
+      sessionID: z.string().describe("Session whose edit left the marker in place"),
+    })
+    .meta({ ref: "Marker" })
+  export type Marker = z.infer<typeof Marker>
+
+  export const Ledger = z
+    .object({
+      sessionID: z.string().describe("Orchestrator session owning the ledger"),
+      markers: z.array(Marker).describe("Markers currently present in edited files"),
+      added: z.number().int(),
+      removed: z.number().int(),
+      time: z.object({
+        updated: z.number(),
+      }),
+    })
+    .meta({ ref: "MarkerLedger" })
+  export type Ledger = z.infer<typeof Ledger>
+
+  export const Event = {
+    Updated: BusEvent.define("session.marker.updated", z.object({ ledger: Ledger })),
+  }
+
+  /** The session with the orchestrator role that a session belongs to, if any. */
+  export async function owner(sessionID: string): Promise<string | undefined> {
+    const visited = new Set<string>()
+    let currentID: string | undefined = sessionID
+    while (currentID && !visited.has(currentID)) {
+      visited.add(currentID)
+      const current: Session.Info | undefined = await Session.get(currentID).catch(() => undefined)
+      if (!current) return
+      if ((await roleOf(current)) === "orchestrator") return current.id
+      currentID = current.parentID
+    }
+  }
+
+  function scan(content: string) {
+    return content
+      .split("\n")
+      .map((text, index) => ({ line: index + 1, text: text.trim() }))
+      .filter((x) => PATTERN.test(x.text))
+  }
+
+  /** Entries of `a` that have no counterpart in `b`, compared by text. */
+  function difference<T>(a: T[], b: string[], text: (item: T) => string) {
+    const remaining = [...b]
+    return a.filter((item) => {
+      const index = remaining.indexOf(text(item))
+      if (index === -1) return true
+      remaining.splice(index, 1)
+      return false
+    })
+  }
+
+  /** Entries of `a` that have a counterpart in `b`, compared by text. */
+  function intersection<T>(a: T[], b: string[], text: (item: T) => string) {
+    const remaining = [...b]
+    return a.filter((item) => {
+      const index = remaining.indexOf(text(item))
+      if (index === -1) return false
+      remaining.splice(index, 1)
+      return true
+    })
+  }
+
+  export async function get(sessionID: string): Promise<Ledger> {
+    return Storage.read<Ledger>(["marker", sessionID]).catch(() => ({
+      sessionID,
+      markers: [],
+      added: 0,
+      removed: 0,
+      time: { updated: 0 },
+    }))
+  }
+
+  /** Markers still present in the subtree, and whether a Cleanup agent has already run in it. */
+  export async function remaining(sessionID: string) {
+    const ledger = await get(sessionID)
+    const cleanup = await Session.children(sessionID).then((x) => x.some((child) => child.agentID === "cleanup"))
+    return { markers: ledger.markers, cleanup }
+  }
+
+  /** Records the marker changes of a single file edit. Edits outside an orchestrator subtree are ignored. */
+  export async function track(input: { sessionID: string; file: string; before: string; after: string }) {
+    if (!PATTERN.test(input.before) && !PATTERN.test(input.after)) return
+    const orchestratorID = await owner(input.sessionID)
+    if (!orchestratorID) return
+
+    const file = path.relative(Instance.worktree, input.file).replaceAll("\\", "/")
+    const before = scan(input.before)
+    const after = scan(input.after)
+    const added = difference(
+      after,
+      before.map((x) => x.text),
+      (x) => x.text,
+    )
+    const removed = difference(
+      before,
+      after.map((x) => x.text),
+      (x) => x.text,
+    )
+    // parallel subagents editing at once must not drop each other's markers
+    using _ = await Lock.write(`marker:${orchestratorID}`)
+    const ledger = await get(orchestratorID)
+    const existing = ledger.markers.filter((x) => x.file === file)
+    if (added.length === 0 && removed.length === 0 && existing.length === 0) return
+
+    // only markers introduced within the subtree are tracked; pre-existing ones in the file are left alone
+    const tracked = [...existing.map((x) => x.text), ...added.map((x) => x.text)]
+    const current = intersection(after, tracked, (x) => x.text).map((x) => ({
+      file,
+      line: x.line,
+      text: x.text,
+      sessionID: existing.find((m) => m.text === x.text)?.sessionID ?? input.sessionID,
+    }))
+    const next: Ledger = {
+      sessionID: orchestratorID,
+      markers: [...ledger.markers.filter((x) => x.file !== file), ...current],
+      added: ledger.added + added.length,
+      removed: ledger.removed + removed.length,
+      time: { updated: Date.now() },
+    }
+    await Storage.write(["marker", orchestratorID], next)
+    log.info("tracked", { sessionID: orchestratorID, file, added: added.length, removed: removed.length })
+    Bus.publish(Event.Updated, { ledger: next })
+    return next
+  }
+}
@@ -40,6 +40,10 @@ export namespace MessageV2 {
     id: z.string(),
     sessionID: z.string(),
     messageID: z.string(),
+    // OpenCodeOrchestra: Kept verbatim through compaction; false opts out of automatic pinning (see session/pin.ts)
+    pinned: z.boolean().optional(),
+    // OpenCodeOrchestra: Left out of the model context and of compaction summaries
+    excluded: z.boolean().optional(),
   })
 
   export const SnapshotPart = PartBase.extend({
@@ -191,6 +195,52 @@ export namespace MessageV2 {
   })
   export type RetryPart = z.infer<typeof RetryPart>
 
+  // OpenCodeOrchestra: The agent switched to the next model of its failover chain (see session/failover.ts)
+  export const FailoverPart = PartBase.extend({
+    type: z.literal("failover"),
+    from: z.object({
+      providerID: z.string(),
+      modelID: z.string(),
+    }),
+    to: z.object({
+      providerID: z.string(),
+      modelID: z.string(),
+    }),
+    reason: z.enum(["retry", "overflow"]),
+    attempt: z.number(),
+    message: z.string(),
+    time: z.object({
+      created: z.number(),
+    }),
+  }).meta({
+    ref: "FailoverPart",
+  })
+  export type FailoverPart = z.infer<typeof FailoverPart>
+
+  // OpenCodeOrchestra: A question an orchestrator escalated to its parent, shown in the parent session
+  export const EscalationPart = PartBase.extend({
+    type: z.literal("escalation"),
+    orchestratorID: z.string().describe("Session that escalated and is suspended until answered"),
+    agent: z.string(),
+    question: z.string(),
+    context: z.string().optional(),
+    options: z
+      .object({
+        label: z.string(),
+        description: z.string(),
+      })
+      .array(),
+    status: z.enum(["pending", "answered"]),
+    answer: z.string().optional(),
+    time: z.object({
+      created: z.number(),
+      answered: z.number().optional(),
+    }),
+  }).meta({
+    ref: "EscalationPart",
+  })
+  export type EscalationPart = z.infer<typeof EscalationPart>
+
   export const StepStartPart = PartBase.extend({
     type: z.literal("step-start"),
     snapshot: z.string().optional(),
@@ -340,7 +390,9 @@ export namespace MessageV2 {
       PatchPart,
       AgentPart,
       RetryPart,
+      FailoverPart,
       CompactionPart,
+      EscalationPart,
     ])
     .meta({
       ref: "Part",
@@ -643,7 +695,10 @@ export namespace MessageV2 {
     const result = [] as MessageV2.WithParts[]
     const completed = new Set<string>()
     for await (const msg of stream) {
-      result.push(msg)
+      // OpenCodeOrchestra: parts excluded by the user never reach the model
+      result.push(
+        msg.parts.some((part) => part.excluded) ? { ...msg, parts: msg.parts.filter((part) => !part.excluded) } : msg,
+      )
       if (
         msg.info.role === "user" &&
         completed.has(msg.info.id) &&
@@ -0,0 +1,142 @@
+import { Agent } from "../agent/agent"
+import { Identifier } from "../id/id"
+import { Spec } from "../spec"
+import { Storage } from "../storage/storage"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+
+/**
+ * OpenCodeOrchestra: Parts that survive compaction verbatim. Besides parts the user pinned, the records an
+ * orchestration depends on are pinned automatically: spec drafts, audit verdicts, results of orchestrator tasks and
+ * their finish_task reports, project-state writes and open escalations. Setting `pinned: false` on a part opts it
+ * out of automatic pinning; excluded parts are never carried.
+ */
+export namespace SessionPin {
+  const TOOLS = ["spec_write", "audit_verdict", "finish_task", "project_state_write"]
+
+  export async function pinned(part: MessageV2.Part) {
+    if (part.excluded) return false
+    if (part.pinned !== undefined) return part.pinned
+    if (part.type === "escalation") return part.status === "pending"
+    if (part.type !== "tool" || part.state.status !== "completed") return false
+    if (TOOLS.includes(part.tool)) return true
+    // results of persistent children (orchestrators), not the answers of single-shot subagents
+    if (part.tool === "task") {
+      const agent = await Agent.get(part.state.input.subagent_type)
+      return agent ? !agent.singleShot : false
+    }
+    return false
+  }
+
+  function render(part: MessageV2.Part) {
+    if (part.type === "text") return part.text
+    if (part.type === "escalation") {
+      return [
+        `<escalation agent="${part.agent}" status="${part.status}">`,
+        part.question,
+        ...(part.context ? ["", part.context] : []),
+        ...part.options.map((x) => `- ${x.label}: ${x.description}`),
+        "</escalation>",
+      ].join("\n")
+    }
+    if (part.type === "tool" && part.state.status === "completed") {
+      const input =
+        part.tool === "task" ? `description: ${part.state.input.description}` : JSON.stringify(part.state.input)
+      return [`<tool name="${part.tool}" title="${part.state.title}">`, input, "", part.state.output, "</tool>"].join(
+        "\n",
+      )
+    }
+    return undefined
+  }
+
+  // the part a carried copy was made from, followed through earlier compactions
+  function source(part: MessageV2.Part) {
+    return (part.type === "text" && part.metadata?.source) || part.id
+  }
+
+  function copy(part: MessageV2.Part, messageID: string): MessageV2.TextPart | undefined {
+    const text = render(part)
+    if (!text) return
+    return {
+      id: Identifier.ascending("part"),
+      messageID,
+      sessionID: part.sessionID,
+      type: "text",
+      synthetic: true,
+      pinned: true,
+      text,
+      metadata: { source: source(part) },
+    }
+  }
+
+  /**
+   * Text parts carrying the pinned context of `messages` past a compaction, for the summary message `messageID`.
+   * An orchestrator's spec is carried in its current state rather than as it was first handed over.
+   */
+  export async function carry(input: { sessionID: string; messageID: string; messages: MessageV2.WithParts[] }) {
+    const result: MessageV2.TextPart[] = []
+    // not pinned itself: every compaction carries a fresh copy
+    const spec = await Spec.byOrchestrator(input.sessionID)
+    if (spec) {
+      result.push({
+        id: Identifier.ascending("part"),
+        messageID: input.messageID,
+        sessionID: input.sessionID,
+        type: "text",
+        synthetic: true,
+        text: Spec.format(spec),
+      })
+    }
+    for (const msg of input.messages) {
+      for (const item of msg.parts) {
+        if (!(await pinned(item))) continue
+        const part = copy(item, input.messageID)
+        if (part) result.push(part)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Sets or resets (null) the pinned and excluded flags of one part, or of every part of the message. Pinning a part
+   * that an earlier compaction already summarized away carries a copy of it into the latest summary; unpinning or
+   * excluding it removes those copies again.
+   */
+  export async function curate(input: {
+    sessionID: string
+    messageID: string
+    partID?: string
+    pinned?: boolean | null
+    excluded?: boolean | null
+  }) {
+    const message = await MessageV2.get({ sessionID: input.sessionID, messageID: input.messageID })
+    const parts = input.partID ? message.parts.filter((x) => x.id === input.partID) : message.parts
+    if (input.partID && !parts.length)
+      throw new Storage.NotFoundError({ message: `Part ${input.partID} not found in message ${input.messageID}` })
+
+    const result: MessageV2.Part[] = []
+    for (const part of parts) {
+      const next = { ...part }
+      if (input.pinned !== undefined) next.pinned = input.pinned ?? undefined
+      if (input.excluded !== undefined) next.excluded = input.excluded ?? undefined
+      result.push(await Session.updatePart(next))
+    }
+
+    const context = await MessageV2.filterCompacted(MessageV2.stream(input.sessionID))
+    const summary = context.findLast((x) => x.info.role === "assistant" && x.info.summary)
+    const visible = context.some((x) => x.info.id === input.messageID)
+    const copies = context.flatMap((x) => x.parts).filter((x) => x.id !== source(x))
+    for (const part of result) {
+      const existing = copies.filter((x) => source(x) === part.id)
+      if (!(await pinned(part))) {
+        for (const x of existing)
+          await Session.removePart({ sessionID: x.sessionID, messageID: x.messageID, partID: x.id })
+        continue
+      }
+      if (visible || !summary || existing.length) continue
+      const carried = copy(part, summary.info.id)
+      if (carried) await Session.updatePart(carried)
+    }
+    return result
+  }
+}
@@ -0,0 +1,199 @@
+import z from "zod"
+import stripAnsi from "strip-ansi"
+import { Bus } from "../bus"
+import { Pty } from "../pty"
+import { Instance } from "../project/instance"
+import { Identifier } from "../id/id"
+import { Session } from "."
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Long-running processes (dev servers, watchers) started by agents.
+ * Each process runs in a Pty owned by the session that started it. Output is kept so agents can
+ * poll it incrementally. Processes are killed when the session's task finishes (see tool/task.ts) or when
+ * the session is deleted or archived.
+ */
+export namespace SessionProcess {
+  const log = Log.create({ service: "session.process" })
+
+  const OUTPUT_LIMIT = 256 * 1024
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("pty"),
+      sessionID: Identifier.schema("session"),
+      command: z.string(),
+      cwd: z.string(),
+      status: z.enum(["running", "exited"]),
+      exitCode: z.number().optional(),
+      time: z.object({
+        started: z.number(),
+        exited: z.number().optional(),
+      }),
+    })
+    .meta({ ref: "SessionProcess" })
+  export type Info = z.infer<typeof Info>
+
+  export class NotFoundError extends Error {
+    constructor(id: string) {
+      super(`No background process ${id} in this session. Use process_list to see running processes.`)
+    }
+  }
+
+  interface Entry {
+    info: Info
+    output: string
+    // characters dropped from the start of `output` once it exceeded OUTPUT_LIMIT
+    dropped: number
+    // absolute position up to which the output has been returned
+    cursor: number
+    changed: Set<() => void>
+    stop?: () => void
+  }
+
+  const state = Instance.state(() => new Map<string, Entry>())
+
+  export function init() {
+    Bus.subscribe(Pty.Event.Exited, (evt) => {
+      const entry = state().get(evt.properties.id)
+      if (!entry) return
+      exited(entry, evt.properties.exitCode)
+    })
+    Bus.subscribe(Session.Event.Deleted, async (evt) => {
+      await cleanup(evt.properties.info.id)
+    })
+    Bus.subscribe(Session.Event.Updated, async (evt) => {
+      if (evt.properties.info.time.archived) await cleanup(evt.properties.info.id)
+    })
+  }
+
+  function exited(entry: Entry, exitCode?: number) {
+    entry.stop?.()
+    if (entry.info.status === "running") {
+      entry.info.status = "exited"
+      entry.info.time.exited = Date.now()
+    }
+    entry.info.exitCode ??= exitCode
+    for (const fn of entry.changed) fn()
+  }
+
+  export async function start(input: {
+    sessionID: string
+    command: string
+    args: string[]
+    cwd: string
+    title: string
+  }) {
+    const pty = await Pty.create(
+      { command: input.command, args: input.args, cwd: input.cwd, title: input.title },
+      { login: false },
+    )
+    const entry: Entry = {
+      info: {
+        id: pty.id,
+        sessionID: input.sessionID,
+        command: input.title,
+        cwd: input.cwd,
+        status: "running",
+        time: { started: Date.now() },
+      },
+      output: "",
+      dropped: 0,
+      cursor: 0,
+      changed: new Set(),
+    }
+    entry.stop = Pty.listen(pty.id, (data) => {
+      entry.output += data
+      if (entry.output.length > OUTPUT_LIMIT) {
+        const excess = entry.output.length - OUTPUT_LIMIT
+        entry.output = entry.output.slice(excess)
+        entry.dropped += excess
+      }
+      for (const fn of entry.changed) fn()
+    })
+    state().set(pty.id, entry)
+    log.info("started", { id: pty.id, sessionID: input.sessionID, command: input.title })
+    return entry.info
+  }
+
+  function entry(sessionID: string, id: string) {
+    const result = state().get(id)
+    if (!result || result.info.sessionID !== sessionID) throw new NotFoundError(id)
+    return result
+  }
+
+  export function list(sessionID: string) {
+    return Array.from(state().values())
+      .filter((x) => x.info.sessionID === sessionID)
+      .map((x) => x.info)
+  }
+
+  function unread(entry: Entry) {
+    const start = Math.max(entry.cursor - entry.dropped, 0)
+    return {
+      skipped: Math.max(entry.dropped - entry.cursor, 0),
+      text: stripAnsi(entry.output.slice(start)).replaceAll("\r\n", "\n"),
+    }
+  }
+
+  /**
+   * Returns the output produced since the last read. With `until`, first waits for the unread output to
+   * match the pattern, the process to exit or `timeout` ms to pass, whichever comes first.
+   */
+  export async function read(input: {
+    sessionID: string
+    id: string
+    until?: RegExp
+    timeout?: number
+    abort?: AbortSignal
+  }) {
+    const item = entry(input.sessionID, input.id)
+    let matched: boolean | undefined
+    if (input.until) {
+      const until = input.until
+      matched = await new Promise<boolean>((resolve) => {
+        const check = () => {
+          if (until.test(unread(item).text)) return done(true)
+          if (item.info.status === "exited" || input.abort?.aborted) return done(false)
+        }
+        const timer = setTimeout(() => done(false), input.timeout ?? 30_000)
+        const done = (result: boolean) => {
+          clearTimeout(timer)
+          item.changed.delete(check)
+          input.abort?.removeEventListener("abort", check)
+          resolve(result)
+        }
+        item.changed.add(check)
+        input.abort?.addEventListener("abort", check)
+        check()
+      })
+    }
+    const { skipped, text } = unread(item)
+    item.cursor = item.dropped + item.output.length
+    return { info: item.info, output: text, skipped, matched }
+  }
+
+  export function write(input: { sessionID: string; id: string; data: string }) {
+    const item = entry(input.sessionID, input.id)
+    if (item.info.status !== "running") throw new Error(`Process ${input.id} has already exited`)
+    Pty.write(input.id, input.data)
+  }
+
+  export async function kill(input: { sessionID: string; id: string }) {
+    const item = entry(input.sessionID, input.id)
+    await Pty.remove(input.id)
+    exited(item)
+    return item.info
+  }
+
+  /** Kills every process of the session and forgets them. */
+  export async function cleanup(sessionID: string) {
+    for (const item of Array.from(state().values())) {
+      if (item.info.sessionID !== sessionID) continue
+      await Pty.remove(item.info.id)
+      exited(item)
+      state().delete(item.info.id)
+      log.info("cleaned up", { id: item.info.id, sessionID })
+    }
+  }
+}
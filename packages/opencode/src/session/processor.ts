@@ -15,6 +15,8 @@ import { Config } from "@/config/config"
 import { SessionCompaction } from "./compaction"
 import { PermissionNext } from "@/permission/next"
 import { Question } from "@/question"
+import { SessionBudget } from "./budget"
+import { SessionFailover } from "./failover"
 
 export namespace SessionProcessor {
   const DOOM_LOOP_THRESHOLD = 3
@@ -253,6 +255,7 @@ export namespace SessionProcessor {
                     cost: usage.cost,
                   })
                   await Session.updateMessage(input.assistantMessage)
+                  await SessionBudget.record(input.sessionID, usage) // OpenCodeOrchestra: subtree budgets
                   if (snapshot) {
                     const patch = await Snapshot.patch(snapshot)
                     if (patch.files.length) {
@@ -343,7 +346,33 @@ export namespace SessionProcessor {
             })
             const error = MessageV2.fromError(e, { providerID: input.model.providerID })
             const retry = SessionRetry.retryable(error)
-            if (retry !== undefined) {
+            // OpenCodeOrchestra: Hand the turn to the next model of the agent's failover chain
+            const overflow = retry === undefined && SessionRetry.overflow(error)
+            const exhausted = retry !== undefined && attempt + 1 >= SessionFailover.after(streamInput.agent)
+            const fallback =
+              streamInput.agent.failover && (overflow || exhausted)
+                ? await SessionFailover.next({
+                    sessionID: input.sessionID,
+                    user: streamInput.user,
+                    agent: streamInput.agent,
+                  })
+                : undefined
+            if (fallback) {
+              await Session.updatePart({
+                id: Identifier.ascending("part"),
+                messageID: input.assistantMessage.id,
+                sessionID: input.sessionID,
+                type: "failover",
+                from: { providerID: input.model.providerID, modelID: input.model.id },
+                to: { providerID: fallback.providerID, modelID: fallback.id },
+                reason: overflow ? "overflow" : "retry",
+                attempt: attempt + 1,
+                message: retry ?? (error.data as { message?: string }).message ?? error.name,
+                time: {
+                  created: Date.now(),
+                },
+              })
+            } else if (retry !== undefined) {
               attempt++
               const delay = SessionRetry.delay(attempt, error.name === "APIError" ? error : undefined)
               SessionStatus.set(input.sessionID, {
@@ -354,12 +383,13 @@ export namespace SessionProcessor {
               })
               await SessionRetry.sleep(delay, input.abort).catch(() => {})
               continue
+            } else {
+              input.assistantMessage.error = error
+              Bus.publish(Session.Event.Error, {
+                sessionID: input.assistantMessage.sessionID,
+                error: input.assistantMessage.error,
+              })
             }
-            input.assistantMessage.error = error
-            Bus.publish(Session.Event.Error, {
-              sessionID: input.assistantMessage.sessionID,
-              error: input.assistantMessage.error,
-            })
           }
           if (snapshot) {
             const patch = await Snapshot.patch(snapshot)
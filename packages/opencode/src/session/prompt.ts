@@ -24,6 +24,7 @@ import { defer } from "../util/defer"
 import { clone } from "remeda"
 import { ToolRegistry } from "../tool/registry"
 import { MCP } from "../mcp"
+import { McpCaller } from "../mcp/caller"
 import { LSP } from "../lsp"
 import { ReadTool } from "../tool/read"
 import { ListTool } from "../tool/ls"
@@ -46,6 +47,9 @@ import { LLM } from "./llm"
 import { iife } from "@/util/iife"
 import { Shell } from "@/shell/shell"
 import { Truncate } from "@/tool/truncation"
+import { SessionBudget } from "./budget"
+import { SessionFailover } from "./failover"
+import { SessionResource } from "./resource"
 
 // @ts-ignore
 globalThis.AI_SDK_LOG_WARNINGS = false
@@ -308,7 +312,11 @@ export namespace SessionPrompt {
           history: msgs,
         })
 
-      const model = await Provider.getModel(lastUser.model.providerID, lastUser.model.modelID)
+      // OpenCodeOrchestra: Hold every model call in a subtree whose budget is spent
+      if (!(await SessionBudget.gate(sessionID))) break
+
+      // OpenCodeOrchestra: The requested model, or the failover model that took over this turn
+      const model = await SessionFailover.model({ sessionID, user: lastUser })
       const task = tasks.pop()
 
       // pending subtask
@@ -592,6 +600,20 @@ export namespace SessionPrompt {
         }
       }
 
+      // OpenCodeOrchestra: Warn the budget owner once its subtree runs low
+      const budgetReminder = await SessionBudget.reminder(sessionID)
+      const budgetUser = budgetReminder ? sessionMessages.findLast((m) => m.info.role === "user") : undefined
+      if (budgetReminder && budgetUser) {
+        budgetUser.parts.push({
+          id: Identifier.ascending("part"),
+          messageID: budgetUser.info.id,
+          sessionID,
+          type: "text",
+          text: budgetReminder,
+          synthetic: true,
+        })
+      }
+
       await Plugin.trigger("experimental.chat.messages.transform", {}, { messages: sessionMessages })
 
       const result = await processor.process({
@@ -765,7 +787,14 @@ export namespace SessionPrompt {
           always: ["*"],
         })
 
-        const result = await execute(args, opts)
+        // OpenCodeOrchestra: lets the server's sampling and elicitation requests reach this session
+        const caller: McpCaller.Info = {
+          ctx,
+          agent: input.agent,
+          model: input.model,
+          message: input.processor.message,
+        }
+        const result = await execute(args, { ...opts, experimental_context: caller })
 
         await Plugin.trigger(
           "tool.execute.after",
@@ -811,7 +840,11 @@ export namespace SessionPrompt {
           }
         }
 
-        const truncated = await Truncate.output(textParts.join("\n\n"), {}, input.agent)
+        const truncated = await Truncate.output(
+          textParts.join("\n\n"),
+          { sessionID: ctx.sessionID, tool: key },
+          input.agent,
+        )
         const metadata = {
           ...(result.metadata ?? {}),
           truncated: truncated.truncated,
@@ -880,38 +913,16 @@ export namespace SessionPrompt {
             ]
 
             try {
-              const resourceContent = await MCP.readResource(clientName, uri)
-              if (!resourceContent) {
-                throw new Error(`Resource not found: ${clientName}/${uri}`)
-              }
-
-              // Handle different content types
-              const contents = Array.isArray(resourceContent.contents)
-                ? resourceContent.contents
-                : [resourceContent.contents]
-
-              for (const content of contents) {
-                if ("text" in content && content.text) {
-                  pieces.push({
-                    id: Identifier.ascending("part"),
-                    messageID: info.id,
-                    sessionID: input.sessionID,
-                    type: "text",
-                    synthetic: true,
-                    text: content.text as string,
-                  })
-                } else if ("blob" in content && content.blob) {
-                  // Handle binary content if needed
-                  const mimeType = "mimeType" in content ? content.mimeType : part.mime
-                  pieces.push({
-                    id: Identifier.ascending("part"),
-                    messageID: info.id,
-                    sessionID: input.sessionID,
-                    type: "text",
-                    synthetic: true,
-                    text: `[Binary content: ${mimeType}]`,
-                  })
-                }
+              const contents = await SessionResource.read(clientName, uri, part.mime)
+              for (const text of contents) {
+                pieces.push({
+                  id: Identifier.ascending("part"),
+                  messageID: info.id,
+                  sessionID: input.sessionID,
+                  type: "text",
+                  synthetic: true,
+                  text,
+                })
               }
 
               pieces.push({
@@ -920,6 +931,7 @@ export namespace SessionPrompt {
                 messageID: info.id,
                 sessionID: input.sessionID,
               })
+              await SessionResource.track(input.sessionID, { clientName, uri, filename: part.filename })
             } catch (error: unknown) {
               log.error("failed to read MCP resource", { error, clientName, uri })
               const message = error instanceof Error ? error.message : String(error)
@@ -1190,6 +1202,8 @@ export namespace SessionPrompt {
         ]
       }),
     ).then((x) => x.flat())
+    // OpenCodeOrchestra: brings attached MCP resources the servers updated since up to date
+    parts.push(...(await SessionResource.refresh({ sessionID: input.sessionID, messageID: info.id })))
 
     await Plugin.trigger(
       "chat.message",
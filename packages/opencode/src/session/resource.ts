@@ -0,0 +1,153 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import { Identifier } from "../id/id"
+import { Storage } from "../storage/storage"
+import { Instance } from "../project/instance"
+import { Lock } from "../util/lock"
+import { Config } from "../config/config"
+import { MCP } from "../mcp"
+import type { MessageV2 } from "./message-v2"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: MCP resources attached to a session. Attaching subscribes to the resource; when the server
+ * reports an update the resource is marked stale, and the session's next turn re-reads it or notes that it is stale.
+ */
+export namespace SessionResource {
+  const log = Log.create({ service: "session.resource" })
+
+  export const Entry = z
+    .object({
+      clientName: z.string(),
+      uri: z.string(),
+      filename: z.string().optional(),
+      subscribed: z.boolean().describe("Whether the server announces updates of the resource"),
+      stale: z.boolean().describe("Whether the server updated the resource since it was last read"),
+      time: z.object({
+        read: z.number(),
+        updated: z.number().optional(),
+        notified: z.number().optional(),
+      }),
+    })
+    .meta({ ref: "SessionResource" })
+  export type Entry = z.infer<typeof Entry>
+
+  export const Event = {
+    Updated: BusEvent.define(
+      "session.resource.updated",
+      z.object({
+        sessionID: z.string(),
+        resources: z.array(Entry),
+      }),
+    ),
+  }
+
+  export async function list(sessionID: string) {
+    return Storage.read<Entry[]>(["session_resource", Instance.project.id, sessionID]).catch(() => [] as Entry[])
+  }
+
+  async function save(sessionID: string, resources: Entry[]) {
+    await Storage.write(["session_resource", Instance.project.id, sessionID], resources)
+    Bus.publish(Event.Updated, { sessionID, resources })
+  }
+
+  /** Held across every read-modify-write of a session's resources, so a concurrent update is never overwritten. */
+  function lock(sessionID: string) {
+    return Lock.write(`session_resource:${sessionID}`)
+  }
+
+  /** Reads a resource as text for the conversation; binary contents are only named. */
+  export async function read(clientName: string, uri: string, mime?: string) {
+    const result = await MCP.readResource(clientName, uri)
+    if (!result) throw new Error(`Resource not found: ${clientName}/${uri}`)
+    const contents = Array.isArray(result.contents) ? result.contents : [result.contents]
+    return contents.flatMap((content) => {
+      if ("text" in content && content.text) return [content.text as string]
+      if ("blob" in content && content.blob) return [`[Binary content: ${content.mimeType ?? mime}]`]
+      return []
+    })
+  }
+
+  export async function track(sessionID: string, input: { clientName: string; uri: string; filename?: string }) {
+    const subscribed = await MCP.subscribe(input.clientName, input.uri)
+    using _ = await lock(sessionID)
+    const resources = (await list(sessionID)).filter((x) => !(x.clientName === input.clientName && x.uri === input.uri))
+    resources.push({ ...input, subscribed, stale: false, time: { read: Date.now() } })
+    await save(sessionID, resources)
+  }
+
+  /**
+   * Parts that bring the session's stale resources up to date for the next turn.
+   * Subscriptions lost when the server reconnected are re-established on the way.
+   */
+  export async function refresh(input: { sessionID: string; messageID: string }) {
+    using _ = await lock(input.sessionID)
+    const resources = await list(input.sessionID)
+    if (!resources.length) return []
+    const cfg = await Config.get()
+    const parts: MessageV2.TextPart[] = []
+    const text = (text: string): MessageV2.TextPart => ({
+      id: Identifier.ascending("part"),
+      messageID: input.messageID,
+      sessionID: input.sessionID,
+      type: "text",
+      synthetic: true,
+      text,
+    })
+
+    let changed = false
+    for (const resource of resources) {
+      const subscribed = await MCP.subscribe(resource.clientName, resource.uri)
+      if (subscribed !== resource.subscribed) {
+        resource.subscribed = subscribed
+        changed = true
+      }
+      if (!resource.stale) continue
+      const name = `${resource.filename ?? resource.uri} (${resource.uri})`
+
+      if (cfg.experimental?.mcp_resource_updates === "mark") {
+        if ((resource.time.notified ?? 0) >= (resource.time.updated ?? 0)) continue
+        resource.time.notified = Date.now()
+        changed = true
+        parts.push(text(`MCP resource ${name} was updated since it was read; its content above may be outdated.`))
+        continue
+      }
+
+      try {
+        const contents = await read(resource.clientName, resource.uri)
+        parts.push(text(`MCP resource ${name} was updated since it was read. Current content:`))
+        parts.push(...contents.map(text))
+        resource.stale = false
+        resource.time.read = Date.now()
+        changed = true
+      } catch (error) {
+        log.error("failed to refresh resource", { error, clientName: resource.clientName, uri: resource.uri })
+        const message = error instanceof Error ? error.message : String(error)
+        parts.push(text(`Failed to refresh MCP resource ${name}: ${message}`))
+      }
+    }
+
+    if (changed) await save(input.sessionID, resources)
+    return parts
+  }
+
+  export function init() {
+    Bus.subscribe(MCP.ResourceUpdated, async (event) => {
+      const { server, uri } = event.properties
+      for (const key of await Storage.list(["session_resource", Instance.project.id])) {
+        const sessionID = key[key.length - 1]
+        using _ = await lock(sessionID)
+        const resources = await list(sessionID)
+        const matched = resources.filter((x) => x.clientName === server && x.uri === uri)
+        if (!matched.length) continue
+        for (const resource of matched) {
+          resource.stale = true
+          resource.time.updated = Date.now()
+        }
+        log.info("stale", { sessionID, server, uri })
+        await save(sessionID, resources)
+      }
+    })
+  }
+}
@@ -87,4 +87,13 @@ export namespace SessionRetry {
 
     return undefined
   }
+
+  const OVERFLOW =
+    /context[_ ]length|context window|maximum context|prompt is too long|input is too long|exceeds the (?:maximum|model'?s?) (?:context|input)/i
+
+  /** OpenCodeOrchestra: Whether the request was rejected for exceeding the model's context window. */
+  export function overflow(error: ReturnType<NamedError["toObject"]>) {
+    if (!MessageV2.APIError.isInstance(error)) return false
+    return OVERFLOW.test(error.data.message) || OVERFLOW.test(error.data.responseBody ?? "")
+  }
 }
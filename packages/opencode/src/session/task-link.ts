@@ -0,0 +1,244 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import { Storage } from "../storage/storage"
+import { Instance } from "../project/instance"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { SessionPrompt } from "./prompt"
+import { SessionEscalation } from "./escalation"
+import { Log } from "../util/log"
+
+/**
+ * OpenCodeOrchestra: Persisted link between a TaskTool call and the orchestrator session it is waiting on.
+ * Lets the PM survive a restart mid-orchestration: the link outlives the in-memory wait, and the
+ * finish_task result is delivered to the PM session when no TaskTool call is waiting for it anymore.
+ */
+export namespace SessionTaskLink {
+  const log = Log.create({ service: "session.task-link" })
+
+  export const Result = z
+    .object({
+      status: z.enum(["completed", "failed", "cancelled"]),
+      summary: z.string(),
+      learnings: z.array(z.string()).optional(),
+      diagnostics: z
+        .array(z.string())
+        .optional()
+        .describe("LSP errors introduced by the task that were still outstanding when it finished"),
+      markers: z.array(z.string()).optional().describe("@TODO markers still in place after Cleanup ran"),
+    })
+    .meta({ ref: "TaskLinkResult" })
+  export type Result = z.infer<typeof Result>
+
+  export const Info = z
+    .object({
+      sessionID: z.string().describe("Orchestrator session"),
+      parentID: z.string().describe("Session whose task call spawned the orchestrator"),
+      messageID: z.string().describe("Assistant message holding the task call"),
+      callID: z.string().optional(),
+      agent: z.string(),
+      description: z.string(),
+      status: z.enum(["running", "finished"]),
+      result: Result.optional(),
+      time: z.object({
+        created: z.number(),
+        finished: z.number().optional(),
+      }),
+    })
+    .meta({ ref: "TaskLink" })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: BusEvent.define("session.task_link.updated", z.object({ link: Info })),
+  }
+
+  /** What ends a wait: the orchestrator finished, or it escalated a question and is suspended until answered. */
+  export type Outcome =
+    | { type: "finished"; result: Result }
+    | { type: "escalated"; escalation: MessageV2.EscalationPart }
+
+  const state = Instance.state(() => {
+    const waiters: Record<string, (outcome: Outcome) => void> = {}
+    return waiters
+  })
+
+  export async function get(parentID: string, sessionID: string) {
+    return Storage.read<Info>(["task_link", parentID, sessionID]).catch(() => undefined)
+  }
+
+  export async function list(parentID: string) {
+    const keys = await Storage.list(["task_link", parentID])
+    const links = await Promise.all(keys.map((key) => Storage.read<Info>(key).catch(() => undefined)))
+    return links.filter((x): x is Info => !!x)
+  }
+
+  async function save(link: Info) {
+    await Storage.write(["task_link", link.parentID, link.sessionID], link)
+    Bus.publish(Event.Updated, { link })
+    return link
+  }
+
+  export async function create(
+    input: Pick<Info, "sessionID" | "parentID" | "messageID" | "callID" | "agent" | "description">,
+  ) {
+    return save({ ...input, status: "running", time: { created: Date.now() } })
+  }
+
+  export async function remove(parentID: string, sessionID: string) {
+    await Storage.remove(["task_link", parentID, sessionID])
+  }
+
+  /** Resolves once the orchestrator finishes or escalates, as long as this process is still waiting for it. */
+  export function wait(sessionID: string, abort: AbortSignal) {
+    return new Promise<Outcome>((resolve, reject) => {
+      const waiters = state()
+      const onAbort = () => {
+        delete waiters[sessionID]
+        reject(new Error("Task aborted"))
+      }
+      waiters[sessionID] = (outcome) => {
+        abort.removeEventListener("abort", onAbort)
+        resolve(outcome)
+      }
+      abort.addEventListener("abort", onAbort)
+    })
+  }
+
+  /** Called by finish_task. Hands the result to the waiting TaskTool call, or delivers it to the parent session. */
+  export async function finish(parentID: string, sessionID: string, result: Result) {
+    const link = await get(parentID, sessionID)
+    if (!link || link.status !== "running") return
+
+    const finished = await save({ ...link, status: "finished", result, time: { ...link.time, finished: Date.now() } })
+    const waiter = state()[sessionID]
+    if (waiter) {
+      delete state()[sessionID]
+      waiter({ type: "finished", result })
+      return finished
+    }
+    await deliver(finished)
+    return finished
+  }
+
+  /**
+   * Called when the orchestrator escalates. Ends the waiting TaskTool call early so the parent can answer,
+   * or prompts the parent directly when nothing is waiting. The link stays open for the eventual result.
+   */
+  export async function escalate(link: Info, escalation: MessageV2.EscalationPart) {
+    const waiter = state()[link.sessionID]
+    if (waiter) {
+      delete state()[link.sessionID]
+      waiter({ type: "escalated", escalation })
+      return
+    }
+    SessionPrompt.prompt({
+      sessionID: link.parentID,
+      parts: [{ type: "text", synthetic: true, text: SessionEscalation.format(escalation) }],
+    }).catch((error) => {
+      log.error("failed to deliver escalation", { error: String(error), parentID: link.parentID })
+    })
+  }
+
+  export function format(sessionID: string, result: Result) {
+    const status = result.status.toUpperCase()
+    return [
+      `[${status}] ${result.summary}`,
+      ...(result.learnings?.length ? ["", "Learnings:", ...result.learnings.map((l) => `- ${l}`)] : []),
+      ...(result.diagnostics?.length
+        ? ["", "Outstanding diagnostics introduced by this task:", ...result.diagnostics.map((d) => `- ${d}`)]
+        : []),
+      ...(result.markers?.length
+        ? ["", "@TODO markers left after Cleanup ran:", ...result.markers.map((m) => `- ${m}`)]
+        : []),
+      "",
+      `task_id: ${sessionID} (for resuming to continue this task if needed)`,
+      "",
+      "<task_result>",
+      `[${status}] ${result.summary}`,
+      "</task_result>",
+    ].join("\n")
+  }
+
+  /** Finishes the task call left behind by a previous process, if it is still open. Returns whether it was. */
+  async function settle(link: Info, output: string, title: string, metadata: Record<string, unknown>) {
+    if (!link.callID) return false
+    const message = await MessageV2.get({ sessionID: link.parentID, messageID: link.messageID }).catch(() => undefined)
+    const part = message?.parts.find((p): p is MessageV2.ToolPart => p.type === "tool" && p.callID === link.callID)
+    if (!part || (part.state.status !== "pending" && part.state.status !== "running")) return false
+    // only a running call has recorded metadata and a start time
+    const running = part.state.status === "running" ? part.state : undefined
+    const now = Date.now()
+    await Session.updatePart({
+      ...part,
+      state: {
+        status: "completed",
+        input: part.state.input,
+        output,
+        title,
+        metadata: { ...running?.metadata, ...metadata, sessionId: link.sessionID },
+        time: { start: running?.time.start ?? now, end: now },
+      },
+    })
+    return true
+  }
+
+  async function deliver(link: Info) {
+    if (!link.result) return
+    log.info("delivering detached result", { parentID: link.parentID, sessionID: link.sessionID })
+    const output = format(link.sessionID, link.result)
+    await settle(link, output, `${link.description} (${link.result.status})`, { status: link.result.status })
+    await remove(link.parentID, link.sessionID)
+    SessionPrompt.prompt({
+      sessionID: link.parentID,
+      parts: [
+        {
+          type: "text",
+          synthetic: true,
+          text: [`The @${link.agent} task "${link.description}" has finished.`, "", output].join("\n"),
+        },
+      ],
+    }).catch((error) => {
+      log.error("failed to deliver task result", { error: String(error), parentID: link.parentID })
+    })
+  }
+
+  /**
+   * Reconciles links left behind by a previous process: task calls still waiting on an orchestrator are closed with
+   * a note on how to resume it, and results that arrived without a waiter are delivered. The loop of a parent whose
+   * task call was closed died with that process, so it is resumed to act on the note; it shows as busy in the TUI.
+   */
+  export async function init() {
+    const keys = await Storage.list(["task_link"])
+    const parents = new Set<string>()
+    for (const key of keys) {
+      const link = await Storage.read<Info>(key).catch(() => undefined)
+      if (!link) continue
+      // links are stored globally; only sessions of the current project belong to this instance
+      if (!(await Session.get(link.parentID).catch(() => undefined))) continue
+      if (link.status === "finished") {
+        await deliver(link)
+        continue
+      }
+      log.info("orchestrator detached", { parentID: link.parentID, sessionID: link.sessionID })
+      const settled = await settle(
+        link,
+        [
+          `The previous process exited while this call waited for the @${link.agent} orchestrator in session ${link.sessionID}.`,
+          "Its work so far is kept, but it is no longer running.",
+          `To resume it and wait for its result, call the task tool again with task_id: ${link.sessionID}.`,
+          "If it finishes some other way, its finish_task result will be delivered to this session.",
+        ].join("\n"),
+        `${link.description} (detached)`,
+        { detached: true },
+      )
+      if (settled) parents.add(link.parentID)
+    }
+    for (const parentID of parents) {
+      log.info("resuming parent", { parentID })
+      SessionPrompt.loop(parentID).catch((error) => {
+        log.error("failed to resume parent", { error: String(error), parentID })
+      })
+    }
+  }
+}
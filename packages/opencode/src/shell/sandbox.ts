@@ -0,0 +1,88 @@
+import os from "os"
+import path from "path"
+import type { Config } from "@/config/config"
+import { lazy } from "@/util/lazy"
+import { Log } from "@/util/log"
+
+/**
+ * OpenCodeOrchestra: Runs bash tool commands inside a bubblewrap sandbox configured per agent.
+ * The filesystem is mounted read-only except for the policy's write paths and a private /tmp,
+ * so agents that must not modify files are stopped by the OS rather than by their prompt.
+ */
+export namespace Sandbox {
+  const log = Log.create({ service: "sandbox" })
+
+  export type Policy = Config.Sandbox
+
+  export class UnavailableError extends Error {}
+
+  // always visible when `read` is narrowed, otherwise the shell itself cannot start
+  const SYSTEM = ["/usr", "/bin", "/sbin", "/lib", "/lib64", "/etc"]
+
+  const bwrap = lazy(() => (process.platform === "linux" ? Bun.which("bwrap") : null))
+
+  export function available() {
+    return !!bwrap()
+  }
+
+  /** Expands `~` and resolves relative paths against the project root. */
+  export function resolve(input: string, root: string) {
+    if (input === "~" || input.startsWith("~/")) return path.join(os.homedir(), input.slice(1))
+    return path.resolve(root, input)
+  }
+
+  function inside(child: string, parent: string) {
+    return child === parent || child.startsWith(parent + path.sep)
+  }
+
+  function mounts(flag: string, paths: string[]) {
+    return paths.flatMap((p) => [flag, p, p])
+  }
+
+  /** bwrap arguments enforcing `policy` for a command run in `cwd`. */
+  export function args(policy: Policy, input: { cwd: string; root: string }) {
+    const write = [...new Set((policy.write ?? []).map((p) => resolve(p, input.root)))]
+    // paths below a write path are already mounted writable and must not be remounted read-only
+    const read = [...new Set([...(policy.read ?? ["/"]).map((p) => resolve(p, input.root)), input.cwd])].filter(
+      (p) => !write.some((w) => inside(p, w)),
+    )
+    // the private /tmp hides anything below it, so those paths are only mounted after it
+    const tmp = read.filter((p) => p !== "/" && inside(p, "/tmp"))
+    return [
+      "--die-with-parent",
+      ...mounts("--ro-bind-try", read.includes("/") ? ["/"] : [...SYSTEM, ...read.filter((p) => !tmp.includes(p))]),
+      "--dev",
+      "/dev",
+      "--proc",
+      "/proc",
+      "--tmpfs",
+      "/tmp",
+      ...mounts("--ro-bind-try", tmp),
+      ...mounts("--bind-try", write),
+      ...(policy.network === false ? ["--unshare-net"] : []),
+      "--chdir",
+      input.cwd,
+    ]
+  }
+
+  /**
+   * The executable and arguments that run `command` under `policy`, or undefined when the command
+   * should run unsandboxed because the backend is missing and the policy does not require it.
+   */
+  export function wrap(policy: Policy, input: { shell: string; command: string; cwd: string; root: string }) {
+    const bin = bwrap()
+    if (!bin) {
+      if (policy.required !== false) {
+        throw new UnavailableError(
+          "This agent's bash commands must run in a sandbox, but bubblewrap (bwrap) is not available. Install bubblewrap (Linux only) or set sandbox.required to false.",
+        )
+      }
+      log.warn("bwrap not available, running unsandboxed", { cwd: input.cwd })
+      return
+    }
+    return {
+      file: bin,
+      args: [...args(policy, input), "--", input.shell, "-c", input.command],
+    }
+  }
+}
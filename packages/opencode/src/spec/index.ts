@@ -0,0 +1,255 @@
+import { Bus } from "@/bus"
+import { BusEvent } from "@/bus/bus-event"
+import { Identifier } from "@/id/id"
+import { ProjectMemory } from "@/project/memory"
+import { Storage } from "@/storage/storage"
+import { Lock } from "@/util/lock"
+import { Log } from "@/util/log"
+import { NamedError } from "@opencode-ai/util/error"
+import path from "path"
+import fs from "fs/promises"
+import z from "zod"
+
+/**
+ * Specs drive the PM → Orchestrator workflow: the PM drafts a spec, the user approves it,
+ * and only then can an orchestrator be spawned to execute it.
+ * Persisted as .opencode/specs/<id>.json next to project-state.json.
+ */
+export namespace Spec {
+  const log = Log.create({ service: "spec" })
+
+  export const Status = z.enum(["draft", "approved", "in_progress", "audited", "done", "failed"]).meta({
+    ref: "SpecStatus",
+  })
+  export type Status = z.infer<typeof Status>
+
+  const TRANSITIONS: Record<Status, Status[]> = {
+    draft: ["approved"],
+    approved: ["draft", "in_progress"],
+    in_progress: ["audited", "failed"],
+    audited: ["in_progress", "done", "failed"],
+    done: [],
+    failed: ["draft"],
+  }
+
+  export const Criterion = z
+    .object({
+      id: z.string().describe("Stable identifier of the criterion, e.g. AC-1"),
+      description: z.string().describe("What must be true for the spec to be satisfied"),
+    })
+    .meta({ ref: "SpecCriterion" })
+  export type Criterion = z.infer<typeof Criterion>
+
+  export const TestCase = z
+    .object({
+      id: z.string().describe("Stable identifier of the test case, e.g. TC-1"),
+      name: z.string().describe("Short name of the test case"),
+      steps: z.string().describe("How the test is performed and what is expected"),
+      criteria: z.array(z.string()).optional().describe("Ids of the acceptance criteria this test covers"),
+    })
+    .meta({ ref: "SpecTestCase" })
+  export type TestCase = z.infer<typeof TestCase>
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("spec"),
+      title: z.string(),
+      objective: z.string(),
+      scope: z.string().optional(),
+      criteria: z.array(Criterion),
+      tests: z.array(TestCase),
+      status: Status,
+      sessionID: z.string().optional().describe("Session that drafted the spec"),
+      orchestratorID: z.string().optional().describe("Orchestrator session executing the spec"),
+      feedback: z.string().optional().describe("Reason given when the spec was last rejected"),
+      time: z.object({
+        created: z.number(),
+        updated: z.number(),
+        approved: z.number().optional(),
+      }),
+    })
+    .meta({ ref: "Spec" })
+  export type Info = z.infer<typeof Info>
+
+  export const Draft = Info.pick({ title: true, objective: true, scope: true, criteria: true, tests: true })
+  export type Draft = z.infer<typeof Draft>
+
+  export const Event = {
+    Updated: BusEvent.define("spec.updated", z.object({ info: Info })),
+  }
+
+  export const TransitionError = NamedError.create(
+    "SpecTransitionError",
+    z.object({
+      specID: z.string(),
+      from: Status,
+      to: Status,
+      message: z.string(),
+    }),
+  )
+
+  function dir() {
+    return path.join(ProjectMemory.root(), ".opencode", "specs")
+  }
+
+  function file(specID: string) {
+    return path.join(dir(), specID + ".json")
+  }
+
+  // held across the read, check and write of a change; get and save only lock the file for their own access
+  function lock(specID: string) {
+    return Lock.write(`spec:${specID}`)
+  }
+
+  async function save(info: Info) {
+    await fs.mkdir(dir(), { recursive: true })
+    const target = file(info.id)
+    using _ = await Lock.write(target)
+    await Bun.write(target, JSON.stringify(info, null, 2))
+    Bus.publish(Event.Updated, { info })
+    return info
+  }
+
+  export async function get(specID: string): Promise<Info> {
+    if (path.basename(specID) !== specID) throw new Storage.NotFoundError({ message: `Spec not found: ${specID}` })
+    const target = file(specID)
+    using _ = await Lock.read(target)
+    const handle = Bun.file(target)
+    if (!(await handle.exists())) throw new Storage.NotFoundError({ message: `Spec not found: ${specID}` })
+    return Info.parse(await handle.json())
+  }
+
+  export async function list(): Promise<Info[]> {
+    const glob = new Bun.Glob("spc_*.json")
+    const files = await Array.fromAsync(glob.scan({ cwd: dir() })).catch(() => [] as string[])
+    const result: Info[] = []
+    for (const item of files) {
+      const info = await get(path.basename(item, ".json")).catch((error) => {
+        log.error("failed to read spec", { file: item, error })
+      })
+      if (info) result.push(info)
+    }
+    return result.sort((a, b) => b.time.updated - a.time.updated)
+  }
+
+  export async function byOrchestrator(sessionID: string): Promise<Info | undefined> {
+    return list().then((specs) => specs.find((spec) => spec.orchestratorID === sessionID))
+  }
+
+  export async function create(input: Draft & { sessionID?: string }): Promise<Info> {
+    const now = Date.now()
+    const info: Info = {
+      id: Identifier.descending("spec"),
+      ...Draft.parse(input),
+      status: "draft",
+      sessionID: input.sessionID,
+      time: { created: now, updated: now },
+    }
+    log.info("created", { id: info.id })
+    return save(info)
+  }
+
+  /** Edits the content of a spec. Only drafts can be edited; approval must be requested again afterwards. */
+  export async function revise(specID: string, input: Partial<Draft>): Promise<Info> {
+    using _ = await lock(specID)
+    const info = await get(specID)
+    if (info.status !== "draft") {
+      throw new TransitionError({
+        specID,
+        from: info.status,
+        to: "draft",
+        message: `Spec ${specID} is ${info.status}; only draft specs can be revised`,
+      })
+    }
+    const draft = Draft.partial().parse(input)
+    return await save({
+      ...info,
+      ...Object.fromEntries(Object.entries(draft).filter(([, value]) => value !== undefined)),
+      time: { ...info.time, updated: Date.now() },
+    })
+  }
+
+  export async function transition(
+    specID: string,
+    to: Status,
+    extra?: Partial<Pick<Info, "orchestratorID" | "feedback">>,
+  ): Promise<Info> {
+    using _ = await lock(specID)
+    return await move(await get(specID), to, extra)
+  }
+
+  function move(info: Info, to: Status, extra?: Partial<Pick<Info, "orchestratorID" | "feedback">>) {
+    const specID = info.id
+    if (!TRANSITIONS[info.status].includes(to)) {
+      throw new TransitionError({
+        specID,
+        from: info.status,
+        to,
+        message: `Cannot move spec ${specID} from ${info.status} to ${to}`,
+      })
+    }
+    const now = Date.now()
+    log.info("transition", { id: specID, from: info.status, to })
+    return save({
+      ...info,
+      ...extra,
+      status: to,
+      time: {
+        ...info.time,
+        updated: now,
+        approved: to === "approved" ? now : info.time.approved,
+      },
+    })
+  }
+
+  /** Closes an in-progress spec whose completion the user accepted without a passing audit. */
+  export async function override(specID: string): Promise<Info> {
+    using _ = await lock(specID)
+    const info = await get(specID)
+    if (info.status !== "in_progress") {
+      throw new TransitionError({
+        specID,
+        from: info.status,
+        to: "done",
+        message: `Cannot override the audit of spec ${specID} while it is ${info.status}`,
+      })
+    }
+    log.info("override", { id: specID })
+    return await save({ ...info, status: "done", time: { ...info.time, updated: Date.now() } })
+  }
+
+  export async function approve(specID: string) {
+    return transition(specID, "approved", { feedback: undefined })
+  }
+
+  /** Sends a draft or approved spec back to the PM with feedback. */
+  export async function reject(specID: string, feedback?: string) {
+    using _ = await lock(specID)
+    const info = await get(specID)
+    if (info.status === "draft") {
+      return await save({ ...info, feedback, time: { ...info.time, updated: Date.now() } })
+    }
+    return await move(info, "draft", { feedback })
+  }
+
+  /** Renders a spec as the structured brief handed to an orchestrator. */
+  export function format(info: Info) {
+    return [
+      `<spec id="${info.id}" status="${info.status}">`,
+      `# ${info.title}`,
+      "",
+      "## Objective",
+      info.objective,
+      ...(info.scope ? ["", "## Scope", info.scope] : []),
+      "",
+      "## Acceptance Criteria",
+      ...info.criteria.map((c) => `- [${c.id}] ${c.description}`),
+      "",
+      "## Test Cases",
+      ...info.tests.map(
+        (t) => `- [${t.id}] ${t.name}${t.criteria?.length ? ` (covers ${t.criteria.join(", ")})` : ""}: ${t.steps}`,
+      ),
+      "</spec>",
+    ].join("\n")
+  }
+}
@@ -8,6 +8,7 @@ import { Lock } from "../util/lock"
 import { $ } from "bun"
 import { NamedError } from "@opencode-ai/util/error"
 import z from "zod"
+import type { Session } from "../session"
 
 export namespace Storage {
   const log = Log.create({ service: "storage" })
@@ -139,6 +140,32 @@ export namespace Storage {
         )
       }
     },
+    // OpenCodeOrchestra: Backfill the cached depth on sessions created before it was stored. These sessions were
+    // placed by walking the parentID chain, so that is their depth. The role depends on the project's hierarchy
+    // config and is resolved when first needed (see roleOf in session/depth.ts).
+    async (dir) => {
+      const sessions = new Map<string, { file: string; info: Session.Info }>()
+      for await (const item of new Bun.Glob("session/*/*.json").scan({
+        cwd: dir,
+        absolute: true,
+      })) {
+        const info: Session.Info = await Bun.file(item).json()
+        sessions.set(info.id, { file: item, info })
+      }
+      const depthOf = (info: Session.Info, visited: Set<string>): number => {
+        if (info.depth !== undefined) return info.depth
+        if (!info.parentID) return 0
+        const parent = sessions.get(info.parentID)?.info
+        if (!parent || visited.has(parent.id)) return 1
+        visited.add(info.id)
+        return depthOf(parent, visited) + 1
+      }
+      for (const { file, info } of sessions.values()) {
+        if (info.depth !== undefined) continue
+        const depth = depthOf(info, new Set())
+        await Bun.write(file, JSON.stringify({ ...info, depth }, null, 2))
+      }
+    },
   ]
 
   const state = lazy(async () => {
@@ -13,6 +13,9 @@ import { LSP } from "../lsp"
 import { Filesystem } from "../util/filesystem"
 import DESCRIPTION from "./apply_patch.txt"
 import { File } from "../file"
+import { Format } from "../format"
+import { SessionMarker } from "../session/marker"
+import { SessionDiagnostic } from "../session/diagnostic"
 
 const PatchParams = z.object({
   patchText: z.string().describe("The full patch text that describes all changes to be made"),
@@ -184,6 +187,14 @@ export const ApplyPatchTool = Tool.define("apply_patch", {
       },
     })
 
+    // OpenCodeOrchestra: diagnostics before the patch, to report only the errors it introduces
+    const baselines = new Map<string, SessionDiagnostic.Baseline | undefined>()
+    for (const change of fileChanges) {
+      if (change.type === "delete") continue
+      const target = change.movePath ?? change.filePath
+      baselines.set(target, await SessionDiagnostic.baseline(ctx.sessionID, target))
+    }
+
     // Apply the changes
     const changedFiles: string[] = []
 
@@ -221,8 +232,20 @@ export const ApplyPatchTool = Tool.define("apply_patch", {
       if (edited) {
         await Bus.publish(File.Event.Edited, {
           file: edited,
+          lines: change.type === "add" ? undefined : Format.changed(change.oldContent, change.newContent),
         })
       }
+
+      // a move or delete clears the markers at the old path; the new path starts from empty
+      await SessionMarker.track({
+        sessionID: ctx.sessionID,
+        file: change.filePath,
+        before: change.oldContent,
+        after: edited === change.filePath ? change.newContent : "",
+      })
+      if (edited && edited !== change.filePath) {
+        await SessionMarker.track({ sessionID: ctx.sessionID, file: edited, before: "", after: change.newContent })
+      }
     }
 
     // Publish file change events
@@ -266,6 +289,13 @@ export const ApplyPatchTool = Tool.define("apply_patch", {
         output += `\n\nLSP errors detected in ${path.relative(Instance.worktree, target)}, please fix:\n<diagnostics file="${target}">\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</diagnostics>`
       }
     }
+    const gates = []
+    for (const baseline of baselines.values()) {
+      const gate = await SessionDiagnostic.check({ sessionID: ctx.sessionID, baseline, diagnostics })
+      if (!gate) continue
+      gates.push(gate)
+      output += SessionDiagnostic.report(gate)
+    }
 
     return {
       title: output,
@@ -273,6 +303,7 @@ export const ApplyPatchTool = Tool.define("apply_patch", {
         diff: totalDiff,
         files,
         diagnostics,
+        introduced: gates.flatMap((x) => x.introduced),
       },
       output,
     }
@@ -0,0 +1,74 @@
+import { Tool } from "./tool"
+import z from "zod"
+import { SessionAudit } from "../session/audit"
+import { Spec } from "../spec"
+import { Log } from "../util/log"
+
+const log = Log.create({ service: "audit-verdict" })
+
+const parameters = z.object({
+  verdict: z.enum(["PASS", "FAIL"]).describe("The audit verdict"),
+  summary: z.string().describe("Brief overall assessment"),
+  issues: z
+    .array(SessionAudit.Issue)
+    .optional()
+    .describe("Blocking issues with file and line. Required when the verdict is FAIL"),
+  criteria: z
+    .array(SessionAudit.Criterion)
+    .optional()
+    .describe("The spec acceptance criteria that were checked and whether each is met"),
+})
+
+export const AuditVerdictTool = Tool.define("audit_verdict", {
+  description: `Record the structured verdict of an audit on the orchestrator that requested it.
+
+Call this exactly once at the end of every audit, before your final response.
+The orchestrator cannot report its task as completed unless the latest recorded verdict is PASS.
+
+- verdict: PASS when no blocking issues remain, FAIL otherwise
+- issues: every blocking issue with its file and line
+- criteria: each spec acceptance criterion you checked and whether it is met`,
+  parameters,
+  async execute(params: z.infer<typeof parameters>, ctx) {
+    const issues = params.issues ?? []
+    if (params.verdict === "FAIL" && issues.length === 0) {
+      throw new Error("A FAIL verdict must list at least one blocking issue")
+    }
+    const failed = (params.criteria ?? []).filter((c) => !c.met)
+    if (params.verdict === "PASS" && failed.length > 0) {
+      throw new Error(`A PASS verdict cannot include unmet criteria: ${failed.map((c) => c.id).join(", ")}`)
+    }
+
+    const target = await SessionAudit.target(ctx.sessionID)
+    if (!target) throw new Error("audit_verdict can only be called from a child session spawned for an audit")
+
+    const verdict = await SessionAudit.record({
+      sessionID: target,
+      auditorSessionID: ctx.sessionID,
+      verdict: params.verdict,
+      summary: params.summary,
+      issues,
+      criteria: params.criteria ?? [],
+    })
+
+    // OpenCodeOrchestra: Keep the spec lifecycle in step with the audit result
+    const spec = await Spec.byOrchestrator(target)
+    if (spec?.status === "in_progress" && verdict.verdict === "PASS") await Spec.transition(spec.id, "audited")
+    if (spec?.status === "audited" && verdict.verdict === "FAIL") await Spec.transition(spec.id, "in_progress")
+
+    log.info("verdict recorded", { sessionID: target, verdict: verdict.verdict, issues: issues.length })
+
+    return {
+      title: `Audit ${verdict.verdict}`,
+      metadata: {
+        sessionID: target,
+        verdict: verdict.verdict,
+        issues: issues.length,
+      },
+      output: [
+        `Recorded ${verdict.verdict} verdict for session ${target}.`,
+        ...issues.map((i) => `- ${i.file}${i.line ? `:${i.line}` : ""}: ${i.description}`),
+      ].join("\n"),
+    }
+  },
+})
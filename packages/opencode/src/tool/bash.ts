@@ -1,6 +1,6 @@
 import z from "zod"
 import os from "os"
-import { spawn } from "child_process"
+import { spawn, type SpawnOptions } from "child_process"
 import { Tool } from "./tool"
 import path from "path"
 import DESCRIPTION from "./bash.txt"
@@ -15,6 +15,8 @@ import { Filesystem } from "@/util/filesystem"
 import { fileURLToPath } from "url"
 import { Flag } from "@/flag/flag.ts"
 import { Shell } from "@/shell/shell"
+import { Sandbox } from "@/shell/sandbox"
+import { Agent } from "@/agent/agent"
 
 import { BashArity } from "@/permission/arity"
 import { Truncate } from "./truncation"
@@ -166,15 +168,27 @@ export const BashTool = Tool.define("bash", async () => {
         })
       }
 
-      const proc = spawn(params.command, {
-        shell,
+      // OpenCodeOrchestra: agents with a sandbox policy run their commands under bwrap
+      const policy = await Agent.get(ctx.agent).then((agent) => agent?.sandbox)
+      const sandbox = policy
+        ? Sandbox.wrap(policy, {
+            shell,
+            command: params.command,
+            cwd,
+            root: Instance.project.vcs ? Instance.worktree : Instance.directory,
+          })
+        : undefined
+      const options: SpawnOptions = {
         cwd,
         env: {
           ...process.env,
         },
         stdio: ["ignore", "pipe", "pipe"],
         detached: process.platform !== "win32",
-      })
+      }
+      const proc = sandbox
+        ? spawn(sandbox.file, sandbox.args, options)
+        : spawn(params.command, { ...options, shell })
 
       let output = ""
 
@@ -262,6 +276,7 @@ export const BashTool = Tool.define("bash", async () => {
           output: output.length > MAX_METADATA_LENGTH ? output.slice(0, MAX_METADATA_LENGTH) + "\n\n..." : output,
           exit: proc.exitCode,
           description: params.description,
+          sandboxed: !!sandbox,
         },
         output,
       }
@@ -10,8 +10,11 @@ import { LSP } from "../lsp"
 import { createTwoFilesPatch, diffLines } from "diff"
 import DESCRIPTION from "./edit.txt"
 import { File } from "../file"
+import { Format } from "../format"
 import { Bus } from "../bus"
 import { FileTime } from "../file/time"
+import { SessionMarker } from "../session/marker"
+import { SessionDiagnostic } from "../session/diagnostic"
 import { Filesystem } from "../util/filesystem"
 import { Instance } from "../project/instance"
 import { Snapshot } from "@/snapshot"
@@ -42,6 +45,7 @@ export const EditTool = Tool.define("edit", {
 
     const filePath = path.isAbsolute(params.filePath) ? params.filePath : path.join(Instance.directory, params.filePath)
     await assertExternalDirectory(ctx, filePath)
+    const baseline = await SessionDiagnostic.baseline(ctx.sessionID, filePath)
 
     let diff = ""
     let contentOld = ""
@@ -91,6 +95,7 @@ export const EditTool = Tool.define("edit", {
       await file.write(contentNew)
       await Bus.publish(File.Event.Edited, {
         file: filePath,
+        lines: Format.changed(contentOld, contentNew),
       })
       contentNew = await file.text()
       diff = trimDiff(
@@ -99,6 +104,8 @@ export const EditTool = Tool.define("edit", {
       FileTime.read(ctx.sessionID, filePath)
     })
 
+    await SessionMarker.track({ sessionID: ctx.sessionID, file: filePath, before: contentOld, after: contentNew })
+
     const filediff: Snapshot.FileDiff = {
       file: filePath,
       before: contentOld,
@@ -131,12 +138,16 @@ export const EditTool = Tool.define("edit", {
         errors.length > MAX_DIAGNOSTICS_PER_FILE ? `\n... and ${errors.length - MAX_DIAGNOSTICS_PER_FILE} more` : ""
       output += `\n\nLSP errors detected in this file, please fix:\n<diagnostics file="${filePath}">\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</diagnostics>`
     }
+    // OpenCodeOrchestra: errors this edit introduced, tracked for the orchestrator subtree
+    const gate = await SessionDiagnostic.check({ sessionID: ctx.sessionID, baseline, diagnostics })
+    output += SessionDiagnostic.report(gate)
 
     return {
       metadata: {
         diagnostics,
         diff,
         filediff,
+        gate,
       },
       title: `${path.relative(Instance.worktree, filePath)}`,
       output,
@@ -0,0 +1,41 @@
+import { Tool } from "./tool"
+import z from "zod"
+import { SessionEscalation } from "../session/escalation"
+
+const parameters = z.object({
+  question: z.string().describe("The decision you need from the PM, phrased as a question"),
+  context: z
+    .string()
+    .optional()
+    .describe("What you found and why the spec does not settle it: files, constraints, trade-offs"),
+  options: z.array(SessionEscalation.Option).optional().describe("The options you propose, most recommended first"),
+})
+
+export const EscalateTool = Tool.define("escalate", {
+  description: `Escalate a question to the PM without ending your task.
+
+Use this when the spec needs a change or decision that the user cannot resolve in this session.
+Your work is suspended until the PM (or the user) answers; the answer is returned as this tool's result
+and you continue in the same session. Use finish_task instead when the task itself cannot continue.
+
+- question: the decision you need
+- context: what you found and why the spec does not settle it
+- options: the options you propose, most recommended first`,
+  parameters,
+  async execute(params: z.infer<typeof parameters>, ctx) {
+    ctx.metadata({ title: `Waiting for PM: ${params.question}` })
+    const answer = await SessionEscalation.raise({
+      sessionID: ctx.sessionID,
+      agent: ctx.agent,
+      question: params.question,
+      context: params.context,
+      options: params.options ?? [],
+      abort: ctx.abort,
+    })
+    return {
+      title: `Escalated: ${params.question}`,
+      metadata: { answer },
+      output: `The PM answered:\n\n${answer}`,
+    }
+  },
+})
@@ -2,6 +2,12 @@ import { Tool } from "./tool"
 import z from "zod"
 import { Session } from "../session"
 import { Log } from "../util/log"
+import { Spec } from "../spec"
+import { SessionAudit } from "../session/audit"
+import { Question } from "../question"
+import { SessionMarker } from "../session/marker"
+import { SessionDiagnostic } from "../session/diagnostic"
+import { SessionTaskLink } from "../session/task-link"
 
 const log = Log.create({ service: "finish-task" })
 
@@ -41,13 +47,79 @@ This tool is ONLY available to orchestrator agents (depth 1). Subagents (depth 2
         throw new Error("finish_task can only be called from a child session (orchestrator/subagent)")
       }
 
+      // OpenCodeOrchestra: "completed" requires a passing audit unless the user overrides
+      const audit = params.status === "completed" ? await SessionAudit.latest(ctx.sessionID) : undefined
+      const override = params.status === "completed" && audit?.verdict !== "PASS"
+      if (override) {
+        const reason = audit
+          ? `The latest audit verdict is FAIL: ${audit.summary}`
+          : "No audit verdict has been recorded for this task."
+        const [answer] = await Question.ask({
+          sessionID: ctx.sessionID,
+          questions: [
+            {
+              header: "Unaudited completion",
+              question: `${reason}\n\nReport the task to the PM as completed anyway?`,
+              options: [
+                { label: "Complete anyway", description: "Override the audit gate and finish the task" },
+                { label: "Keep working", description: "Return to the orchestrator to run or address the audit" },
+              ],
+              custom: false,
+            },
+          ],
+          tool: ctx.callID ? { messageID: ctx.messageID, callID: ctx.callID } : undefined,
+        }).catch((error) => {
+          if (error instanceof Question.RejectedError) return [] as Question.Answer[]
+          throw error
+        })
+        if (answer?.[0] !== "Complete anyway") {
+          throw new Error(
+            `${reason} Spawn the auditor and address its findings before calling finish_task with status "completed".`,
+          )
+        }
+      }
+
+      // OpenCodeOrchestra: Close out the spec this orchestrator was executing
+      const spec = await Spec.byOrchestrator(ctx.sessionID)
+      const specStatus = await (async () => {
+        if (!spec) return
+        if (params.status !== "completed") {
+          if (spec.status === "in_progress" || spec.status === "audited") {
+            return (await Spec.transition(spec.id, "failed")).status
+          }
+          return spec.status
+        }
+        if (spec.status === "audited") return (await Spec.transition(spec.id, "done")).status
+        if (override && spec.status === "in_progress") return (await Spec.override(spec.id)).status
+        return spec.status
+      })()
+
+      // OpenCodeOrchestra: Cleanup is expected to leave no @TODO markers behind
+      const markers = await SessionMarker.remaining(ctx.sessionID)
+      const leftover = markers.cleanup ? markers.markers : []
+
+      // OpenCodeOrchestra: Errors introduced by the subtree that are still present go to the PM with the result
+      const diagnostics = await SessionDiagnostic.outstanding(ctx.sessionID)
+
       log.info("finish_task completed", {
         parentSessionID: parentID,
         childSessionID: ctx.sessionID,
         status: params.status,
+        audit: audit?.verdict,
+        override,
+        markers: leftover.length,
+        diagnostics: diagnostics.length,
+      })
+
+      // OpenCodeOrchestra: Hand the result to the waiting task call, or deliver it to the parent after a restart
+      await SessionTaskLink.finish(parentID, ctx.sessionID, {
+        status: params.status,
+        summary: params.summary,
+        learnings: params.learnings,
+        diagnostics: diagnostics.length ? diagnostics.map(SessionDiagnostic.pretty) : undefined,
+        markers: leftover.length ? leftover.map((m) => `${m.file}:${m.line}: ${m.text}`) : undefined,
       })
 
-      // The tool result will be picked up by the Bus event listener in task.ts
       return {
         title: `Task ${params.status}: ${params.summary.slice(0, 50)}...`,
         metadata: {
@@ -56,8 +128,30 @@ This tool is ONLY available to orchestrator agents (depth 1). Subagents (depth 2
           status: params.status,
           summary: params.summary,
           learnings: params.learnings,
+          specID: spec?.id,
+          specStatus,
+          audit: audit?.verdict,
+          auditOverridden: override,
+          markers: leftover.length,
+          diagnostics: diagnostics.length,
         },
-        output: `Task ${params.status}. Control returned to parent agent.\n\nSummary: ${params.summary}`,
+        output: [
+          `Task ${params.status}. Control returned to parent agent.\n\nSummary: ${params.summary}`,
+          ...(override ? ["\nCompleted without a passing audit (overridden by the user)."] : []),
+          ...(spec ? [`\nSpec ${spec.id}: ${specStatus}`] : []),
+          ...(leftover.length
+            ? [
+                `\nWarning: ${leftover.length} @TODO marker(s) remain after Cleanup ran:`,
+                ...leftover.map((m) => `- ${m.file}:${m.line}: ${m.text}`),
+              ]
+            : []),
+          ...(diagnostics.length
+            ? [
+                `\nWarning: ${diagnostics.length} diagnostic(s) introduced in this task are still outstanding and were reported to the PM:`,
+                ...diagnostics.map((d) => `- ${SessionDiagnostic.pretty(d)}`),
+              ]
+            : []),
+        ].join("\n"),
       }
     },
   }
@@ -0,0 +1,264 @@
+import z from "zod"
+import * as path from "path"
+import * as fs from "fs/promises"
+import { Tool } from "./tool"
+import { LSP } from "../lsp"
+import { LSPEdit } from "../lsp/edit"
+import DESCRIPTION from "./lsp-edit.txt"
+import { Bus } from "../bus"
+import { File } from "../file"
+import { Format } from "../format"
+import { FileTime } from "../file/time"
+import { FileWatcher } from "../file/watcher"
+import { Instance } from "../project/instance"
+import { Filesystem } from "../util/filesystem"
+import { SessionMarker } from "../session/marker"
+import { SessionDiagnostic } from "../session/diagnostic"
+import type { LSPClient } from "../lsp/client"
+import { createTwoFilesPatch, diffLines } from "diff"
+import { pathToFileURL } from "url"
+import { assertExternalDirectory } from "./external-directory"
+import { trimDiff } from "./edit"
+
+const MAX_DIAGNOSTICS_PER_FILE = 20
+
+const operations = ["rename", "codeActions", "applyCodeAction", "format"] as const
+
+const parameters = z.object({
+  operation: z.enum(operations).describe("The LSP operation to perform"),
+  filePath: z.string().describe("The absolute or relative path to the file"),
+  line: z.number().int().min(1).optional().describe("The line number (1-based, as shown in editors)"),
+  character: z.number().int().min(1).optional().describe("The character offset (1-based, as shown in editors)"),
+  endLine: z.number().int().min(1).optional().describe("The end line of the range for code actions (1-based)"),
+  endCharacter: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("The end character of the range for code actions (1-based)"),
+  newName: z.string().optional().describe("The new name of the symbol, for rename"),
+  title: z.string().optional().describe("The exact title of the code action to apply, as listed by codeActions"),
+  kind: z.string().optional().describe('Only consider code actions of this kind, e.g. "source.organizeImports"'),
+})
+
+interface Metadata {
+  actions?: string[]
+  diff?: string
+  files?: {
+    filePath: string
+    relativePath: string
+    type: LSPEdit.Change["type"]
+    diff: string
+    before: string
+    after: string
+    additions: number
+    deletions: number
+  }[]
+  diagnostics?: Record<string, LSPClient.Diagnostic[]>
+  introduced?: SessionDiagnostic.Entry[]
+}
+
+function title(item: LSP.CodeActionItem) {
+  const kind = typeof item.action.command === "string" ? undefined : (item.action as { kind?: string }).kind
+  return `${kind ? `[${kind}] ` : ""}${item.action.title} (${item.serverID})`
+}
+
+/** Indentation used by the file, so formatting keeps it when the server has no configuration of its own. */
+function indentation(text: string) {
+  const lines = text.split("\n")
+  if (lines.some((line) => line.startsWith("\t"))) return { tabSize: 4, insertSpaces: false }
+  const sizes = lines.map((line) => line.match(/^ +(?=\S)/)?.[0].length ?? 0).filter((x) => x > 0)
+  return { tabSize: sizes.length ? Math.min(...sizes, 8) : 2, insertSpaces: true }
+}
+
+export const LspEditTool = Tool.define("lsp_edit", {
+  description: DESCRIPTION,
+  parameters,
+  async execute(args, ctx) {
+    const file = path.isAbsolute(args.filePath) ? args.filePath : path.join(Instance.directory, args.filePath)
+    await assertExternalDirectory(ctx, file)
+
+    const stats = await fs.stat(file).catch(() => undefined)
+    if (!stats) throw new Error(`File not found: ${file}`)
+    if (stats.isDirectory()) throw new Error(`Path is a directory, not a file: ${file}`)
+    if (!(await LSP.hasClients(file))) throw new Error("No LSP server available for this file type.")
+    const relPath = path.relative(Instance.worktree, file)
+
+    // the server must see the file as it is on disk before computing edits against it
+    await LSP.touchFile(file, true)
+
+    const range = await (async () => {
+      if (args.line === undefined) {
+        const lines = (await Bun.file(file).text()).split("\n")
+        return {
+          start: { line: 0, character: 0 },
+          end: { line: lines.length - 1, character: lines[lines.length - 1].length },
+        }
+      }
+      const start = { line: args.line - 1, character: (args.character ?? 1) - 1 }
+      if (args.endLine === undefined) return { start, end: start }
+      return { start, end: { line: args.endLine - 1, character: (args.endCharacter ?? 1) - 1 } }
+    })()
+
+    if (args.operation === "codeActions") {
+      const items = await LSP.codeActions({ file, range, only: args.kind ? [args.kind] : undefined })
+      const metadata: Metadata = { actions: items.map((x) => x.action.title) }
+      return {
+        title: `codeActions ${relPath}${args.line ? `:${args.line}` : ""}`,
+        metadata,
+        output: items.length
+          ? `Available code actions:\n${items.map((x, i) => `${i + 1}. ${title(x)}`).join("\n")}`
+          : "No code actions available",
+      }
+    }
+
+    const edits = await (async () => {
+      switch (args.operation) {
+        case "rename": {
+          if (args.line === undefined || args.character === undefined || !args.newName) {
+            throw new Error("rename requires line, character and newName")
+          }
+          return LSP.rename({ file, ...range.start, newName: args.newName })
+        }
+        case "applyCodeAction": {
+          if (!args.title) throw new Error("applyCodeAction requires the title of an action listed by codeActions")
+          const items = await LSP.codeActions({ file, range, only: args.kind ? [args.kind] : undefined })
+          const item = items.find((x) => x.action.title === args.title)
+          if (!item) {
+            throw new Error(
+              `No code action titled "${args.title}" at this location. Available: ${items.map((x) => JSON.stringify(x.action.title)).join(", ") || "none"}`,
+            )
+          }
+          return LSP.codeActionEdits({ file, item })
+        }
+        case "format": {
+          const text = await Bun.file(file).text()
+          const textEdits = await LSP.formatting({ file, ...indentation(text) })
+          return [{ changes: { [pathToFileURL(file).href]: textEdits } }]
+        }
+      }
+    })()
+    // codeActions returned above; any other operation must have produced a list of edits
+    if (!edits) throw new Error(`Unsupported operation: ${args.operation}`)
+
+    const changes = await LSPEdit.resolve(edits)
+    if (changes.length === 0) {
+      const metadata: Metadata = {}
+      return {
+        title: `${args.operation} ${relPath}`,
+        metadata,
+        output: `No changes from ${args.operation}`,
+      }
+    }
+
+    let totalDiff = ""
+    const files: NonNullable<Metadata["files"]> = []
+    for (const change of changes) {
+      await assertExternalDirectory(ctx, change.filePath)
+      const diff = trimDiff(createTwoFilesPatch(change.filePath, change.filePath, change.oldContent, change.newContent))
+      let additions = 0
+      let deletions = 0
+      for (const part of diffLines(change.oldContent, change.newContent)) {
+        if (part.added) additions += part.count || 0
+        if (part.removed) deletions += part.count || 0
+      }
+      files.push({
+        filePath: change.filePath,
+        relativePath: path.relative(Instance.worktree, change.filePath).replaceAll("\\", "/"),
+        type: change.type,
+        diff,
+        before: change.oldContent,
+        after: change.newContent,
+        additions,
+        deletions,
+      })
+      totalDiff += diff + "\n"
+    }
+
+    const relativePaths = changes.map((x) => path.relative(Instance.worktree, x.filePath))
+    await ctx.ask({
+      permission: "edit",
+      patterns: relativePaths,
+      always: ["*"],
+      metadata: {
+        filepath: relativePaths.join(", "),
+        diff: totalDiff,
+        files,
+      },
+    })
+
+    // OpenCodeOrchestra: diagnostics before the edit, to report only the errors it introduces
+    const baselines = new Map<string, SessionDiagnostic.Baseline | undefined>()
+    for (const change of changes) {
+      if (change.type === "delete") continue
+      baselines.set(change.filePath, await SessionDiagnostic.baseline(ctx.sessionID, change.filePath))
+    }
+
+    for (const change of changes) {
+      await FileTime.withLock(change.filePath, async () => {
+        if (change.type === "delete") {
+          await fs.unlink(change.filePath)
+          return
+        }
+        await fs.mkdir(path.dirname(change.filePath), { recursive: true })
+        await fs.writeFile(change.filePath, change.newContent, "utf-8")
+        await Bus.publish(File.Event.Edited, {
+          file: change.filePath,
+          lines: change.type === "add" ? undefined : Format.changed(change.oldContent, change.newContent),
+        })
+        FileTime.read(ctx.sessionID, change.filePath)
+      })
+      await SessionMarker.track({
+        sessionID: ctx.sessionID,
+        file: change.filePath,
+        before: change.oldContent,
+        after: change.newContent,
+      })
+      await Bus.publish(FileWatcher.Event.Updated, {
+        file: change.filePath,
+        event: change.type === "add" ? "add" : change.type === "delete" ? "unlink" : "change",
+      })
+    }
+
+    for (const change of changes) {
+      if (change.type === "delete") continue
+      await LSP.touchFile(change.filePath, true)
+    }
+    const diagnostics = await LSP.diagnostics()
+
+    const summary = changes.map((change) => {
+      const prefix = change.type === "add" ? "A" : change.type === "delete" ? "D" : "M"
+      return `${prefix} ${path.relative(Instance.worktree, change.filePath)}`
+    })
+    let output = `Applied ${args.operation}. Updated the following files:\n${summary.join("\n")}`
+
+    for (const change of changes) {
+      if (change.type === "delete") continue
+      const errors = (diagnostics[Filesystem.normalizePath(change.filePath)] ?? []).filter((x) => x.severity === 1)
+      if (errors.length === 0) continue
+      const limited = errors.slice(0, MAX_DIAGNOSTICS_PER_FILE)
+      const suffix =
+        errors.length > MAX_DIAGNOSTICS_PER_FILE ? `\n... and ${errors.length - MAX_DIAGNOSTICS_PER_FILE} more` : ""
+      output += `\n\nLSP errors detected in ${path.relative(Instance.worktree, change.filePath)}, please fix:\n<diagnostics file="${change.filePath}">\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</diagnostics>`
+    }
+    const gates = []
+    for (const baseline of baselines.values()) {
+      const gate = await SessionDiagnostic.check({ sessionID: ctx.sessionID, baseline, diagnostics })
+      if (!gate) continue
+      gates.push(gate)
+      output += SessionDiagnostic.report(gate)
+    }
+
+    const metadata: Metadata = {
+      diff: totalDiff,
+      files,
+      diagnostics,
+      introduced: gates.flatMap((x) => x.introduced),
+    }
+    return {
+      title: `${args.operation} ${relPath}`,
+      metadata,
+      output,
+    }
+  },
+})
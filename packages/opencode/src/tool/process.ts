@@ -0,0 +1,167 @@
+import z from "zod"
+import path from "path"
+import { Tool } from "./tool"
+import { Instance } from "../project/instance"
+import { SessionProcess } from "../session/process"
+import { Shell } from "@/shell/shell"
+import { Sandbox } from "@/shell/sandbox"
+import { Agent } from "@/agent/agent"
+import { BashArity } from "@/permission/arity"
+
+const MAX_WAIT = 10 * 60 * 1000
+
+function format(info: SessionProcess.Info) {
+  const status =
+    info.status === "running" ? "running" : `exited${info.exitCode !== undefined ? ` (${info.exitCode})` : ""}`
+  return `${info.id} [${status}] ${info.command} (cwd: ${info.cwd})`
+}
+
+export const ProcessStartTool = Tool.define("process_start", {
+  description: `Start a long-running command in the background, such as a dev server, watcher or REPL.
+
+Unlike bash, the command is not subject to a timeout and keeps running after this call returns.
+Use process_output to read its output (optionally waiting for a pattern such as "ready"),
+process_input to type into it and process_kill to stop it. Processes belong to the current session
+and are killed when its task finishes or the session is deleted or archived.
+
+Use bash for commands that finish on their own.`,
+  parameters: z.object({
+    command: z.string().describe("The command to start"),
+    workdir: z
+      .string()
+      .optional()
+      .describe("The working directory to run the command in. Defaults to the current directory."),
+    description: z.string().describe("Clear, concise description of what this process is for in 5-10 words"),
+  }),
+  async execute(params, ctx) {
+    const cwd = params.workdir ? path.resolve(Instance.directory, params.workdir) : Instance.directory
+    if (!Instance.containsPath(cwd)) {
+      await ctx.ask({
+        permission: "external_directory",
+        patterns: [cwd],
+        always: [path.dirname(cwd) + "*"],
+        metadata: {},
+      })
+    }
+    await ctx.ask({
+      permission: "bash",
+      patterns: [params.command],
+      always: [BashArity.prefix(params.command.split(/\s+/)).join(" ") + "*"],
+      metadata: {},
+    })
+
+    // same isolation as the agent's bash commands
+    const shell = Shell.acceptable()
+    const policy = await Agent.get(ctx.agent).then((agent) => agent?.sandbox)
+    const sandbox = policy
+      ? Sandbox.wrap(policy, {
+          shell,
+          command: params.command,
+          cwd,
+          root: Instance.project.vcs ? Instance.worktree : Instance.directory,
+        })
+      : undefined
+    const info = await SessionProcess.start({
+      sessionID: ctx.sessionID,
+      command: sandbox?.file ?? shell,
+      args: sandbox?.args ?? ["-c", params.command],
+      cwd,
+      title: params.command,
+    })
+    return {
+      title: params.description,
+      metadata: { id: info.id, sandboxed: !!sandbox },
+      output: `Started ${format(info)}`,
+    }
+  },
+})
+
+export const ProcessOutputTool = Tool.define("process_output", {
+  description: `Read the output a background process produced since the last read.
+
+- id: the process ID returned by process_start
+- until: optional regular expression; waits until the new output matches it, the process exits or the timeout passes
+- timeout: how long to wait for "until" in milliseconds (default 30000, max 600000)`,
+  parameters: z.object({
+    id: z.string().describe("The process ID"),
+    until: z.string().optional().describe("Regular expression to wait for in the new output"),
+    timeout: z.number().int().positive().optional().describe("Maximum time to wait for until, in milliseconds"),
+  }),
+  async execute(params, ctx) {
+    let until: RegExp | undefined
+    if (params.until) {
+      try {
+        until = new RegExp(params.until, "m")
+      } catch (e) {
+        throw new Error(`Invalid until pattern: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }
+    const result = await SessionProcess.read({
+      sessionID: ctx.sessionID,
+      id: params.id,
+      until,
+      timeout: Math.min(params.timeout ?? 30_000, MAX_WAIT),
+      abort: ctx.abort,
+    })
+    const notes = [format(result.info)]
+    if (result.matched === false) notes.push(`Pattern ${params.until} did not appear`)
+    if (result.skipped) notes.push(`${result.skipped} earlier characters were discarded`)
+    return {
+      title: params.id,
+      metadata: { status: result.info.status, matched: result.matched },
+      output: [result.output || "(no new output)", "", "<process_metadata>", ...notes, "</process_metadata>"].join(
+        "\n",
+      ),
+    }
+  },
+})
+
+export const ProcessInputTool = Tool.define("process_input", {
+  description: `Type input into a background process, as if entered in its terminal.
+A newline is sent after the input unless submit is false. Use process_output afterwards to read the response.`,
+  parameters: z.object({
+    id: z.string().describe("The process ID"),
+    input: z.string().describe("The text to send"),
+    submit: z.boolean().optional().describe("Press enter after the input (default: true)"),
+  }),
+  async execute(params, ctx) {
+    SessionProcess.write({
+      sessionID: ctx.sessionID,
+      id: params.id,
+      data: params.submit === false ? params.input : params.input + "\r",
+    })
+    return {
+      title: params.id,
+      metadata: {},
+      output: "Input sent.",
+    }
+  },
+})
+
+export const ProcessKillTool = Tool.define("process_kill", {
+  description: "Stop a background process started with process_start.",
+  parameters: z.object({
+    id: z.string().describe("The process ID"),
+  }),
+  async execute(params, ctx) {
+    const info = await SessionProcess.kill({ sessionID: ctx.sessionID, id: params.id })
+    return {
+      title: params.id,
+      metadata: {},
+      output: `Stopped ${format(info)}`,
+    }
+  },
+})
+
+export const ProcessListTool = Tool.define("process_list", {
+  description: "List the background processes of the current session.",
+  parameters: z.object({}),
+  async execute(_params, ctx) {
+    const processes = SessionProcess.list(ctx.sessionID)
+    return {
+      title: `${processes.filter((x) => x.status === "running").length} running`,
+      metadata: {},
+      output: processes.length ? processes.map(format).join("\n") : "No background processes.",
+    }
+  },
+})
@@ -1,95 +1,10 @@
 import { Tool } from "./tool"
 import z from "zod"
 import { Log } from "../util/log"
-import { Instance } from "../project/instance"
-import { Lock } from "../util/lock"
-import path from "path"
-import fs from "fs/promises"
+import { ProjectMemory } from "../project/memory"
 
 const log = Log.create({ service: "project-state" })
 
-/**
- * Project State schema - persisted for cross-session PM memory
- */
-export const ProjectStateSchema = z.object({
-  objectives: z.array(z.string()).default([]),
-  decisions: z.array(z.object({
-    decision: z.string(),
-    rationale: z.string(),
-    timestamp: z.string(),
-  })).default([]),
-  learnings: z.array(z.object({
-    topic: z.string(),
-    insight: z.string(),
-  })).default([]),
-  todos: z.array(z.object({
-    id: z.string(),
-    task: z.string(),
-    status: z.enum(["pending", "in_progress", "completed", "cancelled"]),
-    priority: z.enum(["high", "medium", "low"]),
-  })).default([]),
-  lastUpdated: z.string().optional(),
-})
-
-export type ProjectState = z.infer<typeof ProjectStateSchema>
-
-const projectStateSectionSchema = z.enum(["objectives", "decisions", "learnings", "todos"])
-
-/**
- * Project State storage namespace
- */
-export namespace ProjectStateStorage {
-  function getStateFile(projectRoot: string): string {
-    return path.join(projectRoot, ".opencode", "project-state.json")
-  }
-
-  export async function read(projectRoot: string): Promise<ProjectState> {
-    const stateFile = getStateFile(projectRoot)
-    try {
-      using _ = await Lock.read(stateFile)
-      const file = Bun.file(stateFile)
-      if (!(await file.exists())) {
-        log.info("no existing project state, returning defaults", { projectRoot })
-        return ProjectStateSchema.parse({})
-      }
-      const data = await file.json()
-      log.info("read project state", { projectRoot })
-      return ProjectStateSchema.parse(data)
-    } catch (e) {
-      throw e
-    }
-  }
-
-  export async function write(projectRoot: string, state: Partial<ProjectState>): Promise<ProjectState> {
-    const stateFile = getStateFile(projectRoot)
-    const dir = path.dirname(stateFile)
-    await fs.mkdir(dir, { recursive: true })
-    using _ = await Lock.write(stateFile)
-    const file = Bun.file(stateFile)
-    const existing = (await file.exists()) ? ProjectStateSchema.parse(await file.json()) : ProjectStateSchema.parse({})
-    const updated: ProjectState = {
-      objectives: state.objectives ?? existing.objectives,
-      decisions: state.decisions ?? existing.decisions,
-      learnings: state.learnings ?? existing.learnings,
-      todos: state.todos ?? existing.todos,
-      lastUpdated: new Date().toISOString(),
-    }
-    await Bun.write(stateFile, JSON.stringify(updated, null, 2))
-    log.info("wrote project state", { projectRoot })
-    return updated
-  }
-}
-
-/**
- * Get project root directory for state storage
- */
-function getProjectRoot(): string {
-  if (Instance.project.vcs && Instance.worktree !== "/") {
-    return Instance.worktree
-  }
-  return Instance.directory
-}
-
 /**
  * Check if current session is PM (depth 0)
  */
@@ -107,7 +22,7 @@ async function isPM(ctx: { sessionID: string }): Promise<boolean> {
 export const ProjectStateReadTool = Tool.define("project_state_read", async (ctx) => {
   const readParameters = z.object({
     section: z
-      .union([projectStateSectionSchema, z.array(projectStateSectionSchema)])
+      .union([ProjectMemory.Section, z.array(ProjectMemory.Section)])
       .optional()
       .describe("Optional section(s) to return. If omitted, returns full state."),
   })
@@ -122,6 +37,8 @@ Returns:
 - decisions: Important decisions with rationale
 - learnings: Insights from codebase exploration
 - todos: Task items and their status
+- history: Summaries of finished tasks
+- preferences: User preferences learned over time, by key
 
 Use this at session start to restore context from previous sessions.`,
     parameters: readParameters,
@@ -132,9 +49,9 @@ Use this at session start to restore context from previous sessions.`,
         throw new Error("project_state_read is PM-only (depth 0). Subagents cannot access project state.")
       }
 
-      const projectRoot = getProjectRoot()
-      const state = await ProjectStateStorage.read(projectRoot)
-      const stateFile = path.join(projectRoot, ".opencode", "project-state.json")
+      const projectRoot = ProjectMemory.root()
+      const state = await ProjectMemory.read(projectRoot)
+      const stateFile = ProjectMemory.file(projectRoot)
 
       let outputState: Record<string, unknown>
       if (params.section) {
@@ -163,58 +80,11 @@ Use this at session start to restore context from previous sessions.`,
 // ============================================================================
 
 const writeParameters = z.object({
-  objectives: z
-    .array(z.string())
-    .optional()
-    .describe("Current goals/objectives. Replaces existing objectives."),
-  decisions: z
-    .array(z.object({
-      decision: z.string().describe("The decision made"),
-      rationale: z.string().describe("Why this decision was made"),
-      timestamp: z.string().describe("When the decision was made (ISO format)"),
-    }))
-    .optional()
-    .describe("Important decisions with rationale. Replaces existing decisions."),
-  learnings: z
-    .array(z.object({
-      topic: z.string().describe("Topic or area of the learning"),
-      insight: z.string().describe("The insight or knowledge gained"),
-    }))
-    .optional()
-    .describe("Insights from codebase exploration. Replaces existing learnings."),
-  todos: z
-    .array(z.object({
-      id: z.string().describe("Unique ID for the todo item"),
-      task: z.string().describe("Description of the task"),
-      status: z.enum(["pending", "in_progress", "completed", "cancelled"]).describe("Current status"),
-      priority: z.enum(["high", "medium", "low"]).describe("Priority level"),
-    }))
-    .optional()
-    .describe("Task items and progress. Replaces existing todos."),
-  addDecisions: z
-    .array(z.object({
-      decision: z.string().describe("The decision made"),
-      rationale: z.string().describe("Why this decision was made"),
-      timestamp: z.string().describe("When the decision was made (ISO format)"),
-    }))
-    .optional()
-    .describe("Append new decisions without replacing existing ones."),
-  addLearnings: z
-    .array(z.object({
-      topic: z.string().describe("Topic or area of the learning"),
-      insight: z.string().describe("The insight or knowledge gained"),
-    }))
-    .optional()
-    .describe("Append new learnings without replacing existing ones."),
-  addTodos: z
-    .array(z.object({
-      id: z.string().describe("Unique ID for the todo item"),
-      task: z.string().describe("Description of the task"),
-      status: z.enum(["pending", "in_progress", "completed", "cancelled"]).describe("Current status"),
-      priority: z.enum(["high", "medium", "low"]).describe("Priority level"),
-    }))
-    .optional()
-    .describe("Append new todos without replacing existing ones."),
+  append: ProjectMemory.Append.optional().describe("Entries to add. Existing entries are always kept."),
+  patch: ProjectMemory.Patch.optional().describe("Changes to existing todo items (by id) and preferences (by key)."),
+  remove: ProjectMemory.Remove.optional().describe(
+    "Entries to delete: objectives by text, todos by id, preferences by key.",
+  ),
 })
 
 export const ProjectStateWriteTool = Tool.define("project_state_write", async (ctx) => {
@@ -228,8 +98,10 @@ Use this to:
 - Record important decisions with rationale
 - Store learnings from codebase exploration
 - Manage TODO items and progress
+- Record summaries of finished tasks and user preferences
 
-Each field is optional - only provided fields will be updated.
+Sections are never replaced as a whole: append adds entries, patch changes existing todos and preferences,
+and remove deletes individual entries. Each entry is validated; an invalid field fails the whole write.
 This state persists across sessions.`,
     parameters: writeParameters,
     async execute(params: z.infer<typeof writeParameters>, ctx) {
@@ -239,28 +111,13 @@ This state persists across sessions.`,
         throw new Error("project_state_write is PM-only (depth 0). Subagents cannot modify project state.")
       }
 
-      const projectRoot = getProjectRoot()
-      const { addDecisions, addLearnings, addTodos, ...writeState } = params
-
-      if (addDecisions || addLearnings || addTodos) {
-        const current = await ProjectStateStorage.read(projectRoot)
-        if (addDecisions) {
-          writeState.decisions = [...(writeState.decisions ?? current.decisions), ...addDecisions]
-        }
-        if (addLearnings) {
-          writeState.learnings = [...(writeState.learnings ?? current.learnings), ...addLearnings]
-        }
-        if (addTodos) {
-          writeState.todos = [...(writeState.todos ?? current.todos), ...addTodos]
-        }
-      }
-
-      const updated = await ProjectStateStorage.write(projectRoot, writeState)
+      const projectRoot = ProjectMemory.root()
+      const updated = await ProjectMemory.update(projectRoot, params)
 
-      log.info("project_state_write executed", { 
-        projectRoot, 
+      log.info("project_state_write executed", {
+        projectRoot,
         sessionID: ctx.sessionID,
-        updatedFields: Object.keys(writeState).filter((k) => writeState[k as keyof typeof writeState] !== undefined),
+        operations: Object.keys(params).filter((k) => params[k as keyof typeof params] !== undefined),
       })
 
       return {
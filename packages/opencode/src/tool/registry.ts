@@ -1,12 +1,16 @@
 import { QuestionTool } from "./question"
 import { BashTool } from "./bash"
+import { ProcessStartTool, ProcessOutputTool, ProcessInputTool, ProcessKillTool, ProcessListTool } from "./process"
 import { EditTool } from "./edit"
 import { GlobTool } from "./glob"
 import { GrepTool } from "./grep"
 import { BatchTool } from "./batch"
 import { ReadTool } from "./read"
 import { TaskTool } from "./task"
+import { TaskGraphTool } from "./task-graph"
 import { FinishTaskTool } from "./finish-task"
+import { EscalateTool } from "./escalate"
+import { AuditVerdictTool } from "./audit-verdict"
 import { TodoWriteTool, TodoReadTool } from "./todo"
 import { WebFetchTool } from "./webfetch"
 import { WriteTool } from "./write"
@@ -25,10 +29,13 @@ import { CodeSearchTool } from "./codesearch"
 import { Flag } from "@/flag/flag"
 import { Log } from "@/util/log"
 import { LspTool } from "./lsp"
+import { LspEditTool } from "./lsp-edit"
 import { Truncate } from "./truncation"
 import { PlanExitTool, PlanEnterTool } from "./plan"
 import { ApplyPatchTool } from "./apply_patch"
 import { ProjectStateReadTool, ProjectStateWriteTool } from "./project-state"
+import { SpecReadTool, SpecWriteTool } from "./spec"
+import { ToolOutputTool } from "./tool-output"
 
 export namespace ToolRegistry {
   const log = Log.create({ service: "tool.registry" })
@@ -72,7 +79,7 @@ export namespace ToolRegistry {
             worktree: Instance.worktree,
           } as unknown as PluginToolContext
           const result = await def.execute(args as any, pluginCtx)
-          const out = await Truncate.output(result, {}, initCtx?.agent)
+          const out = await Truncate.output(result, { sessionID: ctx.sessionID, tool: id }, initCtx?.agent)
           return {
             title: "",
             output: out.truncated ? out.content : result,
@@ -101,15 +108,26 @@ export namespace ToolRegistry {
       InvalidTool,
       ...(["app", "cli", "desktop"].includes(Flag.OPENCODE_CLIENT) ? [QuestionTool] : []),
       BashTool,
+      ProcessStartTool,
+      ProcessOutputTool,
+      ProcessInputTool,
+      ProcessKillTool,
+      ProcessListTool,
       ReadTool,
       GlobTool,
       GrepTool,
+      ToolOutputTool,
       EditTool,
       WriteTool,
       TaskTool,
+      TaskGraphTool,
       FinishTaskTool,
+      EscalateTool,
+      AuditVerdictTool,
       ProjectStateReadTool,
       ProjectStateWriteTool,
+      SpecReadTool,
+      SpecWriteTool,
       WebFetchTool,
       TodoWriteTool,
       TodoReadTool,
@@ -117,7 +135,7 @@ export namespace ToolRegistry {
       CodeSearchTool,
        SkillTool,
        ApplyPatchTool,
-       ...(Flag.OPENCODE_EXPERIMENTAL_LSP_TOOL ? [LspTool] : []),
+       ...(Flag.OPENCODE_EXPERIMENTAL_LSP_TOOL ? [LspTool, LspEditTool] : []),
        ...(config.experimental?.batch_tool === true ? [BatchTool] : []),
        ...(Flag.OPENCODE_EXPERIMENTAL_PLAN_MODE && Flag.OPENCODE_CLIENT === "cli" ? [PlanExitTool, PlanEnterTool] : []),
        ...custom,
@@ -150,8 +168,11 @@ export namespace ToolRegistry {
           if (t.id === "apply_patch") return usePatch
           if (t.id === "edit" || t.id === "write") return !usePatch
 
-          // Project state tools are PM-only; omit from subagent tool schemas.
-          if ((t.id === "project_state_read" || t.id === "project_state_write") && agent?.mode === "subagent") {
+          // Project state and spec drafting tools are PM-only; omit from subagent tool schemas.
+          if (
+            (t.id === "project_state_read" || t.id === "project_state_write" || t.id === "spec_write") &&
+            agent?.mode === "subagent"
+          ) {
             return false
           }
 
@@ -0,0 +1,140 @@
+import { Tool } from "./tool"
+import z from "zod"
+import { Spec } from "../spec"
+import { Session } from "../session"
+import { Question } from "../question"
+import { Log } from "../util/log"
+
+const log = Log.create({ service: "spec-tool" })
+
+// ============================================================================
+// SPEC_READ Tool
+// ============================================================================
+
+const readParameters = z.object({
+  spec_id: z.string().optional().describe("The spec to read. If omitted, lists all specs with their status."),
+})
+
+interface Metadata {
+  specID?: string
+  status?: Spec.Status
+}
+
+export const SpecReadTool = Tool.define("spec_read", {
+  description: `Read specs from the project spec store (.opencode/specs/).
+
+Without spec_id, lists every spec with its id, title and status.
+With spec_id, returns the full spec including acceptance criteria and test cases.
+
+Spec lifecycle: draft → approved → in_progress → audited → done / failed.`,
+  parameters: readParameters,
+  async execute(params: z.infer<typeof readParameters>) {
+    if (params.spec_id) {
+      const spec = await Spec.get(params.spec_id)
+      const metadata: Metadata = { specID: spec.id, status: spec.status }
+      return {
+        title: spec.title,
+        metadata,
+        output: [Spec.format(spec), ...(spec.feedback ? ["", `Rejection feedback: ${spec.feedback}`] : [])].join("\n"),
+      }
+    }
+    const specs = await Spec.list()
+    const metadata: Metadata = {}
+    return {
+      title: `${specs.length} specs`,
+      metadata,
+      output: specs.length
+        ? specs.map((s) => `${s.id} [${s.status}] ${s.title}`).join("\n")
+        : "No specs have been drafted yet.",
+    }
+  },
+})
+
+// ============================================================================
+// SPEC_WRITE Tool
+// ============================================================================
+
+const writeParameters = z.object({
+  spec_id: z.string().optional().describe("Revise an existing draft spec. If omitted, a new draft is created."),
+  title: z.string().optional().describe("Short title of the spec. Required for new specs."),
+  objective: z.string().optional().describe("What the work must achieve. Required for new specs."),
+  scope: z.string().optional().describe("What is in and out of scope"),
+  criteria: z.array(Spec.Criterion).optional().describe("Acceptance criteria. Replaces existing criteria."),
+  tests: z.array(Spec.TestCase).optional().describe("Test cases. Replaces existing test cases."),
+  request_approval: z
+    .boolean()
+    .optional()
+    .describe("Ask the user to approve the spec after writing it. Defaults to true."),
+})
+
+export const SpecWriteTool = Tool.define("spec_write", {
+  description: `Draft or revise a spec. This tool is ONLY available to PM (depth 0).
+
+A spec is the contract handed to an orchestrator: an objective, acceptance criteria and test cases.
+Orchestrators can only be spawned with the id of an approved spec (task tool spec_id parameter).
+
+By default the user is asked to approve the spec after it is written. If the user rejects it,
+the spec stays a draft and the feedback is returned so you can revise it.`,
+  parameters: writeParameters,
+  async execute(params: z.infer<typeof writeParameters>, ctx) {
+    const session = await Session.get(ctx.sessionID)
+    if (session.parentID) {
+      throw new Error("spec_write is PM-only (depth 0). Subagents cannot draft specs.")
+    }
+
+    const { spec_id, request_approval, ...draft } = params
+    const spec = await (async () => {
+      if (spec_id) return Spec.revise(spec_id, draft)
+      if (!draft.title || !draft.objective) throw new Error("title and objective are required for a new spec")
+      return Spec.create({
+        title: draft.title,
+        objective: draft.objective,
+        scope: draft.scope,
+        criteria: draft.criteria ?? [],
+        tests: draft.tests ?? [],
+        sessionID: ctx.sessionID,
+      })
+    })()
+    log.info("spec written", { specID: spec.id, sessionID: ctx.sessionID })
+
+    if (request_approval === false) {
+      return {
+        title: spec.title,
+        metadata: { specID: spec.id, status: spec.status },
+        output: `Spec ${spec.id} saved as ${spec.status}. The user must approve it before an orchestrator can execute it.`,
+      }
+    }
+
+    const [answer] = await Question.ask({
+      sessionID: ctx.sessionID,
+      questions: [
+        {
+          header: "Approve spec",
+          question: [`Approve spec "${spec.title}" (${spec.id}) for execution?`, "", Spec.format(spec)].join("\n"),
+          options: [
+            { label: "Approve", description: "The spec is ready to be executed by an orchestrator" },
+            { label: "Reject", description: "Send the spec back to the PM for revision" },
+          ],
+        },
+      ],
+      tool: ctx.callID ? { messageID: ctx.messageID, callID: ctx.callID } : undefined,
+    })
+
+    if (answer?.[0] === "Approve") {
+      const approved = await Spec.approve(spec.id)
+      return {
+        title: spec.title,
+        metadata: { specID: approved.id, status: approved.status },
+        output: `Spec ${approved.id} approved by the user. Pass spec_id="${approved.id}" to the task tool when spawning the orchestrator.`,
+      }
+    }
+
+    const feedback = answer?.[0] && answer[0] !== "Reject" ? answer[0] : undefined
+    const rejected = await Spec.reject(spec.id, feedback)
+    return {
+      title: spec.title,
+      metadata: { specID: rejected.id, status: rejected.status },
+      output: `The user rejected spec ${rejected.id}.${feedback ? `\n\nFeedback: ${feedback}` : ""}\n\nRevise the draft with spec_write and spec_id="${rejected.id}".`,
+    }
+  },
+})
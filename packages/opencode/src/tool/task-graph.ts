@@ -0,0 +1,291 @@
+import { Tool } from "./tool"
+import DESCRIPTION from "./task-graph.txt"
+import z from "zod"
+import { TaskTool } from "./task"
+import { Agent } from "../agent/agent"
+import { Config } from "../config/config"
+import { SessionHierarchy } from "../session/hierarchy"
+import { calculateDepth } from "../session/depth"
+import { PermissionNext } from "@/permission/next"
+import { Log } from "../util/log"
+
+const log = Log.create({ service: "task-graph" })
+
+export namespace TaskGraph {
+  export const DEFAULT_CONCURRENCY = 4
+
+  export const Node = z.object({
+    id: z.string().min(1).describe("Unique identifier of this node within the graph"),
+    description: z.string().describe("A short (3-5 words) description of the task"),
+    prompt: z.string().describe("The task for the agent to perform"),
+    subagent_type: z.string().describe("The type of specialized agent to use for this task"),
+    depends_on: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Ids of the nodes that must complete before this node starts. Their results are appended to the prompt",
+      ),
+    budget: Config.Budget.optional().describe("Spend limits for this node and every subagent it spawns"),
+  })
+  export type Node = z.infer<typeof Node>
+
+  export type Status = "pending" | "running" | "completed" | "failed" | "skipped"
+
+  export interface Result {
+    id: string
+    status: Extract<Status, "completed" | "failed" | "skipped">
+    title?: string
+    output: string
+    sessionID?: string
+  }
+
+  /**
+   * Validates node ids and dependencies and returns the nodes in dependency order.
+   * Throws on duplicate ids, unknown dependencies and cycles.
+   */
+  export function sort(nodes: Node[]): Node[] {
+    const byID = new Map<string, Node>()
+    for (const node of nodes) {
+      if (byID.has(node.id)) throw new Error(`Duplicate task graph node id: ${node.id}`)
+      byID.set(node.id, node)
+    }
+    for (const node of nodes) {
+      for (const dep of node.depends_on ?? []) {
+        if (dep === node.id) throw new Error(`Task graph node ${node.id} depends on itself`)
+        if (!byID.has(dep)) throw new Error(`Task graph node ${node.id} depends on unknown node ${dep}`)
+      }
+    }
+
+    const remaining = new Map(nodes.map((node) => [node.id, new Set(node.depends_on ?? [])]))
+    const sorted: Node[] = []
+    while (remaining.size > 0) {
+      const ready = [...remaining.entries()].filter(([, deps]) => deps.size === 0).map(([id]) => id)
+      if (ready.length === 0) {
+        throw new Error(`Task graph contains a dependency cycle between: ${[...remaining.keys()].join(", ")}`)
+      }
+      for (const id of ready) {
+        remaining.delete(id)
+        sorted.push(byID.get(id)!)
+        for (const deps of remaining.values()) deps.delete(id)
+      }
+    }
+    return sorted
+  }
+
+  /**
+   * Runs every node once its dependencies completed, keeping at most `concurrency` nodes running.
+   * Nodes whose dependencies failed or were skipped are skipped. Results are returned in dependency order.
+   */
+  export async function run(input: {
+    nodes: Node[]
+    concurrency: number
+    abort: AbortSignal
+    execute: (node: Node, dependencies: Result[]) => Promise<{ title?: string; output: string; sessionID?: string }>
+    onUpdate?: (status: Record<string, Status>) => void
+  }): Promise<Result[]> {
+    const order = sort(input.nodes)
+    const concurrency = Math.max(1, input.concurrency)
+    const results = new Map<string, Result>()
+    const running = new Map<string, Promise<void>>()
+    let pending = [...order]
+
+    const update = () => {
+      if (!input.onUpdate) return
+      const status: Record<string, Status> = {}
+      for (const node of order) {
+        status[node.id] = results.get(node.id)?.status ?? (running.has(node.id) ? "running" : "pending")
+      }
+      input.onUpdate(status)
+    }
+
+    const skip = (node: Node, reason: string) => {
+      results.set(node.id, { id: node.id, status: "skipped", output: reason })
+    }
+
+    while (pending.length > 0 || running.size > 0) {
+      // pending is in dependency order, so a skip cascades to dependents within the same pass
+      for (const node of pending) {
+        const blocked = (node.depends_on ?? []).find((dep) => {
+          const result = results.get(dep)
+          return result && result.status !== "completed"
+        })
+        if (blocked) skip(node, `Skipped because dependency ${blocked} ${results.get(blocked)!.status}`)
+      }
+      pending = pending.filter((node) => !results.has(node.id))
+
+      if (input.abort.aborted) {
+        for (const node of pending) skip(node, "Skipped because the task graph was aborted")
+        pending = []
+      }
+
+      for (const node of [...pending]) {
+        if (running.size >= concurrency) break
+        const deps = node.depends_on ?? []
+        if (!deps.every((dep) => results.get(dep)?.status === "completed")) continue
+        pending = pending.filter((item) => item !== node)
+        const promise = input
+          .execute(
+            node,
+            deps.map((dep) => results.get(dep)!),
+          )
+          .then((result) => {
+            results.set(node.id, { id: node.id, status: "completed", ...result })
+          })
+          .catch((error) => {
+            log.error("node failed", { id: node.id, error })
+            results.set(node.id, {
+              id: node.id,
+              status: "failed",
+              output: error instanceof Error ? error.message : String(error),
+            })
+          })
+          .finally(() => {
+            running.delete(node.id)
+          })
+        running.set(node.id, promise)
+      }
+      update()
+
+      if (running.size === 0) break
+      await Promise.race(running.values())
+    }
+
+    update()
+    return order.map(
+      (node) =>
+        results.get(node.id) ?? { id: node.id, status: "skipped", output: "Skipped because it never became ready" },
+    )
+  }
+
+  export function prompt(node: Node, dependencies: Result[]) {
+    if (dependencies.length === 0) return node.prompt
+    return [
+      node.prompt,
+      "",
+      "<dependency_results>",
+      ...dependencies.map((dep) => [`<result id="${dep.id}">`, dep.output, "</result>"].join("\n")),
+      "</dependency_results>",
+    ].join("\n")
+  }
+}
+
+const parameters = z.object({
+  nodes: z.array(TaskGraph.Node).min(1).describe("The tasks to run and their dependencies"),
+  concurrency: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of tasks to run at the same time. Capped by the configured limit"),
+})
+
+export const TaskGraphTool = Tool.define("task_graph", async (initCtx) => {
+  const agents = await Agent.list().then((x) => x.filter((a) => a.mode !== "primary"))
+  const caller = initCtx?.agent
+  const accessibleAgents = caller
+    ? agents.filter((a) => PermissionNext.evaluate("task", a.name, caller.permission).action !== "deny")
+    : agents
+
+  const description = DESCRIPTION.replace(
+    "{agents}",
+    accessibleAgents
+      .map((a) => `- ${a.name}: ${a.description ?? "This subagent should only be called manually by the user."}`)
+      .join("\n"),
+  )
+
+  return {
+    description,
+    parameters,
+    async execute(params: z.infer<typeof parameters>, ctx) {
+      const config = await Config.get()
+      const limit = config.experimental?.task_concurrency ?? TaskGraph.DEFAULT_CONCURRENCY
+      const concurrency = Math.min(params.concurrency ?? limit, limit)
+      // validate before spawning anything so a bad graph fails without side effects
+      TaskGraph.sort(params.nodes)
+      // persistent agents block until finish_task and are linked to their own task call, which a node does not have
+      const depth = await calculateDepth(ctx.sessionID)
+      const hierarchy = await SessionHierarchy.get()
+      for (const node of params.nodes) {
+        const agent = await Agent.get(node.subagent_type)
+        if (!agent) throw new Error(`Unknown agent type: ${node.subagent_type} is not a valid agent type`)
+        const placed = SessionHierarchy.place(hierarchy, depth, agent.name)
+        if (!SessionHierarchy.singleShot(hierarchy, placed, agent.singleShot)) {
+          throw new Error(
+            `Task graph node ${node.id} would spawn ${agent.name}, which runs until finish_task. Spawn it with the task tool instead.`,
+          )
+        }
+      }
+
+      const task = await TaskTool.init(initCtx)
+      const progress: Record<string, { status: TaskGraph.Status; title?: string; sessionId?: string }> = {}
+      for (const node of params.nodes) progress[node.id] = { status: "pending", title: node.description }
+      const publish = () => {
+        const completed = Object.values(progress).filter((x) => x.status === "completed").length
+        ctx.metadata({
+          title: `Task graph (${completed}/${params.nodes.length} completed)`,
+          metadata: {
+            nodes: params.nodes.map((node) => ({ id: node.id, ...progress[node.id] })),
+          },
+        })
+      }
+
+      log.info("running task graph", { nodes: params.nodes.length, concurrency })
+      const results = await TaskGraph.run({
+        nodes: params.nodes,
+        concurrency,
+        abort: ctx.abort,
+        onUpdate(status) {
+          for (const [id, value] of Object.entries(status)) progress[id].status = value
+          publish()
+        },
+        async execute(node, dependencies) {
+          const result = await task.execute(
+            {
+              description: node.description,
+              prompt: TaskGraph.prompt(node, dependencies),
+              subagent_type: node.subagent_type,
+              budget: node.budget,
+            },
+            {
+              ...ctx,
+              metadata(input) {
+                progress[node.id].title = input.title ?? progress[node.id].title
+                progress[node.id].sessionId = input.metadata?.sessionId ?? progress[node.id].sessionId
+                publish()
+              },
+            },
+          )
+          return {
+            title: result.title,
+            output: result.output,
+            sessionID: result.metadata.sessionId,
+          }
+        },
+      })
+
+      const completed = results.filter((x) => x.status === "completed").length
+      return {
+        title: `Task graph (${completed}/${results.length} completed)`,
+        metadata: {
+          nodes: results.map((result) => ({
+            id: result.id,
+            status: result.status,
+            title: result.title ?? progress[result.id].title,
+            sessionId: result.sessionID ?? progress[result.id].sessionId,
+          })),
+        },
+        output: [
+          "<task_graph_result>",
+          ...results.map((result) =>
+            [
+              `<node id="${result.id}" status="${result.status}"${result.sessionID ? ` task_id="${result.sessionID}"` : ""}>`,
+              result.output,
+              "</node>",
+            ].join("\n"),
+          ),
+          "</task_graph_result>",
+        ].join("\n"),
+      }
+    },
+  }
+})
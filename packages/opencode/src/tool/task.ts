@@ -12,6 +12,15 @@ import { defer } from "@/util/defer"
 import { Config } from "../config/config"
 import { PermissionNext } from "@/permission/next"
 import { Log } from "../util/log"
+import { Spec } from "../spec"
+import { calculateDepth } from "../session/depth"
+import { SessionHierarchy } from "../session/hierarchy"
+import { SessionTaskLink } from "../session/task-link"
+import { SessionStatus } from "../session/status"
+import { SessionBudget } from "../session/budget"
+import { SessionEscalation } from "../session/escalation"
+import { SessionProcess } from "../session/process"
+import { SessionFailover } from "../session/failover"
 
 const log = Log.create({ service: "task" })
 
@@ -26,8 +35,25 @@ const parameters = z.object({
     )
     .optional(),
   command: z.string().describe("The command that triggered this task").optional(),
+  spec_id: z
+    .string()
+    .describe("The id of the approved spec the orchestrator should execute. Required when spawning an orchestrator")
+    .optional(),
+  budget: Config.Budget.optional().describe(
+    "Spend limits for this task and every subagent it spawns. Overrides the budget configured for the agent",
+  ),
 })
 
+type ToolStatus = "completed" | "error" | "pending" | "running"
+
+interface Metadata {
+  summary: { id: string; tool: string; state: { status: ToolStatus; title: string | undefined } }[]
+  sessionId: string
+  model: { modelID: string; providerID: string }
+  // pending escalation that ended the call early
+  escalation?: string
+}
+
 export const TaskTool = Tool.define("task", async (ctx) => {
   const agents = await Agent.list().then((x) => x.filter((a) => a.mode !== "primary"))
 
@@ -67,41 +93,18 @@ export const TaskTool = Tool.define("task", async (ctx) => {
 
       const hasTaskPermission = agent.permission.some((rule) => rule.permission === "task")
       
-      // OpenCodeOrchestra: Calculate current depth by traversing parentID chain
+      // OpenCodeOrchestra: Depth is cached on Session.Info (see session/depth.ts)
       // PM (depth 0) → Orchestrator (depth 1) → Subagent (depth 2+)
-      async function calculateDepth(sessionID: string): Promise<number> {
-        let depth = 0
-        let currentID: string | undefined = sessionID
-        while (currentID) {
-          const sess: Awaited<ReturnType<typeof Session.get>> | undefined = 
-            await Session.get(currentID).catch(() => undefined)
-          if (!sess?.parentID) break
-          currentID = sess.parentID
-          depth++
-        }
-        return depth
-      }
-      
       const currentDepth = await calculateDepth(ctx.sessionID)
-      // OpenCodeOrchestra: Depth hierarchy enforcement
-      // - PM (depth 0) spawns orchestrator → depth 1
-      // - PM (depth 0) spawns non-orchestrator → depth 2 (skip depth 1)
-      // - Orchestrator (depth 1) spawns anything → depth 2+
-      const childDepth = (() => {
-        if (currentDepth === 0 && params.subagent_type === "orchestrator") {
-          return 1 // Only orchestrator resides at depth 1
-        }
-        if (currentDepth === 0) {
-          return 2 // PM's non-orchestrator sub-agents skip to depth 2
-        }
-        return currentDepth + 1 // Normal increment for orchestrator's sub-agents
-      })()
-      
-      // OpenCodeOrchestra: Determine completion mode based on agent config
-      // singleShot: true (default) → auto-return first response (subagents)
+      // OpenCodeOrchestra: Placement and completion mode come from the hierarchy policy (see session/hierarchy.ts)
+      // By default only orchestrator resides at depth 1, PM's other sub-agents skip to depth 2,
+      // and depth 2+ is ALWAYS singleShot regardless of agent config.
+      // singleShot: true → auto-return first response (subagents)
       // singleShot: false → wait for finish_task signal (orchestrators)
-      // ENFORCED: depth 2+ is ALWAYS singleShot regardless of agent config
-      const isSingleShot = childDepth >= 2 ? true : (agent.singleShot ?? true)
+      const hierarchy = await SessionHierarchy.get()
+      SessionHierarchy.assertSpawn(hierarchy, ctx.agent, agent.name)
+      const childDepth = SessionHierarchy.place(hierarchy, currentDepth, agent.name)
+      const isSingleShot = SessionHierarchy.singleShot(hierarchy, childDepth, agent.singleShot)
       
       log.info("spawning subagent", {
         agent: agent.name,
@@ -111,15 +114,36 @@ export const TaskTool = Tool.define("task", async (ctx) => {
         agentConfig: agent.singleShot,
       })
 
-      const session = await iife(async () => {
-        if (params.task_id) {
-          const found = await Session.get(params.task_id).catch(() => {})
-          if (found) return found
+      const resumed = params.task_id ? await Session.get(params.task_id).catch(() => undefined) : undefined
+
+      // OpenCodeOrchestra: Orchestrators only execute specs the user has approved. The role comes from the
+      // hierarchy: any persistent child runs until finish_task, whatever the agent is called. A resumed
+      // orchestrator keeps the spec it is executing and needs a new approved spec once that one is closed.
+      const spec = await iife(async () => {
+        if (isSingleShot) return
+        if (resumed) {
+          const current = await Spec.byOrchestrator(resumed.id)
+          if (current && (current.status === "in_progress" || current.status === "audited")) return
+        }
+        if (!params.spec_id) {
+          throw new Error(
+            "Spawning an orchestrator requires spec_id. Draft the spec with spec_write and get it approved by the user first.",
+          )
+        }
+        const found = await Spec.get(params.spec_id)
+        if (found.status !== "approved") {
+          throw new Error(`Spec ${found.id} is ${found.status}; only approved specs can be handed to an orchestrator.`)
         }
+        return found
+      })
+
+      const session = await iife(async () => {
+        if (resumed) return resumed
 
 return await Session.create({
           parentID: ctx.sessionID,
           agentID: agent.name, // OpenCodeOrchestra: Store agent type for subagent sessions
+          depth: childDepth,
           title: params.description + ` (@${agent.name} subagent)`,
           permission: [
             {
@@ -140,6 +164,11 @@ return await Session.create({
                     pattern: "*" as const,
                     action: "deny" as const,
                   },
+                  {
+                    permission: "task_graph" as const,
+                    pattern: "*" as const,
+                    action: "deny" as const,
+                  },
                 ]),
             ...(config.experimental?.primary_tools?.map((t) => ({
               pattern: "*",
@@ -149,6 +178,14 @@ return await Session.create({
           ],
         })
       })
+
+      // OpenCodeOrchestra: Cap spend across the task's whole subtree (see session/budget.ts)
+      if (resumed && !params.budget && (await SessionBudget.get(session.id))?.status === "stopped") {
+        throw new Error(`Task ${session.id} was stopped after exceeding its budget. Pass a new budget to resume it.`)
+      }
+      const budget = params.budget ?? (resumed ? undefined : agent.budget)
+      if (budget) await SessionBudget.create(session.id, budget)
+
       const msg = await MessageV2.get({ sessionID: ctx.sessionID, messageID: ctx.messageID })
       if (msg.info.role !== "assistant") throw new Error("Not an assistant message")
 
@@ -165,9 +202,8 @@ return await Session.create({
         },
       })
 
-      type ToolStatus = "completed" | "error" | "pending" | "running"
       const messageID = Identifier.ascending("message")
-      const parts: Record<string, { id: string; tool: string; state: { status: ToolStatus; title: string | undefined } }> = {}
+      const parts: Record<string, Metadata["summary"][number]> = {}
       const unsub = Bus.subscribe(MessageV2.Event.PartUpdated, async (evt) => {
         if (evt.properties.part.sessionID !== session.id) return
         if (evt.properties.part.messageID === messageID) return
@@ -196,7 +232,10 @@ return await Session.create({
       }
       ctx.abort.addEventListener("abort", cancel)
       using _ = defer(() => ctx.abort.removeEventListener("abort", cancel))
-      const promptParts = await SessionPrompt.resolvePromptParts(params.prompt)
+      if (spec) await Spec.transition(spec.id, "in_progress", { orchestratorID: session.id })
+      const promptParts = await SessionPrompt.resolvePromptParts(
+        spec ? [Spec.format(spec), "", params.prompt].join("\n") : params.prompt,
+      )
 
       // OpenCodeOrchestra: Handle based on singleShot mode
       if (isSingleShot) {
@@ -214,12 +253,14 @@ return await Session.create({
           tools: {
             todowrite: false,
             todoread: false,
-            ...(hasTaskPermission ? {} : { task: false }),
+            ...(hasTaskPermission ? {} : { task: false, task_graph: false }),
             ...Object.fromEntries((config.experimental?.primary_tools ?? []).map((t) => [t, false])),
           },
           parts: promptParts,
         })
         unsub()
+        // OpenCodeOrchestra: background processes do not outlive the task that started them
+        await SessionProcess.cleanup(session.id)
         
         const messages = await Session.messages({ sessionID: session.id })
         const summary = messages
@@ -234,91 +275,85 @@ return await Session.create({
             },
           }))
         const text = result.parts.findLast((x) => x.type === "text")?.text ?? ""
+        // OpenCodeOrchestra: Report the failover model when it answered instead of the requested one
+        const ran = SessionFailover.report(model, messages)
 
         const output = [
           `task_id: ${session.id} (for resuming to continue this task if needed)`,
+          ...(ran.note ? [ran.note] : []),
           "",
           "<task_result>",
           text,
           "</task_result>",
         ].join("\n")
 
+        const metadata: Metadata = {
+          summary,
+          sessionId: session.id,
+          model: ran.model,
+        }
         return {
           title: params.description,
-          metadata: {
-            summary,
-            sessionId: session.id,
-            model,
-          },
+          metadata,
           output,
         }
       } else {
         // Persistent mode (orchestrators): wait for finish_task signal
         log.info("executing persistent orchestrator", { agent: agent.name, sessionID: session.id })
         
-        // Result from finish_task tool (received via Bus event)
-        interface FinishTaskResult {
-          status: "completed" | "failed" | "cancelled"
-          summary: string
-          learnings?: string[]
-        }
-
-        // Set up finish_task listener
-        const finishTaskPromise = new Promise<FinishTaskResult>((resolve, reject) => {
-          const finishUnsub = Bus.subscribe(MessageV2.Event.PartUpdated, async (evt) => {
-            if (evt.properties.part.sessionID !== session.id) return
-            if (evt.properties.part.type !== "tool") return
-            if (evt.properties.part.tool !== "finish_task") return
-            if (evt.properties.part.state.status !== "completed") return
-            
-            log.info("finish_task signal received", { sessionID: session.id })
-            finishUnsub()
-            
-            // Get data from the tool's metadata (set by finish_task tool)
-            const part = evt.properties.part as MessageV2.ToolPart
-            const metadata = part.state.status === "completed" ? part.state.metadata : undefined
-            
-            resolve({
-              status: (metadata?.status as FinishTaskResult["status"]) ?? "completed",
-              summary: (metadata?.summary as string) ?? "Task completed",
-              learnings: metadata?.learnings as string[] | undefined,
-            })
-          })
-          
-          // Also reject on abort
-          ctx.abort.addEventListener("abort", () => {
-            finishUnsub()
-            reject(new Error("Task aborted"))
-          })
+        // OpenCodeOrchestra: Persist the link so the result still reaches this session if the process restarts
+        // before the orchestrator calls finish_task (see session/task-link.ts)
+        await SessionTaskLink.create({
+          sessionID: session.id,
+          parentID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          agent: agent.name,
+          description: params.description,
         })
+        const finishTaskPromise = SessionTaskLink.wait(session.id, ctx.abort)
+
+        // OpenCodeOrchestra: Resuming an orchestrator suspended in escalate answers it with the prompt
+        const escalation = resumed ? await SessionEscalation.pending(session.id) : undefined
+        if (escalation) await SessionEscalation.answer({ sessionID: session.id, answer: params.prompt })
 
         // Start the orchestrator prompt loop (fire and DON'T wait for completion)
         // The orchestrator will call finish_task when ready
-        SessionPrompt.prompt({
-          messageID,
-          sessionID: session.id,
-          model: {
-            modelID: model.modelID,
-            providerID: model.providerID,
-          },
-          agent: agent.name,
-          tools: {
-            todowrite: false,
-            todoread: false,
-            finish_task: true, // Enable finish_task for orchestrators
-            ...(hasTaskPermission ? {} : { task: false }),
-            // primary_tools (DCP: compress/distill/prune) intentionally NOT denied for depth-1 orchestrators
-          },
-          parts: promptParts,
-        }).catch((error) => {
-          log.error("orchestrator prompt failed", { error: String(error), sessionID: session.id })
-        })
+        // When reattaching to an orchestrator that is still working, the prompt is queued: its running loop
+        // picks the new message up after the current step instead of starting a second loop
+        if (!escalation) {
+          if (SessionStatus.get(session.id).type !== "idle") {
+            log.info("queueing prompt for busy orchestrator", { sessionID: session.id })
+          }
+          SessionPrompt.prompt({
+            messageID,
+            sessionID: session.id,
+            model: {
+              modelID: model.modelID,
+              providerID: model.providerID,
+            },
+            agent: agent.name,
+            tools: {
+              todowrite: false,
+              todoread: false,
+              finish_task: true, // Enable finish_task for orchestrators
+              ...(hasTaskPermission ? {} : { task: false, task_graph: false }),
+              // primary_tools (DCP: compress/distill/prune) intentionally NOT denied for depth-1 orchestrators
+            },
+            parts: promptParts,
+          }).catch((error) => {
+            log.error("orchestrator prompt failed", { error: String(error), sessionID: session.id })
+          })
+        }
 
         // Wait for finish_task signal
         log.info("waiting for finish_task signal", { sessionID: session.id })
-        const result = await finishTaskPromise
+        const outcome = await finishTaskPromise.catch(async (error) => {
+          await SessionTaskLink.remove(ctx.sessionID, session.id)
+          throw error
+        })
         unsub()
-        
+
         const messages = await Session.messages({ sessionID: session.id })
         const summary = messages
           .filter((x) => x.info.role === "assistant")
@@ -332,23 +367,34 @@ return await Session.create({
             },
           }))
 
-        return {
-          title: `${params.description} (${result.status})`,
-          metadata: {
+        // An escalation ends this call early; the link stays open so the eventual result is still delivered
+        if (outcome.type === "escalated") {
+          const metadata: Metadata = {
             summary,
             sessionId: session.id,
             model,
-          },
-          output: `[${result.status.toUpperCase()}] ${result.summary}` + 
-            (result.learnings?.length ? 
-              "\n\nLearnings:\n" + result.learnings.map(l => `- ${l}`).join("\n") : "") +
-            "\n\n" + [
-              `task_id: ${session.id} (for resuming to continue this task if needed)`,
-              "",
-              "<task_result>",
-              `[${result.status.toUpperCase()}] ${result.summary}`,
-              "</task_result>",
-            ].join("\n"),
+            escalation: outcome.escalation.id,
+          }
+          return {
+            title: `${params.description} (escalated)`,
+            metadata,
+            output: SessionEscalation.format(outcome.escalation),
+          }
+        }
+        await SessionTaskLink.remove(ctx.sessionID, session.id)
+        await SessionProcess.cleanup(session.id)
+        const result = outcome.result
+        const ran = SessionFailover.report(model, messages)
+
+        const metadata: Metadata = {
+          summary,
+          sessionId: session.id,
+          model: ran.model,
+        }
+        return {
+          title: `${params.description} (${result.status})`,
+          metadata,
+          output: [SessionTaskLink.format(session.id, result), ...(ran.note ? ["", ran.note] : [])].join("\n"),
         }
       }
     },
@@ -0,0 +1,219 @@
+import z from "zod"
+import { Tool } from "./tool"
+import { Truncate } from "./truncation"
+import { Session } from "../session"
+import DESCRIPTION from "./tool-output.txt"
+
+const MAX_LINE_LENGTH = 2000
+const DEFAULT_PAGE_LINES = 500
+const DEFAULT_MATCHES = 100
+const SUMMARY_LINES = 20
+const SUMMARY_NOTABLE = 50
+const NOTABLE = /\b(error|errors|fail|failed|failure|failing|panic|exception|fatal|assert\w*)\b/i
+
+function clip(line: string) {
+  return line.length > MAX_LINE_LENGTH ? line.substring(0, MAX_LINE_LENGTH) + "..." : line
+}
+
+function numbered(lines: string[], index: number) {
+  return `${(index + 1).toString().padStart(5, "0")}| ${clip(lines[index])}`
+}
+
+/** The leading lines that fit in MAX_BYTES. */
+function fit(lines: string[]) {
+  const out: string[] = []
+  let bytes = 0
+  for (const line of lines) {
+    const size = Buffer.byteLength(line, "utf-8") + (out.length > 0 ? 1 : 0)
+    if (bytes + size > Truncate.MAX_BYTES) break
+    out.push(line)
+    bytes += size
+  }
+  return out
+}
+
+function entry(spill: Truncate.Spill, sessionID: string) {
+  const origin = spill.sessionID === sessionID ? "" : ` (child session ${spill.sessionID})`
+  return `${spill.id} ${spill.tool ?? "unknown tool"}: ${spill.lines} lines, ${spill.bytes} bytes, saved ${new Date(spill.time.created).toISOString()}${origin}`
+}
+
+function summary(id: string, text: string, lines: string[]) {
+  const bytes = Buffer.byteLength(text, "utf-8")
+  const result = [`<tool_output id="${id}" lines="${lines.length}" bytes="${bytes}">`]
+  const head = Math.min(SUMMARY_LINES, lines.length)
+  const tail = Math.max(head, lines.length - SUMMARY_LINES)
+  result.push("First lines:", ...lines.slice(0, head).map((_, i) => numbered(lines, i)))
+  if (tail < lines.length) {
+    result.push("", "Last lines:", ...lines.slice(tail).map((_, i) => numbered(lines, tail + i)))
+  }
+  const notable = lines.flatMap((line, i) => (NOTABLE.test(line) ? [i] : []))
+  if (notable.length) {
+    result.push("", `Lines mentioning errors or failures (${notable.length}):`)
+    result.push(...notable.slice(0, SUMMARY_NOTABLE).map((i) => numbered(lines, i)))
+    if (notable.length > SUMMARY_NOTABLE)
+      result.push(`(${notable.length - SUMMARY_NOTABLE} more. Use the grep operation to see them)`)
+  }
+  result.push("</tool_output>")
+  return fit(result).join("\n")
+}
+
+function grep(id: string, lines: string[], input: { pattern: string; context: number; offset: number; limit: number }) {
+  let regex: RegExp
+  try {
+    regex = new RegExp(input.pattern)
+  } catch (error) {
+    throw new Error(`Invalid pattern ${input.pattern}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const result: string[] = []
+  // line index shown by each entry of result, to resume after the last one that fits
+  const shown: number[] = []
+  let matches = 0
+  let last = -1
+  let next: number | undefined
+  for (let i = input.offset; i < lines.length; i++) {
+    if (!regex.test(lines[i])) continue
+    if (matches === input.limit) {
+      next = i
+      break
+    }
+    const start = Math.max(i - input.context, last + 1)
+    const end = Math.min(i + input.context, lines.length - 1)
+    if (last >= 0 && start > last + 1) {
+      result.push("--")
+      shown.push(last)
+    }
+    for (let j = start; j <= end; j++) {
+      result.push(numbered(lines, j))
+      shown.push(j)
+    }
+    last = end
+    matches++
+  }
+
+  const out = fit(result)
+  if (out.length < result.length) next = out.length ? shown[out.length - 1] + 1 : input.offset
+  if (!matches) return { matches, output: `No lines in ${id} match ${input.pattern}` }
+  const header = `<tool_output id="${id}" pattern="${input.pattern}">`
+  const footer =
+    next !== undefined
+      ? `(More matches. Use offset ${next} to continue)`
+      : `(${matches} match${matches === 1 ? "" : "es"} from line ${input.offset + 1})`
+  return { matches, output: [header, ...out, "</tool_output>", footer].join("\n") }
+}
+
+function pageLines(id: string, lines: string[], offset: number, limit: number) {
+  const end = Math.min(lines.length, offset + limit)
+  const out = fit(lines.slice(offset, end).map((_, i) => numbered(lines, offset + i)))
+  const last = offset + out.length
+  const footer =
+    last < lines.length
+      ? `(${lines.length - last} more lines. Use offset ${last} to continue)`
+      : `(End of output - total ${lines.length} lines)`
+  return [`<tool_output id="${id}">`, ...out, "</tool_output>", footer].join("\n")
+}
+
+function pageBytes(id: string, text: string, offset: number, limit: number) {
+  const buffer = Buffer.from(text, "utf-8")
+  const end = Math.min(buffer.length, offset + Math.min(limit, Truncate.MAX_BYTES))
+  const footer =
+    end < buffer.length
+      ? `(${buffer.length - end} more bytes. Use offset ${end} to continue)`
+      : `(End of output - total ${buffer.length} bytes)`
+  return [
+    `<tool_output id="${id}" bytes="${offset}-${end}">`,
+    buffer.subarray(offset, end).toString("utf-8"),
+    "</tool_output>",
+    footer,
+  ].join("\n")
+}
+
+/**
+ * OpenCodeOrchestra: Navigates outputs that Truncate spilled to disk by id, so agents can grep, page through and
+ * summarize large logs (e.g. test runs reported by child sessions) without reading the whole file.
+ */
+export const ToolOutputTool = Tool.define("tool_output", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    operation: z.enum(["list", "summary", "grep", "page"]).describe("What to retrieve"),
+    id: z.string().optional().describe("The id of the saved output (required except for list)"),
+    pattern: z.string().optional().describe("The regular expression to search for (grep)"),
+    context: z.coerce.number().int().min(0).optional().describe("Lines of context around each match (grep)"),
+    offset: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Where to start: a 0-based line number, or a byte offset when unit is bytes"),
+    limit: z.coerce
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Lines or bytes to return (page), or the maximum number of matches (grep)"),
+    unit: z.enum(["lines", "bytes"]).optional().describe("The unit of offset and limit for page (defaults to lines)"),
+  }),
+  async execute(params, ctx) {
+    if (params.operation === "list") {
+      const sessions = [ctx.sessionID, ...(await Session.children(ctx.sessionID)).map((x) => x.id)]
+      const spills = (await Promise.all(sessions.map((x) => Truncate.spills(x)))).flat()
+      spills.sort((a, b) => a.time.created - b.time.created)
+      return {
+        title: "list",
+        metadata: { count: spills.length, truncated: false },
+        output: spills.length
+          ? fit(spills.map((x) => entry(x, ctx.sessionID))).join("\n")
+          : "No saved outputs in this session",
+      }
+    }
+
+    if (!params.id) throw new Error(`id is required for the ${params.operation} operation`)
+    const text = await Truncate.read(params.id)
+    if (text === undefined) {
+      throw new Error(
+        `No saved output ${params.id}. Saved outputs expire after 7 days; use the list operation to see the available ones.`,
+      )
+    }
+    const lines = text.split("\n")
+    const offset = params.offset ?? 0
+
+    if (params.operation === "summary") {
+      return {
+        title: params.id,
+        metadata: { count: lines.length, truncated: false },
+        output: summary(params.id, text, lines),
+      }
+    }
+
+    if (params.operation === "grep") {
+      if (!params.pattern) throw new Error("pattern is required for the grep operation")
+      const result = grep(params.id, lines, {
+        pattern: params.pattern,
+        context: params.context ?? 0,
+        offset,
+        limit: params.limit ?? DEFAULT_MATCHES,
+      })
+      return {
+        title: `${params.id} ${params.pattern}`,
+        metadata: { count: result.matches, truncated: false },
+        output: result.output,
+      }
+    }
+
+    if (params.unit === "bytes") {
+      return {
+        title: params.id,
+        metadata: { count: lines.length, truncated: false },
+        output: pageBytes(params.id, text, offset, params.limit ?? Truncate.MAX_BYTES),
+      }
+    }
+    if (offset >= lines.length && lines.length > 0) {
+      throw new Error(`Offset ${offset} is out of range for ${params.id} (${lines.length} lines)`)
+    }
+    return {
+      title: params.id,
+      metadata: { count: lines.length, truncated: false },
+      output: pageLines(params.id, lines, offset, params.limit ?? DEFAULT_PAGE_LINES),
+    }
+  },
+})
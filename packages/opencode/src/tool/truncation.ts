@@ -1,3 +1,4 @@
+import z from "zod"
 import fs from "fs/promises"
 import path from "path"
 import { Global } from "../global"
@@ -5,6 +6,7 @@ import { Identifier } from "../id/id"
 import { PermissionNext } from "../permission/next"
 import type { Agent } from "../agent/agent"
 import { Scheduler } from "../scheduler"
+import { Storage } from "../storage/storage"
 
 export namespace Truncate {
   export const MAX_LINES = 2000
@@ -20,8 +22,24 @@ export namespace Truncate {
     maxLines?: number
     maxBytes?: number
     direction?: "head" | "tail"
+    // OpenCodeOrchestra: index the spilled output under this session so tool_output can find it
+    sessionID?: string
+    tool?: string
   }
 
+  /** OpenCodeOrchestra: An output spilled to {@link DIR}, indexed per session for the tool_output tool. */
+  export const Spill = z.object({
+    id: z.string(),
+    sessionID: z.string(),
+    tool: z.string().optional(),
+    lines: z.number(),
+    bytes: z.number(),
+    time: z.object({
+      created: z.number(),
+    }),
+  })
+  export type Spill = z.infer<typeof Spill>
+
   export function init() {
     Scheduler.register({
       id: "tool.truncation.cleanup",
@@ -39,6 +57,28 @@ export namespace Truncate {
       if (Identifier.timestamp(entry) >= cutoff) continue
       await fs.unlink(path.join(DIR, entry)).catch(() => {})
     }
+    for (const key of await Storage.list(["tool_output"])) {
+      if (Identifier.timestamp(key[key.length - 1]) >= cutoff) continue
+      await Storage.remove(key).catch(() => {})
+    }
+  }
+
+  export async function spills(sessionID: string) {
+    const result = [] as Spill[]
+    for (const key of await Storage.list(["tool_output", sessionID])) {
+      const spill = await Storage.read<Spill>(key).catch(() => undefined)
+      if (spill) result.push(spill)
+    }
+    return result
+  }
+
+  /** Full text of a spilled output, or undefined once it expired. */
+  export async function read(id: string) {
+    // ids are file names in DIR; refuse anything that could point elsewhere
+    if (!id.startsWith("tool_") || path.basename(id) !== id) return undefined
+    const file = Bun.file(path.join(DIR, id))
+    if (!(await file.exists())) return undefined
+    return file.text()
   }
 
   function hasTaskTool(agent?: Agent.Info): boolean {
@@ -47,6 +87,11 @@ export namespace Truncate {
     return rule.action !== "deny"
   }
 
+  function hasOutputTool(agent?: Agent.Info): boolean {
+    if (!agent?.permission) return true
+    return PermissionNext.evaluate("tool_output", "*", agent.permission).action !== "deny"
+  }
+
   export async function output(text: string, options: Options = {}, agent?: Agent.Info): Promise<Result> {
     const maxLines = options.maxLines ?? MAX_LINES
     const maxBytes = options.maxBytes ?? MAX_BYTES
@@ -92,10 +137,24 @@ export namespace Truncate {
     const id = Identifier.ascending("tool")
     const filepath = path.join(DIR, id)
     await Bun.write(Bun.file(filepath), text)
+    if (options.sessionID) {
+      const spill: Spill = {
+        id,
+        sessionID: options.sessionID,
+        tool: options.tool,
+        lines: lines.length,
+        bytes: totalBytes,
+        time: { created: Date.now() },
+      }
+      await Storage.write(["tool_output", options.sessionID, id], spill)
+    }
 
-    const hint = hasTaskTool(agent)
-      ? `The tool call succeeded but the output was truncated. Full output saved to: ${filepath}\nUse the Task tool to have explore agent process this file with Grep and Read (with offset/limit). Do NOT read the full file yourself - delegate to save context.`
-      : `The tool call succeeded but the output was truncated. Full output saved to: ${filepath}\nUse Grep to search the full content or Read with offset/limit to view specific sections.`
+    const hint =
+      options.sessionID && hasOutputTool(agent)
+        ? `The tool call succeeded but the output was truncated. Full output saved as ${id} (${filepath}).\nUse the tool_output tool with this id to summarize, grep or page through it instead of reading the file.`
+        : hasTaskTool(agent)
+          ? `The tool call succeeded but the output was truncated. Full output saved to: ${filepath}\nUse the Task tool to have explore agent process this file with Grep and Read (with offset/limit). Do NOT read the full file yourself - delegate to save context.`
+          : `The tool call succeeded but the output was truncated. Full output saved to: ${filepath}\nUse Grep to search the full content or Read with offset/limit to view specific sections.`
     const message =
       direction === "head"
         ? `${preview}\n\n...${removed} ${unit} truncated...\n\n${hint}`
@@ -6,7 +6,10 @@ import { createTwoFilesPatch } from "diff"
 import DESCRIPTION from "./write.txt"
 import { Bus } from "../bus"
 import { File } from "../file"
+import { Format } from "../format"
 import { FileTime } from "../file/time"
+import { SessionMarker } from "../session/marker"
+import { SessionDiagnostic } from "../session/diagnostic"
 import { Filesystem } from "../util/filesystem"
 import { Instance } from "../project/instance"
 import { trimDiff } from "./edit"
@@ -24,6 +27,7 @@ export const WriteTool = Tool.define("write", {
   async execute(params, ctx) {
     const filepath = path.isAbsolute(params.filePath) ? params.filePath : path.join(Instance.directory, params.filePath)
     await assertExternalDirectory(ctx, filepath)
+    const baseline = await SessionDiagnostic.baseline(ctx.sessionID, filepath)
 
     const file = Bun.file(filepath)
     const exists = await file.exists()
@@ -44,8 +48,10 @@ export const WriteTool = Tool.define("write", {
     await Bun.write(filepath, params.content)
     await Bus.publish(File.Event.Edited, {
       file: filepath,
+      lines: exists ? Format.changed(contentOld, params.content) : undefined,
     })
     FileTime.read(ctx.sessionID, filepath)
+    await SessionMarker.track({ sessionID: ctx.sessionID, file: filepath, before: contentOld, after: params.content })
 
     let output = "Wrote file successfully."
     await LSP.touchFile(filepath, true)
@@ -66,6 +72,9 @@ export const WriteTool = Tool.define("write", {
       projectDiagnosticsCount++
       output += `\n\nLSP errors detected in other files:\n<diagnostics file="${file}">\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</diagnostics>`
     }
+    // OpenCodeOrchestra: errors this write introduced, tracked for the orchestrator subtree
+    const gate = await SessionDiagnostic.check({ sessionID: ctx.sessionID, baseline, diagnostics })
+    output += SessionDiagnostic.report(gate)
 
     return {
       title: path.relative(Instance.worktree, filepath),
@@ -73,6 +82,7 @@ export const WriteTool = Tool.define("write", {
         diagnostics,
         filepath,
         exists: exists,
+        gate,
       },
       output,
     }
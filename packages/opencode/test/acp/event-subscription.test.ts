@@ -433,4 +433,248 @@ describe("acp.agent event subscription", () => {
       },
     })
   })
+
+  test("questions from a child session surface as permission requests on the parent's task call", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { agent, controller, stop, sdk, connection } = createFakeAgent()
+        const requests: RequestPermissionParams[] = []
+        connection.requestPermission = async (params: RequestPermissionParams) => {
+          requests.push(params)
+          return { outcome: { outcome: "selected", optionId: "0" } } as RequestPermissionResult
+        }
+        const replies: { requestID: string; answers: string[][] }[] = []
+        sdk.question = {
+          reply: async (params: any) => {
+            replies.push({ requestID: params.requestID, answers: params.answers })
+            return { data: true }
+          },
+          reject: async () => ({ data: true }),
+        }
+        const cwd = "/tmp/opencode-acp-test"
+
+        const sessionA = await agent.newSession({ cwd, mcpServers: [] } as any).then((x) => x.sessionId)
+
+        controller.push({
+          directory: cwd,
+          payload: {
+            type: "message.part.updated",
+            properties: {
+              part: {
+                sessionID: sessionA,
+                messageID: "msg_1",
+                type: "tool",
+                tool: "task",
+                callID: "call_task",
+                state: {
+                  status: "running",
+                  input: {},
+                  metadata: { sessionId: "ses_child" },
+                  time: { start: 0 },
+                },
+              },
+            },
+          },
+        } as any)
+        controller.push({
+          directory: cwd,
+          payload: {
+            type: "question.asked",
+            properties: {
+              id: "que_1",
+              sessionID: "ses_child",
+              questions: [
+                {
+                  header: "Approve spec",
+                  question: "Approve spec?",
+                  options: [
+                    { label: "Approve", description: "" },
+                    { label: "Reject", description: "" },
+                  ],
+                },
+              ],
+            },
+          },
+        } as any)
+
+        await new Promise((r) => setTimeout(r, 20))
+
+        expect(requests).toHaveLength(1)
+        expect(requests[0].sessionId).toBe(sessionA)
+        expect(requests[0].toolCall.toolCallId).toBe("call_task")
+        expect(requests[0].options.map((x) => x.kind)).toEqual(["allow_once", "reject_once"])
+        expect(replies).toEqual([{ requestID: "que_1", answers: [["Approve"]] }])
+
+        stop()
+      },
+    })
+  })
+
+  test("multiple-choice and non-approval questions keep their answers neutral", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { agent, controller, stop, sdk, connection } = createFakeAgent()
+        const requests: RequestPermissionParams[] = []
+        connection.requestPermission = async (params: RequestPermissionParams) => {
+          requests.push(params)
+          const optionId =
+            params.options[0].optionId === "select" && requests.length === 3 ? "skip" : params.options[0].optionId
+          return { outcome: { outcome: "selected", optionId } } as RequestPermissionResult
+        }
+        const replies: { requestID: string; answers: string[][] }[] = []
+        sdk.question = {
+          reply: async (params: any) => {
+            replies.push({ requestID: params.requestID, answers: params.answers })
+            return { data: true }
+          },
+          reject: async () => ({ data: true }),
+        }
+        const cwd = "/tmp/opencode-acp-test"
+        const sessionA = await agent.newSession({ cwd, mcpServers: [] } as any).then((x) => x.sessionId)
+
+        controller.push({
+          directory: cwd,
+          payload: {
+            type: "question.asked",
+            properties: {
+              id: "que_1",
+              sessionID: sessionA,
+              questions: [
+                {
+                  header: "Budget exceeded",
+                  question: "Extend the budget?",
+                  options: [
+                    { label: "Extend budget", description: "" },
+                    { label: "Stop task", description: "" },
+                  ],
+                },
+                {
+                  header: "Targets",
+                  question: "Deploy to?",
+                  multiple: true,
+                  options: [
+                    { label: "staging", description: "" },
+                    { label: "prod", description: "" },
+                  ],
+                },
+              ],
+            },
+          },
+        } as any)
+
+        await new Promise((r) => setTimeout(r, 20))
+
+        expect(requests[0].options.map((x) => x.kind)).toEqual(["allow_once", "allow_once"])
+        expect(requests).toHaveLength(3)
+        expect(replies).toEqual([{ requestID: "que_1", answers: [["Extend budget"], ["staging"]] }])
+
+        stop()
+      },
+    })
+  })
+
+  test("free-text questions wait for the TUI and finished task calls release their children", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { agent, controller, stop, sdk, connection, chunks } = createFakeAgent()
+        const requests: RequestPermissionParams[] = []
+        connection.requestPermission = async (params: RequestPermissionParams) => {
+          requests.push(params)
+          return { outcome: { outcome: "selected", optionId: "0" } } as RequestPermissionResult
+        }
+        const rejected: string[] = []
+        sdk.question = {
+          reply: async () => ({ data: true }),
+          reject: async (params: any) => {
+            rejected.push(params.requestID)
+            return { data: true }
+          },
+        }
+        const cwd = "/tmp/opencode-acp-test"
+        const sessionA = await agent.newSession({ cwd, mcpServers: [] } as any).then((x) => x.sessionId)
+        const task = (status: string) => ({
+          directory: cwd,
+          payload: {
+            type: "message.part.updated",
+            properties: {
+              part: {
+                sessionID: sessionA,
+                messageID: "msg_1",
+                type: "tool",
+                tool: "task",
+                callID: "call_task",
+                state: {
+                  status,
+                  input: {},
+                  output: "",
+                  title: "",
+                  metadata: { sessionId: "ses_child" },
+                  time: { start: 0 },
+                },
+              },
+            },
+          },
+        })
+        const question = (id: string) => ({
+          directory: cwd,
+          payload: {
+            type: "question.asked",
+            properties: {
+              id,
+              sessionID: "ses_child",
+              questions: [{ header: "Feedback", question: "What should change?", options: [], custom: true }],
+            },
+          },
+        })
+
+        controller.push(task("running") as any)
+        controller.push(question("que_1") as any)
+        await new Promise((r) => setTimeout(r, 20))
+        expect(requests).toHaveLength(0)
+        expect(rejected).toHaveLength(0)
+        expect(chunks.get(sessionA)).toContain("Answer it in the opencode TUI")
+        expect((agent as any).children.size).toBe(1)
+
+        // dismissing a question that accepts a typed answer leaves it for the TUI; otherwise it is rejected
+        connection.requestPermission = async () => ({ outcome: { outcome: "cancelled" } }) as RequestPermissionResult
+        const choice = (id: string, custom: boolean) => ({
+          directory: cwd,
+          payload: {
+            type: "question.asked",
+            properties: {
+              id,
+              sessionID: "ses_child",
+              questions: [
+                {
+                  header: "Approve spec",
+                  question: "Approve?",
+                  custom,
+                  options: [
+                    { label: "Approve", description: "" },
+                    { label: "Reject", description: "" },
+                  ],
+                },
+              ],
+            },
+          },
+        })
+        controller.push(choice("que_2", true) as any)
+        controller.push(choice("que_3", false) as any)
+        await new Promise((r) => setTimeout(r, 20))
+        expect(rejected).toEqual(["que_3"])
+
+        controller.push(task("completed") as any)
+        await new Promise((r) => setTimeout(r, 20))
+        expect((agent as any).children.size).toBe(0)
+
+        stop()
+      },
+    })
+  })
 })
@@ -222,6 +222,33 @@ test("throws error for invalid JSON", async () => {
   })
 })
 
+test("throws error for invalid hierarchy levels", async () => {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, "opencode.json"),
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          hierarchy: {
+            max_depth: 2,
+            levels: { "0": { agents: ["build"] }, "3": { single_shot: true } },
+          },
+        }),
+      )
+    },
+  })
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const error = await Config.get().catch((e) => e)
+      expect(error).toBeInstanceOf(Config.InvalidError)
+      const messages = error.data.issues.map((issue: { message: string }) => issue.message)
+      expect(messages).toContain('Hierarchy level "0" must be a positive integer depth (depth 0 is the PM)')
+      expect(messages).toContain("Hierarchy level 3 is deeper than max_depth 2")
+    },
+  })
+})
+
 test("handles agent configuration", async () => {
   await using tmp = await tmpdir({
     init: async (dir) => {
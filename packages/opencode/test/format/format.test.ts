@@ -0,0 +1,89 @@
+import { describe, expect, mock, test } from "bun:test"
+import * as fs from "fs/promises"
+import path from "path"
+
+// Loading the config installs the plugin package into every config directory. Without this mock the first test
+// to read the config waits on a real installation and can time out.
+mock.module("../../src/bun/index", () => ({
+  BunProc: {
+    install: async (pkg: string) => pkg,
+    run: async () => {
+      throw new Error("BunProc.run should not be called in tests")
+    },
+    which: () => process.execPath,
+    InstallFailedError: class extends Error {},
+  },
+}))
+
+const { Bus } = await import("../../src/bus")
+const { File } = await import("../../src/file")
+const { Format } = await import("../../src/format")
+const { Log } = await import("../../src/util/log")
+const { Instance } = await import("../../src/project/instance")
+const { tmpdir } = await import("../fixture/fixture")
+
+Log.init({ print: false })
+
+// a formatter that normalizes the spacing around "="
+const formatter = {
+  spacing: {
+    command: ["sed", "-i", "s/ *= */ = /g", "$FILE"],
+    extensions: [".cfg"],
+  },
+}
+
+describe("format", () => {
+  test("changed and select keep only the formatter hunks that touch edited lines", () => {
+    const before = "a=1\nb=2\nc=3\n"
+    const edited = "a=1\nb=20\nc=3\n"
+    const lines = Format.changed(before, edited)
+    expect(lines).toEqual([{ start: 1, end: 1 }])
+    expect(Format.select(edited, "a = 1\nb = 20\nc = 3\n", lines)).toBe("a=1\nb = 20\nc=3\n")
+    // a deletion marks the lines around it
+    expect(Format.changed(before, "a=1\nc=3\n")).toEqual([{ start: 0, end: 1 }])
+  })
+
+  test("preview reports the changes without writing the file", async () => {
+    await using tmp = await tmpdir({ config: { formatter } })
+    const file = path.join(tmp.path, "app.cfg")
+    await Bun.write(file, "a=1\nb  =2\n")
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const result = await Format.preview("app.cfg")
+        expect(result.formatters).toEqual(["spacing"])
+        expect(result.additions).toBe(2)
+        expect(result.diff).toContain("+b = 2")
+      },
+    })
+    expect(await Bun.file(file).text()).toBe("a=1\nb  =2\n")
+    expect((await fs.readdir(tmp.path)).sort()).toEqual(["app.cfg", "opencode.json"])
+  })
+
+  test("preview rejects files outside the project and missing files", async () => {
+    await using tmp = await tmpdir({ config: { formatter } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const escaped = await Format.preview("../app.cfg").catch((error) => error)
+        expect(Format.PreviewError.isInstance(escaped)).toBe(true)
+        const missing = await Format.preview("missing.cfg").catch((error) => error)
+        expect(missing.data).toEqual({ file: "missing.cfg", message: "File not found: missing.cfg" })
+      },
+    })
+  })
+
+  test("the changes scope formats only the edited lines", async () => {
+    await using tmp = await tmpdir({ config: { formatter, experimental: { format_scope: "changes" } } })
+    const file = path.join(tmp.path, "app.cfg")
+    await Bun.write(file, "a=1\nb=20\nc=3\n")
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        Format.init()
+        await Bus.publish(File.Event.Edited, { file, lines: [{ start: 1, end: 1 }] })
+      },
+    })
+    expect(await Bun.file(file).text()).toBe("a=1\nb = 20\nc=3\n")
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { pathToFileURL } from "url"
+import { LSPEdit } from "../../src/lsp/edit"
+import { tmpdir } from "../fixture/fixture"
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+})
+
+describe("lsp.edit", () => {
+  test("applies text edits against the original positions", () => {
+    const text = "const foo = 1\r\nconsole.log(foo)\r\n"
+    const result = LSPEdit.apply(text, [
+      { range: range(1, 12, 15), newText: "bar" },
+      { range: range(0, 6, 9), newText: "bar" },
+      { range: range(0, 0, 0), newText: "// a\r\n" },
+      { range: range(0, 0, 0), newText: "// b\r\n" },
+    ])
+    expect(result).toBe("// a\r\n// b\r\nconst bar = 1\r\nconsole.log(bar)\r\n")
+    expect(() =>
+      LSPEdit.apply(text, [
+        { range: range(0, 0, 5), newText: "" },
+        { range: range(0, 3, 8), newText: "" },
+      ]),
+    ).toThrow("overlapping")
+  })
+
+  test("resolves text edits and resource operations into file changes", async () => {
+    await using tmp = await tmpdir()
+    const a = path.join(tmp.path, "a.ts")
+    const b = path.join(tmp.path, "b.ts")
+    const c = path.join(tmp.path, "c.ts")
+    await Bun.write(a, "export const foo = 1\n")
+    await Bun.write(b, "import { foo } from './a'\n")
+    const uri = (file: string) => pathToFileURL(file).href
+
+    const changes = await LSPEdit.resolve([
+      { changes: { [uri(a)]: [{ range: range(0, 13, 16), newText: "bar" }] } },
+      {
+        documentChanges: [
+          { textDocument: { uri: uri(b), version: 1 }, edits: [{ range: range(0, 9, 12), newText: "bar" }] },
+          { kind: "rename", oldUri: uri(b), newUri: uri(c) },
+        ],
+      },
+    ])
+    const byPath = Object.fromEntries(changes.map((x) => [x.filePath, x]))
+    expect(byPath[a]).toMatchObject({ type: "update", newContent: "export const bar = 1\n" })
+    expect(byPath[b]).toMatchObject({ type: "delete", oldContent: "import { foo } from './a'\n" })
+    expect(byPath[c]).toMatchObject({ type: "add", newContent: "import { bar } from './a'\n" })
+
+    // nothing is written until the caller applies the changes
+    expect(await Bun.file(a).text()).toBe("export const foo = 1\n")
+    expect(await Bun.file(c).exists()).toBe(false)
+
+    await expect(LSPEdit.resolve([{ documentChanges: [{ kind: "create", uri: uri(a) }] }])).rejects.toThrow(
+      "already exists",
+    )
+  })
+})
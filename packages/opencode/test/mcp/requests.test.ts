@@ -0,0 +1,218 @@
+import { describe, expect, test } from "bun:test"
+import { McpCaller } from "../../src/mcp/caller"
+import { McpElicitation } from "../../src/mcp/elicitation"
+import { McpSampling } from "../../src/mcp/sampling"
+import { PermissionNext } from "../../src/permission/next"
+import { Question } from "../../src/question"
+import { Agent } from "../../src/agent/agent"
+import { Provider } from "../../src/provider/provider"
+import { Session } from "../../src/session"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function caller(ask: McpCaller.Info["ctx"]["ask"] = async () => {}) {
+  return {
+    ctx: {
+      sessionID: "ses_test",
+      messageID: "msg_test",
+      callID: "call_test",
+      agent: "build",
+      abort: new AbortController().signal,
+      messages: [],
+      metadata: () => {},
+      ask,
+    },
+    model: {},
+    message: {},
+  } as unknown as McpCaller.Info
+}
+
+async function pending() {
+  for (let i = 0; i < 50; i++) {
+    const [request] = await Question.list()
+    if (request) return request
+    await Bun.sleep(10)
+  }
+  throw new Error("no question asked")
+}
+
+describe("mcp.requests", () => {
+  test("asks one question per field and maps the answers onto the schema", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const result = McpElicitation.create({
+          server: "deploy",
+          caller: caller(),
+          params: {
+            message: "Pick a target",
+            requestedSchema: {
+              type: "object",
+              properties: {
+                env: { type: "string", enum: ["prod", "staging"], enumNames: ["Production", "Staging"] },
+                confirm: { type: "boolean", title: "Confirm" },
+                replicas: { type: "integer" },
+              },
+            },
+          },
+        })
+        const request = await pending()
+        expect(request.tool).toEqual({ messageID: "msg_test", callID: "call_test" })
+        expect(request.questions[0].question).toBe("deploy: Pick a target\n\nenv")
+        expect(request.questions[0].options.map((x) => x.label)).toEqual(["Production", "Staging"])
+        expect(request.questions[2].custom).toBe(true)
+        await Question.reply({ requestID: request.id, answers: [["Staging"], ["Yes"], ["3"]] })
+        expect(await result).toEqual({ action: "accept", content: { env: "staging", confirm: true, replicas: 3 } })
+      },
+    })
+  })
+
+  test("declines when the questions are dismissed", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const result = McpElicitation.create({
+          server: "deploy",
+          caller: caller(),
+          params: { message: "Continue?", requestedSchema: { type: "object", properties: {} } },
+        })
+        await Question.reject((await pending()).id)
+        expect(await result).toEqual({ action: "decline" })
+      },
+    })
+  })
+
+  test("answers in the running caller's session only when it is the only one", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const outer = caller()
+        const inner = caller()
+        await McpCaller.track("deploy", outer, async () => {
+          expect(McpCaller.current("deploy")).toBe(outer)
+          await McpCaller.track("deploy", inner, async () => {
+            expect(McpCaller.active("deploy")).toBe(2)
+            expect(McpCaller.current("deploy")).toBeUndefined()
+          })
+          expect(McpCaller.current("deploy")).toBe(outer)
+        })
+        expect(McpCaller.current("deploy")).toBeUndefined()
+      },
+    })
+  })
+
+  test("sampling asks the sampling permission for the server before using the model", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const asked: string[][] = []
+        const result = McpSampling.create({
+          server: "deploy",
+          caller: caller(async (req) => {
+            asked.push([req.permission, ...req.patterns])
+            throw new PermissionNext.RejectedError()
+          }),
+          params: { messages: [{ role: "user", content: { type: "text", text: "hi" } }], maxTokens: 10 },
+          abort: new AbortController().signal,
+        })
+        await expect(result).rejects.toBeInstanceOf(PermissionNext.RejectedError)
+        expect(asked).toEqual([["sampling", "deploy"]])
+      },
+    })
+  })
+
+  test("sampling goes through the session's model with the server's prompt and limits", async () => {
+    const requests: Record<string, any>[] = []
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push(await req.json())
+        const chunk = (delta: Record<string, unknown>, finish: string | null = null) =>
+          `data: ${JSON.stringify({
+            id: "chatcmpl-1",
+            object: "chat.completion.chunk",
+            created: 1_700_000_000,
+            model: "primary",
+            choices: [{ index: 0, delta, finish_reason: finish }],
+          })}\n\n`
+        const body = [chunk({ role: "assistant", content: "" }), chunk({ content: "Summary" }), chunk({}, "stop")]
+        return new Response(body.join("") + "data: [DONE]\n\n", { headers: { "Content-Type": "text/event-stream" } })
+      },
+    })
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        provider: {
+          local: {
+            name: "Local",
+            npm: "@ai-sdk/openai-compatible",
+            api: server.url.origin + "/v1",
+            models: { primary: { name: "Primary" } },
+            options: { apiKey: "local" },
+          },
+        },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const user = await Session.updateMessage({
+          id: Identifier.ascending("message"),
+          sessionID: session.id,
+          role: "user",
+          time: { created: Date.now() },
+          agent: "build",
+          model: { providerID: "local", modelID: "primary" },
+        })
+        const message: MessageV2.Assistant = {
+          id: Identifier.ascending("message"),
+          sessionID: session.id,
+          role: "assistant",
+          time: { created: Date.now() },
+          parentID: user.id,
+          modelID: "primary",
+          providerID: "local",
+          mode: "build",
+          agent: "build",
+          path: { cwd: tmp.path, root: tmp.path },
+          cost: 0,
+          tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+        }
+        await Session.updateMessage(message)
+        const base = caller()
+        const result = await McpSampling.create({
+          server: "deploy",
+          caller: {
+            ctx: { ...base.ctx, sessionID: session.id, messageID: message.id },
+            agent: (await Agent.get("build"))!,
+            model: await Provider.getModel("local", "primary"),
+            message,
+          },
+          params: {
+            systemPrompt: "You summarize.",
+            messages: [{ role: "user", content: { type: "text", text: "hi" } }],
+            maxTokens: 10,
+            stopSequences: ["END"],
+          },
+          abort: new AbortController().signal,
+        })
+        expect(result).toMatchObject({ model: "local/primary", content: { type: "text", text: "Summary" } })
+        expect(requests).toHaveLength(1)
+        expect(requests[0].messages[0]).toMatchObject({ role: "system", content: "You summarize." })
+        expect(requests[0]).toMatchObject({ max_tokens: 10, stop: ["END"] })
+        await Session.remove(session.id)
+      },
+    })
+    server.stop(true)
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { McpServer } from "../../src/mcp/server"
+import { Session } from "../../src/session"
+import { Question } from "../../src/question"
+import { Spec } from "../../src/spec"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function connect() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const server = McpServer.create()
+  await server.connect(serverTransport)
+  const client = new Client({ name: "test", version: "1.0.0" })
+  await client.connect(clientTransport)
+  return {
+    client,
+    async [Symbol.asyncDispose]() {
+      await client.close()
+      await server.close()
+    },
+  }
+}
+
+function text(result: Awaited<ReturnType<Client["callTool"]>>) {
+  return (result.content as { type: string; text: string }[]).map((x) => x.text).join("")
+}
+
+describe("mcp.server", () => {
+  test("lists the hierarchy tools with their input schemas", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await using mcp = await connect()
+        const { tools } = await mcp.client.listTools()
+        expect(tools.map((x) => x.name)).toContain("session_prompt")
+        expect(tools.find((x) => x.name === "permission_reply")?.inputSchema.required).toEqual(["requestID", "reply"])
+      },
+    })
+  })
+
+  test("creates sessions and lists the tasks they spawned", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await using mcp = await connect()
+        const created = JSON.parse(
+          text(await mcp.client.callTool({ name: "session_create", arguments: { title: "x" } })),
+        )
+        expect(created.title).toBe("x")
+
+        const orchestrator = await Session.create({ parentID: created.id, agentID: "orchestrator" })
+        const tasks = JSON.parse(
+          text(await mcp.client.callTool({ name: "task_list", arguments: { sessionID: created.id } })),
+        )
+        expect(tasks).toEqual([expect.objectContaining({ sessionID: orchestrator.id, agent: "orchestrator" })])
+
+        const listed = JSON.parse(text(await mcp.client.callTool({ name: "session_list", arguments: {} })))
+        expect(listed.map((x: { id: string }) => x.id)).toEqual([created.id])
+
+        const missing = await mcp.client.callTool({ name: "spec_read", arguments: { specID: "spc_missing" } })
+        expect(missing.isError).toBe(true)
+
+        await Session.remove(created.id)
+      },
+    })
+  })
+
+  test("answers questions and approves specs", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await using mcp = await connect()
+        const session = await Session.create({})
+        const answer = Question.ask({
+          sessionID: session.id,
+          questions: [
+            {
+              header: "Approve spec",
+              question: "Approve?",
+              options: [
+                { label: "Approve", description: "" },
+                { label: "Reject", description: "" },
+              ],
+            },
+          ],
+        })
+        const [request] = JSON.parse(text(await mcp.client.callTool({ name: "question_list", arguments: {} })))
+        expect(request.sessionID).toBe(session.id)
+        await mcp.client.callTool({
+          name: "question_reply",
+          arguments: { requestID: request.id, answers: [["Approve"]] },
+        })
+        expect(await answer).toEqual([["Approve"]])
+        const unknown = await mcp.client.callTool({
+          name: "question_reply",
+          arguments: { requestID: request.id, answers: [["Approve"]] },
+        })
+        expect(unknown.isError).toBe(true)
+
+        const spec = await Spec.create({ title: "x", objective: "y", criteria: [], tests: [] })
+        await mcp.client.callTool({ name: "spec_reject", arguments: { specID: spec.id, feedback: "narrower" } })
+        expect(await Spec.get(spec.id)).toMatchObject({ status: "draft", feedback: "narrower" })
+        await mcp.client.callTool({ name: "spec_approve", arguments: { specID: spec.id } })
+        expect((await Spec.get(spec.id)).status).toBe("approved")
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
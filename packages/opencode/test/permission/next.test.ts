@@ -381,6 +381,19 @@ test("disabled - disables edit/write/patch/multiedit when edit denied", () => {
   expect(result.has("bash")).toBe(false)
 })
 
+test("disabled - disables task_graph when task denied", () => {
+  const result = PermissionNext.disabled(
+    ["task", "task_graph", "bash"],
+    [
+      { permission: "*", pattern: "*", action: "allow" },
+      { permission: "task", pattern: "*", action: "deny" },
+    ],
+  )
+  expect(result.has("task")).toBe(true)
+  expect(result.has("task_graph")).toBe(true)
+  expect(result.has("bash")).toBe(false)
+})
+
 test("disabled - does not disable when partially denied", () => {
   const result = PermissionNext.disabled(
     ["bash"],
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test"
+import { ProjectMemory } from "../../src/project/memory"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+import path from "path"
+import fs from "fs/promises"
+
+async function seed(root: string, name: string, data: unknown) {
+  const file = path.join(root, ".opencode", name)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await Bun.write(file, JSON.stringify(data, null, 2))
+}
+
+const todo = { id: "1", task: "add tests", status: "pending" as const, priority: "high" as const }
+
+describe("project.memory", () => {
+  test("read returns versioned defaults without touching disk", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await ProjectMemory.read(tmp.path)).toEqual({
+          version: ProjectMemory.VERSION,
+          objectives: [],
+          decisions: [],
+          learnings: [],
+          todos: [],
+          history: [],
+          preferences: {},
+        })
+        expect(await Bun.file(ProjectMemory.file(tmp.path)).exists()).toBe(false)
+      },
+    })
+  })
+
+  test("migrates unversioned state and folds the legacy pm-state.json", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await seed(tmp.path, "project-state.json", {
+          objectives: ["ship"],
+          learnings: [{ topic: "tools", insight: "state is PM-only" }],
+          preferences: { style: "terse" },
+        })
+        await seed(tmp.path, "pm-state.json", {
+          decisions: [{ date: "2025-01-01", decision: "use bun", context: "runtime parity" }],
+          taskHistory: [{ id: "ses_1", summary: "built cache", status: "completed", date: "2025-01-02" }],
+          learnings: ["tests live in test/"],
+          preferences: { style: "verbose", language: "ts" },
+        })
+
+        const state = await ProjectMemory.read(tmp.path)
+        expect(state.version).toBe(ProjectMemory.VERSION)
+        expect(state.objectives).toEqual(["ship"])
+        expect(state.decisions).toEqual([{ decision: "use bun", rationale: "runtime parity", timestamp: "2025-01-01" }])
+        expect(state.learnings).toEqual([
+          { topic: "tools", insight: "state is PM-only" },
+          { topic: "general", insight: "tests live in test/" },
+        ])
+        expect(state.history).toEqual([
+          { id: "ses_1", summary: "built cache", status: "completed", date: "2025-01-02" },
+        ])
+        // entries already in the store win over legacy ones
+        expect(state.preferences).toEqual({ style: "terse", language: "ts" })
+
+        expect(await Bun.file(path.join(tmp.path, ".opencode", "pm-state.json")).exists()).toBe(false)
+        expect((await Bun.file(ProjectMemory.file(tmp.path)).json()).version).toBe(ProjectMemory.VERSION)
+      },
+    })
+  })
+
+  test("update appends and patches without dropping entries", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await ProjectMemory.update(tmp.path, { append: { objectives: ["ship"], todos: [todo] } })
+
+        const updated = await ProjectMemory.update(tmp.path, {
+          append: { objectives: ["ship", "document"], learnings: [{ topic: "lsp", insight: "slow start" }] },
+          patch: { todos: [{ id: "1", status: "completed" }], preferences: { style: "terse" } },
+        })
+        expect(updated.objectives).toEqual(["ship", "document"])
+        expect(updated.todos).toEqual([{ ...todo, status: "completed" }])
+        expect(updated.learnings).toHaveLength(1)
+        expect(updated.preferences).toEqual({ style: "terse" })
+
+        const removed = await ProjectMemory.update(tmp.path, { remove: { objectives: ["ship"], todos: ["1"] } })
+        expect(removed.objectives).toEqual(["document"])
+        expect(removed.todos).toEqual([])
+        expect(removed.lastUpdated).toBeDefined()
+      },
+    })
+  })
+
+  test("update rejects invalid fields and unknown or duplicate todos", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await ProjectMemory.update(tmp.path, { append: { todos: [todo] } })
+
+        await expect(
+          ProjectMemory.update(tmp.path, { append: { todos: [{ ...todo, id: "2", status: "done" as any }] } }),
+        ).rejects.toThrow("append.todos[0].status")
+        await expect(ProjectMemory.update(tmp.path, { append: { todos: [todo] } })).rejects.toThrow("already exists")
+        await expect(
+          ProjectMemory.update(tmp.path, { patch: { todos: [{ id: "2", status: "completed" }] } }),
+        ).rejects.toThrow(ProjectMemory.ValidationError)
+
+        expect((await ProjectMemory.read(tmp.path)).todos).toEqual([todo])
+      },
+    })
+  })
+
+  test("folds a legacy pm-state.json written from a subdirectory of the git root", async () => {
+    await using tmp = await tmpdir({ git: true })
+    const sub = path.join(tmp.path, "packages", "app")
+    await seed(sub, "pm-state.json", { learnings: ["run tests per package"] })
+    await Instance.provide({
+      directory: sub,
+      fn: async () => {
+        const state = await ProjectMemory.read(ProjectMemory.root())
+        expect(state.learnings).toEqual([{ topic: "general", insight: "run tests per package" }])
+        expect(await Bun.file(path.join(sub, ".opencode", "pm-state.json")).exists()).toBe(false)
+        expect(await Bun.file(ProjectMemory.file(tmp.path)).exists()).toBe(true)
+      },
+    })
+  })
+
+  test("keeps a legacy pm-state.json that does not parse as a backup", async () => {
+    await using tmp = await tmpdir()
+    await seed(tmp.path, "pm-state.json", { learnings: [{ note: "free-form" }] })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect((await ProjectMemory.read(tmp.path)).learnings).toEqual([])
+        const legacy = path.join(tmp.path, ".opencode", "pm-state.json")
+        expect(await Bun.file(legacy).exists()).toBe(false)
+        expect(await Bun.file(legacy + ".bak").json()).toEqual({ learnings: [{ note: "free-form" }] })
+      },
+    })
+  })
+})
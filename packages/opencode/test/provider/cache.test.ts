@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test"
+import type { ModelMessage } from "ai"
+import { ProviderCache } from "../../src/provider/cache"
+import { SessionCache } from "../../src/session/cache"
+import type { MessageV2 } from "../../src/session/message-v2"
+
+const limits = { breakpoints: 4, minTokens: 1024 }
+
+// roughly `tokens` tokens of content
+function msg(role: "system" | "user" | "assistant", tokens: number): ModelMessage {
+  return { role, content: "x".repeat(tokens * 4) } as ModelMessage
+}
+
+describe("ProviderCache.plan", () => {
+  test("skips prefixes shorter than the provider minimum but always marks the tail", () => {
+    expect(ProviderCache.plan({ messages: [msg("system", 100), msg("user", 10)], limits })).toEqual([1])
+    expect(ProviderCache.plan({ messages: [msg("system", 2000), msg("user", 10)], limits })).toEqual([0, 1])
+  })
+
+  test("marks the end of the measured stable prefix within the breakpoint limit", () => {
+    const messages = [
+      msg("system", 3000),
+      msg("system", 500),
+      ...Array.from({ length: 8 }, (_, i) => msg(i % 2 ? "assistant" : "user", 200)),
+    ]
+    const fingerprints = messages.map(ProviderCache.fingerprint)
+    // the previous request ended at message 6; a reminder rewrote message 7
+    const previous = [...fingerprints.slice(0, 7), "changed"]
+    const stable = ProviderCache.stable(previous, fingerprints)
+    expect(stable).toBe(7)
+    expect(ProviderCache.plan({ messages, limits, stable })).toEqual([1, 6, 8, 9])
+    expect(ProviderCache.plan({ messages, limits: { ...limits, breakpoints: 2 }, stable })).toEqual([6, 9])
+  })
+
+  test("only models with explicit cache markers get limits", () => {
+    const model = (id: string, npm: string) => ({ id, providerID: "test", api: { id, npm } }) as any
+    expect(ProviderCache.limits(model("claude-sonnet-4", "@ai-sdk/anthropic"))).toEqual(limits)
+    expect(ProviderCache.limits(model("claude-haiku-4-5", "@ai-sdk/openai-compatible"))?.minTokens).toBe(2048)
+    expect(ProviderCache.limits(model("gpt-5", "@ai-sdk/openai"))).toBeUndefined()
+  })
+})
+
+describe("SessionCache.efficiency", () => {
+  function assistant(id: string, steps: [read: number, write: number][], extra: Record<string, any> = {}) {
+    return {
+      info: {
+        id,
+        role: "assistant",
+        providerID: "anthropic",
+        modelID: "claude-sonnet-4",
+        time: { created: 1_000, completed: 2_000 },
+        ...extra,
+      },
+      parts: steps.map(([read, write]) => ({
+        type: "step-finish",
+        tokens: { input: 10, output: 0, reasoning: 0, cache: { read, write } },
+      })),
+    } as unknown as MessageV2.WithParts
+  }
+
+  test("attributes busts to what happened since the previous request", () => {
+    const result = SessionCache.efficiency([
+      assistant("msg_1", [
+        [0, 1000],
+        [1000, 100],
+      ]),
+      assistant("msg_2", [], { summary: true }),
+      assistant("msg_3", [[0, 500]]),
+      assistant("msg_4", [[0, 600]], { modelID: "claude-opus-4" }),
+      assistant("msg_5", [[600, 50]], { time: { created: 2_000 + SessionCache.TTL + 1 } }),
+      assistant("msg_6", [[100, 600]], { time: { created: 2_000 + 2 * SessionCache.TTL + 2 } }),
+      assistant("msg_7", [[0, 700]]),
+    ])
+    expect(result.requests).toBe(7)
+    expect(result.busts.map((x) => [x.messageID, x.cause])).toEqual([
+      ["msg_3", "compaction"],
+      ["msg_4", "model"],
+      ["msg_6", "expired"],
+      ["msg_7", "prefix"],
+    ])
+    expect(result.ratio).toBeCloseTo(1700 / (70 + 1700 + 3550))
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import fs from "fs/promises"
+import os from "os"
+import { Agent } from "../../src/agent/agent"
+import { Provider } from "../../src/provider/provider"
+import { ProviderCassette } from "../../src/provider/cassette"
+import { LLM } from "../../src/session/llm"
+import type { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function config(mode: ProviderCassette.Mode, api: string, cassettes: string) {
+  return {
+    provider: {
+      local: {
+        name: "Local",
+        npm: "@ai-sdk/openai-compatible",
+        api,
+        models: { primary: { name: "Primary" } },
+        options: { apiKey: "local" },
+      },
+    },
+    experimental: { cassette: { mode, path: cassettes } },
+  }
+}
+
+// an OpenAI-compatible endpoint streaming one scripted answer
+function serve(answer: string[]) {
+  const requests: unknown[] = []
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      requests.push(await req.json())
+      const chunk = (delta: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+        `data: ${JSON.stringify({
+          id: "chatcmpl-1",
+          object: "chat.completion.chunk",
+          created: 1_700_000_000,
+          model: "primary",
+          choices: [{ index: 0, delta, finish_reason: extra.finish ?? null }],
+          ...(extra.usage ? { usage: extra.usage } : {}),
+        })}\n\n`
+      const body = [
+        chunk({ role: "assistant", content: "" }),
+        ...answer.map((content) => chunk({ content })),
+        chunk({}, { finish: "stop", usage: { prompt_tokens: 12, completion_tokens: answer.length, total_tokens: 14 } }),
+        "data: [DONE]\n\n",
+      ].join("")
+      return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+    },
+  })
+  return { server, requests, api: server.url.origin + "/v1" }
+}
+
+async function ask(question: string) {
+  const sessionID = Identifier.ascending("session")
+  const user = {
+    id: Identifier.ascending("message"),
+    sessionID,
+    role: "user",
+    time: { created: Date.now() },
+    agent: "build",
+    model: { providerID: "local", modelID: "primary" },
+  } as MessageV2.User
+  const result = await LLM.stream({
+    user,
+    sessionID,
+    model: await Provider.getModel("local", "primary"),
+    agent: (await Agent.get("build"))!,
+    system: [],
+    abort: new AbortController().signal,
+    // volatile values the key normalizes: the checkout and identifiers
+    messages: [{ role: "user", content: `${question} (in ${Instance.directory}, session ${sessionID})` }],
+    tools: {},
+  })
+  let text = ""
+  let error: unknown
+  for await (const part of result.fullStream) {
+    if (part.type === "text-delta") text += part.text
+    if (part.type === "error") error = part.error
+  }
+  return { text, error }
+}
+
+describe("provider.cassette", () => {
+  test("records a stream and replays it offline in another checkout", async () => {
+    const cassettes = path.join(os.tmpdir(), "opencode-cassettes-" + Math.random().toString(36).slice(2))
+    const live = serve(["Hello", " from", " the recording"])
+
+    await using recording = await tmpdir({ git: true, config: config("record", live.api, cassettes) })
+    await Instance.provide({
+      directory: recording.path,
+      fn: async () => {
+        expect((await ask("Say hello")).text).toBe("Hello from the recording")
+      },
+    })
+    live.server.stop(true)
+    expect(live.requests).toHaveLength(1)
+    const files = await fs.readdir(cassettes)
+    expect(files).toHaveLength(1)
+    const cassette: ProviderCassette.Cassette = await Bun.file(path.join(cassettes, files[0])).json()
+    expect(cassette.model).toBe("local/primary")
+    expect(cassette.request.prompt.some((msg) => msg.role === "system")).toBe(true)
+
+    // the provider is gone; only the cassette can answer
+    await using replaying = await tmpdir({ git: true, config: config("replay", live.api, cassettes) })
+    await Instance.provide({
+      directory: replaying.path,
+      fn: async () => {
+        expect((await ask("Say hello")).text).toBe("Hello from the recording")
+        const missing = await ask("Say goodbye")
+        expect(ProviderCassette.MissingError.isInstance(missing.error)).toBe(true)
+      },
+    })
+
+    await fs.rm(cassettes, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionAudit } from "../../src/session/audit"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+const projectRoot = path.join(__dirname, "../..")
+Log.init({ print: false })
+
+describe("session.audit", () => {
+  test("target resolves the nearest orchestrator ancestor", async () => {
+    await Instance.provide({
+      directory: projectRoot,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        const auditor = await Session.create({ parentID: orchestrator.id, agentID: "auditor" })
+        const direct = await Session.create({ parentID: pm.id, agentID: "auditor" })
+
+        expect(await SessionAudit.target(auditor.id)).toBe(orchestrator.id)
+        expect(await SessionAudit.target(direct.id)).toBe(pm.id)
+        expect(await SessionAudit.target(pm.id)).toBeUndefined()
+
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("record appends verdicts and latest returns the newest", async () => {
+    await Instance.provide({
+      directory: projectRoot,
+      fn: async () => {
+        const session = await Session.create({})
+        expect(await SessionAudit.latest(session.id)).toBeUndefined()
+
+        await SessionAudit.record({
+          sessionID: session.id,
+          auditorSessionID: "ses_auditor_1",
+          verdict: "FAIL",
+          summary: "missing null check",
+          issues: [{ file: "src/a.ts", line: 10, description: "null dereference" }],
+          criteria: [{ id: "AC-1", met: false }],
+        })
+        await SessionAudit.record({
+          sessionID: session.id,
+          auditorSessionID: "ses_auditor_2",
+          verdict: "PASS",
+          summary: "all good",
+          issues: [],
+          criteria: [{ id: "AC-1", met: true }],
+        })
+
+        const verdicts = await SessionAudit.list(session.id)
+        expect(verdicts.map((v) => v.verdict)).toEqual(["FAIL", "PASS"])
+        expect((await SessionAudit.latest(session.id))?.auditorSessionID).toBe("ses_auditor_2")
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("target resolves persistent agents placed at depth 1 by the hierarchy", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        agent: { reviewer: { single_shot: false } },
+        hierarchy: { levels: { "1": { agents: ["orchestrator", "reviewer"] } } },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const reviewer = await Session.create({ parentID: pm.id, agentID: "reviewer" })
+        const auditor = await Session.create({ parentID: reviewer.id, agentID: "auditor" })
+
+        expect(await SessionAudit.target(auditor.id)).toBe(reviewer.id)
+
+        await Session.remove(pm.id)
+      },
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionBudget } from "../../src/session/budget"
+import { Question } from "../../src/question"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const call = (tokens: number, cost = 0) => ({ cost, tokens: { input: tokens, output: 0, reasoning: 0 } })
+
+async function answer(label: string) {
+  while (true) {
+    const [request] = await Question.list()
+    if (request) return Question.reply({ requestID: request.id, answers: [[label]] })
+    await Bun.sleep(5)
+  }
+}
+
+describe("session.budget", () => {
+  test("usage of descendants counts against the owner and warns past the threshold", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const orchestrator = await Session.create({})
+        const child = await Session.create({ parentID: orchestrator.id })
+        await SessionBudget.create(orchestrator.id, { tokens: 1000, steps: 10 })
+
+        await SessionBudget.record(child.id, call(500, 0.5))
+        let budget = await SessionBudget.get(orchestrator.id)
+        expect(budget?.usage).toEqual({ tokens: 500, cost: 0.5, steps: 1 })
+        expect(budget?.status).toBe("ok")
+        expect(await SessionBudget.reminder(orchestrator.id)).toBeUndefined()
+
+        await SessionBudget.record(orchestrator.id, call(350))
+        budget = await SessionBudget.get(orchestrator.id)
+        expect(budget?.status).toBe("warning")
+        expect(await SessionBudget.reminder(orchestrator.id)).toContain("tokens: 850 / 1000")
+        // only the owner is warned
+        expect(await SessionBudget.reminder(child.id)).toBeUndefined()
+
+        await Session.remove(orchestrator.id)
+      },
+    })
+  })
+
+  test("gate pauses until the user extends the budget", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const orchestrator = await Session.create({})
+        const child = await Session.create({ parentID: orchestrator.id })
+        await SessionBudget.create(orchestrator.id, { tokens: 100 })
+        expect(await SessionBudget.gate(child.id)).toBe(true)
+
+        await SessionBudget.record(child.id, call(150))
+        const [allowed] = await Promise.all([SessionBudget.gate(child.id), answer("Extend budget")])
+        expect(allowed).toBe(true)
+
+        const budget = await SessionBudget.get(orchestrator.id)
+        expect(budget?.limits.tokens).toBe(200)
+        expect(budget?.status).toBe("warning")
+
+        await Session.remove(orchestrator.id)
+      },
+    })
+  })
+
+  test("gate stops the subtree when the user stops the task", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const orchestrator = await Session.create({})
+        const child = await Session.create({ parentID: orchestrator.id })
+        await SessionBudget.create(orchestrator.id, { steps: 1 })
+
+        await SessionBudget.record(child.id, call(10))
+        const [allowed] = await Promise.all([SessionBudget.gate(child.id), answer("Stop task")])
+        expect(allowed).toBe(false)
+        expect((await SessionBudget.get(orchestrator.id))?.status).toBe("stopped")
+        expect(await SessionBudget.gate(orchestrator.id)).toBe(false)
+
+        await Session.remove(orchestrator.id)
+      },
+    })
+  })
+})
@@ -3,7 +3,7 @@ import { tmpdir } from "../fixture/fixture"
 import { Instance } from "../../src/project/instance"
 import { Session } from "../../src/session"
 import { Log } from "../../src/util/log"
-import { calculateDepth, shouldApplyPruning } from "../../src/session/depth"
+import { calculateDepth, roleOf, shouldApplyPruning, shouldApplyPruningForSession } from "../../src/session/depth"
 
 Log.init({ print: false })
 
@@ -147,4 +147,78 @@ describe("session.depth", () => {
       })
     })
   })
+
+  describe("cached depth on Session.Info", () => {
+    test("stores depth and role at creation", async () => {
+      await using tmp = await tmpdir({ git: true })
+      await Instance.provide({
+        directory: tmp.path,
+        fn: async () => {
+          const pmSession = await Session.create({})
+          const orchSession = await Session.create({ parentID: pmSession.id, agentID: "orchestrator" })
+          const subSession = await Session.create({ parentID: orchSession.id, agentID: "investigator" })
+
+          expect(pmSession).toMatchObject({ depth: 0, role: "pm" })
+          expect(orchSession).toMatchObject({ depth: 1, role: "orchestrator" })
+          expect(subSession).toMatchObject({ depth: 2, role: "subagent" })
+          expect(await Session.get(subSession.id)).toMatchObject({ depth: 2, role: "subagent" })
+        },
+      })
+    })
+
+    test("honours an explicit depth and derives children from it", async () => {
+      await using tmp = await tmpdir({ git: true })
+      await Instance.provide({
+        directory: tmp.path,
+        fn: async () => {
+          // PM's non-orchestrator children skip to depth 2
+          const pmSession = await Session.create({})
+          const investigator = await Session.create({ parentID: pmSession.id, agentID: "investigator", depth: 2 })
+          const nested = await Session.create({ parentID: investigator.id })
+
+          expect(investigator).toMatchObject({ depth: 2, role: "subagent" })
+          expect(await calculateDepth(investigator.id)).toBe(2)
+          expect(await calculateDepth(nested.id)).toBe(3)
+        },
+      })
+    })
+  
+    test("derives the role from the agent and the hierarchy policy", async () => {
+      await using tmp = await tmpdir({
+        git: true,
+        config: {
+          agent: { reviewer: { single_shot: false } },
+          hierarchy: { levels: { "1": { agents: ["orchestrator", "reviewer"] } } },
+        },
+      })
+      await Instance.provide({
+        directory: tmp.path,
+        fn: async () => {
+          const pmSession = await Session.create({})
+          const reviewer = await Session.create({ parentID: pmSession.id, agentID: "reviewer" })
+          const child = await Session.create({ parentID: pmSession.id })
+
+          expect(reviewer).toMatchObject({ depth: 1, role: "orchestrator" })
+          // a child without a persistent agent completes on its first response
+          expect(child).toMatchObject({ depth: 1, role: "subagent" })
+          expect(await roleOf({ ...reviewer, role: undefined })).toBe("orchestrator")
+        },
+      })
+    })
+
+    test("the PM's single-shot children sit at depth 2 and are not pruned", async () => {
+      await using tmp = await tmpdir({ git: true })
+      await Instance.provide({
+        directory: tmp.path,
+        fn: async () => {
+          // the hierarchy places them at depth 2; walking the parentID chain used to count them as depth 1
+          const pmSession = await Session.create({})
+          const investigator = await Session.create({ parentID: pmSession.id, agentID: "investigator", depth: 2 })
+
+          expect(await calculateDepth(investigator.id)).toBe(2)
+          expect(await shouldApplyPruningForSession(investigator.id)).toBe(false)
+        },
+      })
+    })
+  })
 })
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionDiagnostic } from "../../src/session/diagnostic"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const error = (line: number, message: string) => ({
+  range: { start: { line, character: 0 }, end: { line, character: 1 } },
+  severity: 1 as const,
+  message,
+})
+
+describe("session.diagnostic", () => {
+  test("reports only the errors an edit introduced and tracks them until resolved", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        const child = await Session.create({ parentID: orchestrator.id, agentID: "general" })
+        const file = path.join(tmp.path, "src", "a.ts")
+        const preexisting = error(1, "Cannot find module 'x'.")
+
+        const first = await SessionDiagnostic.check({
+          sessionID: child.id,
+          baseline: { orchestratorID: orchestrator.id, file, issues: [preexisting] },
+          diagnostics: { [file]: [error(3, "Cannot find module 'x'."), error(5, "Type 'string' is not 'number'.")] },
+        })
+        expect(first?.introduced.map((x) => x.message)).toEqual(["Type 'string' is not 'number'."])
+        expect(SessionDiagnostic.report(first)).toContain("src/a.ts:6:1 Type 'string' is not 'number'.")
+
+        let outstanding = await SessionDiagnostic.outstanding(orchestrator.id)
+        expect(outstanding).toHaveLength(1)
+        expect(outstanding[0]).toMatchObject({ file: "src/a.ts", line: 6, sessionID: child.id })
+
+        // a later edit that moves the error keeps it outstanding at its new position
+        await SessionDiagnostic.check({
+          sessionID: orchestrator.id,
+          baseline: {
+            orchestratorID: orchestrator.id,
+            file,
+            issues: [preexisting, error(5, "Type 'string' is not 'number'.")],
+          },
+          diagnostics: { [file]: [preexisting, error(9, "Type 'string' is not 'number'.")] },
+        })
+        outstanding = await SessionDiagnostic.outstanding(child.id)
+        expect(outstanding.map((x) => x.line)).toEqual([10])
+
+        const fixed = await SessionDiagnostic.check({
+          sessionID: child.id,
+          baseline: {
+            orchestratorID: orchestrator.id,
+            file,
+            issues: [preexisting, error(9, "Type 'string' is not 'number'.")],
+          },
+          diagnostics: { [file]: [preexisting] },
+        })
+        expect(fixed?.introduced).toEqual([])
+        expect(await SessionDiagnostic.outstanding(orchestrator.id)).toEqual([])
+        expect((await SessionDiagnostic.get(orchestrator.id)).resolved).toBe(1)
+
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("does not apply outside orchestrator subtrees", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        expect(await SessionDiagnostic.baseline(pm.id, path.join(tmp.path, "a.ts"))).toBeUndefined()
+        expect(await SessionDiagnostic.outstanding(pm.id)).toEqual([])
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("keeps entries from edits checked at the same time", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        await Promise.all(
+          ["a", "b", "c"].map((name) => {
+            const file = path.join(tmp.path, "src", `${name}.ts`)
+            return SessionDiagnostic.check({
+              sessionID: orchestrator.id,
+              baseline: { orchestratorID: orchestrator.id, file, issues: [] },
+              diagnostics: { [file]: [error(0, `Cannot find name '${name}'.`)] },
+            })
+          }),
+        )
+        const ledger = await SessionDiagnostic.get(orchestrator.id)
+        expect(ledger.diagnostics.map((x) => x.file).sort()).toEqual(["src/a.ts", "src/b.ts", "src/c.ts"])
+        expect(ledger.introduced).toBe(3)
+        await Session.remove(pm.id)
+      },
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionEscalation } from "../../src/session/escalation"
+import { SessionTaskLink } from "../../src/session/task-link"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.escalation", () => {
+  test("suspends the orchestrator and ends the parent's wait until answered", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        await SessionTaskLink.create({
+          sessionID: orchestrator.id,
+          parentID: pm.id,
+          messageID: "msg_task",
+          callID: "call_1",
+          agent: "orchestrator",
+          description: "Build feature",
+        })
+        const waiting = SessionTaskLink.wait(orchestrator.id, new AbortController().signal)
+
+        const answer = SessionEscalation.raise({
+          sessionID: orchestrator.id,
+          agent: "orchestrator",
+          question: "Should the cache be per user?",
+          options: [{ label: "Per user", description: "Isolates entries" }],
+          abort: new AbortController().signal,
+        })
+
+        const outcome = await waiting
+        expect(outcome.type).toBe("escalated")
+        if (outcome.type !== "escalated") return
+        expect(outcome.escalation.question).toBe("Should the cache be per user?")
+        expect(SessionEscalation.format(outcome.escalation)).toContain(`task_id: ${orchestrator.id}`)
+        expect((await SessionEscalation.pending(orchestrator.id))?.id).toBe(outcome.escalation.id)
+
+        await SessionEscalation.answer({ sessionID: orchestrator.id, answer: "Per user" })
+        expect(await answer).toBe("Per user")
+        expect(await SessionEscalation.pending(orchestrator.id)).toBeUndefined()
+
+        const parts = await MessageV2.parts("msg_task")
+        const part = parts.find((p): p is MessageV2.EscalationPart => p.type === "escalation")
+        expect(part?.status).toBe("answered")
+        expect(part?.answer).toBe("Per user")
+        // the task stays linked so the final result still reaches the parent
+        expect((await SessionTaskLink.get(pm.id, orchestrator.id))?.status).toBe("running")
+
+        await SessionTaskLink.remove(pm.id, orchestrator.id)
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("requires a parent waiting on the task", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        await expect(
+          SessionEscalation.raise({
+            sessionID: orchestrator.id,
+            agent: "orchestrator",
+            question: "?",
+            options: [],
+            abort: new AbortController().signal,
+          }),
+        ).rejects.toThrow("escalate can only be used")
+        await Session.remove(pm.id)
+      },
+    })
+  })
+})
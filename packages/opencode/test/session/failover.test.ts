@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test"
+import { Agent } from "../../src/agent/agent"
+import { SessionFailover } from "../../src/session/failover"
+import type { MessageV2 } from "../../src/session/message-v2"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const config = {
+  provider: {
+    local: {
+      name: "Local",
+      npm: "@ai-sdk/openai-compatible",
+      api: "http://localhost:11434/v1",
+      models: {
+        primary: { name: "Primary" },
+        secondary: { name: "Secondary" },
+      },
+      options: { apiKey: "local" },
+    },
+  },
+  agent: {
+    runner: {
+      model: "local/primary",
+      failover: { models: ["local/missing", "local/secondary"], after: 2 },
+    },
+  },
+}
+
+function user(id: string) {
+  return { id, agent: "runner", model: { providerID: "local", modelID: "primary" } } as MessageV2.User
+}
+
+describe("session.failover", () => {
+  test("moves through the agent's chain for the current user message", async () => {
+    await using tmp = await tmpdir({ git: true, config })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const agent = (await Agent.get("runner"))!
+        expect(SessionFailover.after(agent)).toBe(2)
+        expect((await SessionFailover.model({ sessionID: "ses_test", user: user("msg_1") })).id).toBe("primary")
+
+        // models that no longer resolve are skipped
+        const next = await SessionFailover.next({ sessionID: "ses_test", user: user("msg_1"), agent })
+        expect(next?.id).toBe("secondary")
+        expect((await SessionFailover.model({ sessionID: "ses_test", user: user("msg_1") })).id).toBe("secondary")
+        expect(await SessionFailover.next({ sessionID: "ses_test", user: user("msg_1"), agent })).toBeUndefined()
+
+        // the next user message starts again from the requested model
+        expect((await SessionFailover.model({ sessionID: "ses_test", user: user("msg_2") })).id).toBe("primary")
+      },
+    })
+  })
+
+  test("reports the model that answered when it is not the requested one", () => {
+    const requested = { providerID: "local", modelID: "primary" }
+    const answer = (modelID: string) =>
+      ({ info: { role: "assistant", providerID: "local", modelID }, parts: [] }) as unknown as MessageV2.WithParts
+    expect(SessionFailover.report(requested, [answer("primary")])).toEqual({ model: requested })
+    expect(SessionFailover.report(requested, [answer("primary"), answer("secondary")])).toEqual({
+      model: { providerID: "local", modelID: "secondary" },
+      note: "model: local/secondary (failed over from local/primary)",
+    })
+  })
+})
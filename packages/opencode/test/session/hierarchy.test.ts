@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test"
+import { SessionHierarchy } from "../../src/session/hierarchy"
+
+describe("session.hierarchy", () => {
+  describe("defaults", () => {
+    const policy = SessionHierarchy.DEFAULT
+
+    test("only orchestrator is placed at depth 1", () => {
+      expect(SessionHierarchy.place(policy, 0, "orchestrator")).toBe(1)
+      expect(SessionHierarchy.place(policy, 0, "investigator")).toBe(2)
+      expect(SessionHierarchy.place(policy, 1, "auditor")).toBe(2)
+      expect(SessionHierarchy.place(policy, 2, "general")).toBe(3)
+    })
+
+    test("depth 2+ is always single-shot", () => {
+      expect(SessionHierarchy.singleShot(policy, 1, false)).toBe(false)
+      expect(SessionHierarchy.singleShot(policy, 1, undefined)).toBe(true)
+      expect(SessionHierarchy.singleShot(policy, 2, false)).toBe(true)
+      expect(SessionHierarchy.singleShot(policy, 3, false)).toBe(true)
+    })
+
+    test("spawning is unrestricted", () => {
+      expect(() => SessionHierarchy.assertSpawn(policy, "orchestrator", "cleanup")).not.toThrow()
+    })
+  })
+
+  describe("from config", () => {
+    const policy = SessionHierarchy.fromConfig({
+      max_depth: 2,
+      levels: {
+        "1": { agents: ["orchestrator", "reviewer-lead"] },
+        "2": { agents: ["investigator", "auditor"] },
+      },
+      spawn: { "reviewer-lead": ["auditor"] },
+    })
+
+    test("allows additional agents at depth 1", () => {
+      expect(SessionHierarchy.place(policy, 0, "reviewer-lead")).toBe(1)
+    })
+
+    test("rejects agents that no level allows within max_depth", () => {
+      expect(() => SessionHierarchy.place(policy, 0, "docs")).toThrow(SessionHierarchy.ViolationError)
+      expect(() => SessionHierarchy.place(policy, 2, "auditor")).toThrow("maximum hierarchy depth (2)")
+    })
+
+    test("enforces spawn rules", () => {
+      expect(() => SessionHierarchy.assertSpawn(policy, "reviewer-lead", "auditor")).not.toThrow()
+      expect(() => SessionHierarchy.assertSpawn(policy, "reviewer-lead", "cleanup")).toThrow(
+        "reviewer-lead is not allowed to spawn cleanup",
+      )
+    })
+
+    test("level single_shot overrides the depth rule", () => {
+      const forced = SessionHierarchy.fromConfig({
+        levels: { "1": { agents: ["orchestrator"] }, "2": { single_shot: false } },
+      })
+      expect(SessionHierarchy.singleShot(forced, 2, false)).toBe(false)
+      expect(SessionHierarchy.singleShot(forced, 3, false)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionMarker } from "../../src/session/marker"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.marker", () => {
+  test("ignores edits outside an orchestrator subtree", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionMarker.track({
+          sessionID: session.id,
+          file: path.join(tmp.path, "src/example.ts"),
+          before: "",
+          after: "// @TODO review\n",
+        })
+        expect(result).toBeUndefined()
+        expect((await SessionMarker.get(session.id)).markers).toEqual([])
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("records markers added and removed by subagents on the orchestrator", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        const cleanup = await Session.create({ parentID: orchestrator.id, agentID: "cleanup" })
+        const file = path.join(tmp.path, "src/example.ts")
+
+        await SessionMarker.track({
+          sessionID: orchestrator.id,
+          file,
+          before: "// @TODO existing\nconst a = 1\n",
+          after: "// @TODO existing\nconst a = 1\n// @TODO review a\nconst b = 2\n",
+        })
+        let ledger = await SessionMarker.get(orchestrator.id)
+        expect(ledger.markers).toEqual([
+          { file: "src/example.ts", line: 3, text: "// @TODO review a", sessionID: orchestrator.id },
+        ])
+        expect(ledger.added).toBe(1)
+        expect(await SessionMarker.owner(cleanup.id)).toBe(orchestrator.id)
+        expect((await SessionMarker.remaining(orchestrator.id)).cleanup).toBe(true)
+
+        await SessionMarker.track({
+          sessionID: cleanup.id,
+          file,
+          before: "// @TODO existing\nconst a = 1\n// @TODO review a\nconst b = 2\n",
+          after: "// @TODO existing\nconst a = 1\nconst b = 2\n",
+        })
+        ledger = await SessionMarker.get(orchestrator.id)
+        expect(ledger.markers).toEqual([])
+        expect(ledger.removed).toBe(1)
+
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("keeps markers from edits tracked at the same time", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        await Promise.all(
+          ["a", "b", "c"].map((name) =>
+            SessionMarker.track({
+              sessionID: orchestrator.id,
+              file: path.join(tmp.path, `src/${name}.ts`),
+              before: "",
+              after: `// @TODO review ${name}\n`,
+            }),
+          ),
+        )
+        const ledger = await SessionMarker.get(orchestrator.id)
+        expect(ledger.markers.map((x) => x.file).sort()).toEqual(["src/a.ts", "src/b.ts", "src/c.ts"])
+        expect(ledger.added).toBe(3)
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("owner resolves persistent agents placed at depth 1 by the hierarchy", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        agent: { reviewer: { single_shot: false } },
+        hierarchy: { levels: { "1": { agents: ["orchestrator", "reviewer"] } } },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const reviewer = await Session.create({ parentID: pm.id, agentID: "reviewer" })
+        const general = await Session.create({ parentID: reviewer.id, agentID: "general" })
+
+        expect(await SessionMarker.owner(general.id)).toBe(reviewer.id)
+        expect(await SessionMarker.owner(pm.id)).toBeUndefined()
+
+        await Session.remove(pm.id)
+      },
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionPin } from "../../src/session/pin"
+import { SessionCompaction } from "../../src/session/compaction"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function user(sessionID: string) {
+  return Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "user",
+    sessionID,
+    agent: "build",
+    model: { providerID: "openai", modelID: "gpt-4" },
+    time: { created: Date.now() },
+  })
+}
+
+async function assistant(sessionID: string, parentID: string) {
+  return Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "assistant",
+    sessionID,
+    parentID,
+    mode: "build",
+    agent: "build",
+    path: { cwd: "/", root: "/" },
+    cost: 0,
+    tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    modelID: "gpt-4",
+    providerID: "openai",
+    time: { created: Date.now() },
+    finish: "tool-calls",
+  })
+}
+
+async function tool(message: MessageV2.Info, name: string, input: Record<string, any>, output: string) {
+  return (await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: message.id,
+    sessionID: message.sessionID,
+    type: "tool",
+    callID: Identifier.ascending("tool"),
+    tool: name,
+    state: {
+      status: "completed",
+      input,
+      output,
+      title: name,
+      metadata: {},
+      time: { start: Date.now(), end: Date.now() },
+    },
+  })) as MessageV2.ToolPart
+}
+
+async function text(message: MessageV2.Info, text: string) {
+  return (await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: message.id,
+    sessionID: message.sessionID,
+    type: "text",
+    text,
+  })) as MessageV2.TextPart
+}
+
+describe("session.pin", () => {
+  test("orchestration records are pinned and carried verbatim unless opted out", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const ask = await user(session.id)
+        const answer = await assistant(session.id, ask.id)
+        const verdict = await tool(answer, "audit_verdict", { verdict: "PASS" }, "Recorded PASS")
+        const orchestrator = await tool(
+          answer,
+          "task",
+          { description: "Build it", subagent_type: "orchestrator" },
+          "[COMPLETED] built",
+        )
+        const explore = await tool(answer, "task", { description: "Look", subagent_type: "explore" }, "found it")
+        const read = await tool(answer, "read", { filePath: "a.ts" }, "contents")
+
+        expect(await SessionPin.pinned(verdict)).toBe(true)
+        expect(await SessionPin.pinned(orchestrator)).toBe(true)
+        expect(await SessionPin.pinned(explore)).toBe(false)
+        expect(await SessionPin.pinned(read)).toBe(false)
+
+        await SessionPin.curate({ sessionID: session.id, messageID: answer.id, partID: read.id, pinned: true })
+        await SessionPin.curate({ sessionID: session.id, messageID: answer.id, partID: verdict.id, pinned: false })
+
+        const messages = await Session.messages({ sessionID: session.id })
+        const carried = await SessionPin.carry({ sessionID: session.id, messageID: "msg_summary", messages })
+        expect(carried.map((x) => x.text)).toEqual([
+          '<tool name="task" title="task">\ndescription: Build it\n\n[COMPLETED] built\n</tool>',
+          '<tool name="read" title="read">\n{"filePath":"a.ts"}\n\ncontents\n</tool>',
+        ])
+        expect(carried.every((x) => x.pinned && x.messageID === "msg_summary")).toBe(true)
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("prune keeps the output of pinned parts", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const first = await user(session.id)
+        const answer = await assistant(session.id, first.id)
+        const decision = await tool(answer, "project_state_write", { append: {} }, "x".repeat(200_000))
+        const log = await tool(answer, "bash", { command: "bun test" }, "y".repeat(240_000))
+        await user(session.id)
+        await user(session.id)
+
+        await SessionCompaction.prune({ sessionID: session.id })
+        const parts = (await Session.messages({ sessionID: session.id })).flatMap((x) => x.parts)
+        const compacted = (id: string) => {
+          const part = parts.find((x) => x.id === id) as MessageV2.ToolPart
+          return part.state.status === "completed" && part.state.time.compacted !== undefined
+        }
+        expect(compacted(log.id)).toBe(true)
+        expect(compacted(decision.id)).toBe(false)
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("curation excludes parts from context and pins them past an earlier compaction", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const first = await user(session.id)
+        const answer = await assistant(session.id, first.id)
+        const read = await tool(answer, "read", { filePath: "a.ts" }, "contents")
+        const compact = await user(session.id)
+        await Session.updatePart({
+          id: Identifier.ascending("part"),
+          messageID: compact.id,
+          sessionID: session.id,
+          type: "compaction",
+          auto: false,
+        })
+        const summary = await Session.updateMessage({
+          ...(await assistant(session.id, compact.id)),
+          summary: true,
+          finish: "stop",
+        } as MessageV2.Assistant)
+        await text(summary, "what happened so far")
+        const last = await user(session.id)
+        const question = await text(last, "and now?")
+        const context = () => MessageV2.filterCompacted(MessageV2.stream(session.id))
+        const parts = async (messageID: string) => (await context()).find((x) => x.info.id === messageID)!.parts
+
+        // the summarized part is carried into the latest summary
+        await SessionPin.curate({ sessionID: session.id, messageID: answer.id, partID: read.id, pinned: true })
+        expect((await context()).map((x) => x.info.id)).toEqual([compact.id, summary.id, last.id])
+        const carried = (await parts(summary.id)).filter((x) => x.pinned)
+        expect(carried).toHaveLength(1)
+        expect(carried[0].type === "text" && carried[0].metadata?.source).toBe(read.id)
+
+        // excluding it drops the carried copy again
+        await SessionPin.curate({ sessionID: session.id, messageID: answer.id, excluded: true })
+        expect((await parts(summary.id)).map((x) => x.type === "text" && x.text)).toEqual(["what happened so far"])
+
+        await SessionPin.curate({ sessionID: session.id, messageID: last.id, partID: question.id, excluded: true })
+        expect(await parts(last.id)).toEqual([])
+        await SessionPin.curate({ sessionID: session.id, messageID: last.id, excluded: null })
+        expect((await parts(last.id)).map((x) => x.id)).toEqual([question.id])
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
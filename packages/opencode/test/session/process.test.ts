@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionProcess } from "../../src/session/process"
+import { Pty } from "../../src/pty"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.process", () => {
+  test("reads output incrementally, waits for patterns and accepts input", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const info = await SessionProcess.start({
+          sessionID: session.id,
+          command: "sh",
+          args: ["-c", "echo ready; read line; echo got $line; sleep 30"],
+          cwd: tmp.path,
+          title: "echo server",
+        })
+
+        // the command runs as given; terminals opened through the API still become login shells
+        expect(Pty.get(info.id)?.args).toEqual(["-c", "echo ready; read line; echo got $line; sleep 30"])
+        const terminal = await Pty.create({ command: "sh", args: ["-i"], cwd: tmp.path })
+        expect(terminal.args).toEqual(["-i", "-l"])
+        await Pty.remove(terminal.id)
+
+        const ready = await SessionProcess.read({ sessionID: session.id, id: info.id, until: /ready/, timeout: 5000 })
+        expect(ready.matched).toBe(true)
+        expect(ready.output).toContain("ready")
+
+        SessionProcess.write({ sessionID: session.id, id: info.id, data: "ping\r" })
+        const reply = await SessionProcess.read({
+          sessionID: session.id,
+          id: info.id,
+          until: /got ping/,
+          timeout: 5000,
+        })
+        expect(reply.matched).toBe(true)
+        // output already returned is not repeated
+        expect(reply.output).not.toContain("ready")
+
+        // processes are scoped to the session that started them
+        expect(() => SessionProcess.write({ sessionID: "ses_other", id: info.id, data: "x" })).toThrow(
+          SessionProcess.NotFoundError,
+        )
+
+        const killed = await SessionProcess.kill({ sessionID: session.id, id: info.id })
+        expect(killed.status).toBe("exited")
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("cleanup kills the processes of a session", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const info = await SessionProcess.start({
+          sessionID: session.id,
+          command: "sh",
+          args: ["-c", "sleep 30"],
+          cwd: tmp.path,
+          title: "sleep",
+        })
+        expect(SessionProcess.list(session.id).map((x) => x.id)).toEqual([info.id])
+
+        await SessionProcess.cleanup(session.id)
+        expect(SessionProcess.list(session.id)).toEqual([])
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test"
+import { Bus } from "../../src/bus"
+import { MCP } from "../../src/mcp"
+import { Session } from "../../src/session"
+import { SessionResource } from "../../src/session/resource"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { Storage } from "../../src/storage/storage"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const uri = "notes://today"
+
+describe("session.resource", () => {
+  test("an update marks the attached resource stale and the next turn notes it once", async () => {
+    await using tmp = await tmpdir({ git: true, config: { experimental: { mcp_resource_updates: "mark" } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        SessionResource.init()
+        const session = await Session.create({})
+        await SessionResource.track(session.id, { clientName: "notes", uri, filename: "today" })
+        expect(await SessionResource.list(session.id)).toEqual([
+          expect.objectContaining({ clientName: "notes", uri, subscribed: false, stale: false }),
+        ])
+
+        await Bus.publish(MCP.ResourceUpdated, { server: "other", uri })
+        expect((await SessionResource.list(session.id))[0].stale).toBe(false)
+        await Bus.publish(MCP.ResourceUpdated, { server: "notes", uri })
+        expect((await SessionResource.list(session.id))[0].stale).toBe(true)
+
+        const parts = await SessionResource.refresh({ sessionID: session.id, messageID: "msg_test" })
+        expect(parts.map((x) => x.text)).toEqual([
+          `MCP resource today (${uri}) was updated since it was read; its content above may be outdated.`,
+        ])
+        expect(await SessionResource.refresh({ sessionID: session.id, messageID: "msg_test" })).toEqual([])
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("refreshing keeps the resource stale when it cannot be read", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        SessionResource.init()
+        const session = await Session.create({})
+        await SessionResource.track(session.id, { clientName: "notes", uri })
+        await Bus.publish(MCP.ResourceUpdated, { server: "notes", uri })
+
+        const parts = await SessionResource.refresh({ sessionID: session.id, messageID: "msg_test" })
+        expect(parts[0].text).toStartWith(`Failed to refresh MCP resource ${uri} (${uri})`)
+        expect((await SessionResource.list(session.id))[0].stale).toBe(true)
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("an update that arrives while refreshing is kept, and removing the session drops its resources", async () => {
+    await using tmp = await tmpdir({ git: true, config: { experimental: { mcp_resource_updates: "mark" } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        SessionResource.init()
+        const session = await Session.create({})
+        await SessionResource.track(session.id, { clientName: "notes", uri })
+        await Bus.publish(MCP.ResourceUpdated, { server: "notes", uri })
+
+        const [parts] = await Promise.all([
+          SessionResource.refresh({ sessionID: session.id, messageID: "msg_test" }),
+          Bus.publish(MCP.ResourceUpdated, { server: "notes", uri }),
+        ])
+        expect(parts).toHaveLength(1)
+        const [resource] = await SessionResource.list(session.id)
+        expect(resource.stale).toBe(true)
+        expect(resource.time.updated).toBeGreaterThanOrEqual(resource.time.notified!)
+
+        await Session.remove(session.id)
+        expect(await Storage.list(["session_resource", Instance.project.id])).toEqual([])
+      },
+    })
+  })
+})
@@ -129,3 +129,17 @@ describe("session.message-v2.fromError", () => {
     expect(retryable).toBe("Connection reset by server")
   })
 })
+
+describe("session.retry.overflow", () => {
+  test("detects context window errors", () => {
+    const error = (message: string) =>
+      new MessageV2.APIError({ message, isRetryable: false }).toObject() as MessageV2.APIError
+    expect(SessionRetry.overflow(error("prompt is too long: 210000 tokens > 200000 maximum"))).toBe(true)
+    expect(
+      SessionRetry.overflow(
+        error("This model's maximum context length is 128000 tokens. However, you requested 130000"),
+      ),
+    ).toBe(true)
+    expect(SessionRetry.overflow(error("Provider is overloaded"))).toBe(false)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionTaskLink } from "../../src/session/task-link"
+import { MessageV2 } from "../../src/session/message-v2"
+import { SessionStatus } from "../../src/session/status"
+import { SessionPrompt } from "../../src/session/prompt"
+import { Bus } from "../../src/bus"
+import { Log } from "../../src/util/log"
+import { Instance } from "../../src/project/instance"
+import { Identifier } from "../../src/id/id"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function taskCall(sessionID: string) {
+  const user = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "user",
+    sessionID,
+    agent: "pm",
+    model: { providerID: "openai", modelID: "gpt-4" },
+    time: { created: Date.now() },
+  })
+  const assistant: MessageV2.Assistant = {
+    id: Identifier.ascending("message"),
+    role: "assistant",
+    sessionID,
+    mode: "pm",
+    agent: "pm",
+    path: { cwd: "/", root: "/" },
+    cost: 0,
+    tokens: { output: 0, input: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    modelID: "gpt-4",
+    providerID: "openai",
+    parentID: user.id,
+    time: { created: Date.now() },
+  }
+  await Session.updateMessage(assistant)
+  const part = await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: assistant.id,
+    sessionID,
+    type: "tool",
+    callID: "call_1",
+    tool: "task",
+    state: {
+      status: "running",
+      input: { description: "Build feature", subagent_type: "orchestrator" },
+      time: { start: Date.now() },
+    },
+  })
+  return { messageID: assistant.id, partID: part.id }
+}
+
+describe("session.task-link", () => {
+  test("finish hands the result to a waiting task call", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        await SessionTaskLink.create({
+          sessionID: orchestrator.id,
+          parentID: pm.id,
+          messageID: "msg_1",
+          callID: "call_1",
+          agent: "orchestrator",
+          description: "Build feature",
+        })
+        expect((await SessionTaskLink.list(pm.id)).map((x) => x.status)).toEqual(["running"])
+
+        const waiting = SessionTaskLink.wait(orchestrator.id, new AbortController().signal)
+        await SessionTaskLink.finish(pm.id, orchestrator.id, { status: "completed", summary: "done" })
+        expect(await waiting).toEqual({ type: "finished", result: { status: "completed", summary: "done" } })
+
+        const link = await SessionTaskLink.get(pm.id, orchestrator.id)
+        expect(link?.status).toBe("finished")
+        expect(link?.result?.summary).toBe("done")
+
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("init closes task calls left waiting by a previous process and resumes the parent", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const orchestrator = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+        const call = await taskCall(pm.id)
+        await SessionTaskLink.create({
+          sessionID: orchestrator.id,
+          parentID: pm.id,
+          messageID: call.messageID,
+          callID: "call_1",
+          agent: "orchestrator",
+          description: "Build feature",
+        })
+
+        // the parent's loop died with the previous process and picks up the closed call
+        const resumed = new Promise<void>((resolve) => {
+          const unsubscribe = Bus.subscribe(SessionStatus.Event.Status, (event) => {
+            if (event.properties.sessionID !== pm.id || event.properties.status.type !== "busy") return
+            unsubscribe()
+            resolve()
+          })
+        })
+        await SessionTaskLink.init()
+        await resumed
+        SessionPrompt.cancel(pm.id)
+
+        const message = await MessageV2.get({ sessionID: pm.id, messageID: call.messageID })
+        const part = message.parts.find((p) => p.id === call.partID) as MessageV2.ToolPart
+        expect(part.state.status).toBe("completed")
+        if (part.state.status !== "completed") return
+        expect(part.state.output).toContain("no longer running")
+        expect(part.state.output).toContain(`task_id: ${orchestrator.id}`)
+        // the link stays open so the eventual finish_task result can still be delivered
+        expect((await SessionTaskLink.get(pm.id, orchestrator.id))?.status).toBe("running")
+
+        await SessionTaskLink.remove(pm.id, orchestrator.id)
+        await Session.remove(pm.id)
+      },
+    })
+  })
+
+  test("format matches the task tool output", () => {
+    const output = SessionTaskLink.format("ses_1", {
+      status: "failed",
+      summary: "blocked",
+      learnings: ["needs credentials"],
+    })
+    expect(output).toStartWith("[FAILED] blocked\n\nLearnings:\n- needs credentials")
+    expect(output).toContain("<task_result>\n[FAILED] blocked\n</task_result>")
+  })
+
+  test("format passes leftover markers to the PM", () => {
+    const output = SessionTaskLink.format("ses_1", {
+      status: "completed",
+      summary: "done",
+      markers: ["src/a.ts:3: // @TODO review"],
+    })
+    expect(output).toContain("@TODO markers left after Cleanup ran:\n- src/a.ts:3: // @TODO review")
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Sandbox } from "../../src/shell/sandbox"
+import { tmpdir } from "../fixture/fixture"
+
+describe("shell.sandbox", () => {
+  test("mounts the filesystem read-only with write paths bound on top", () => {
+    const args = Sandbox.args({ write: ["dist"], network: false }, { cwd: "/work/app", root: "/work/app" })
+    expect(args.slice(0, 4)).toEqual(["--die-with-parent", "--ro-bind-try", "/", "/"])
+    expect(args.join(" ")).toContain("--bind-try /work/app/dist /work/app/dist")
+    expect(args).toContain("--unshare-net")
+    expect(args.slice(-2)).toEqual(["--chdir", "/work/app"])
+  })
+
+  test("narrowed read paths keep system directories and the working directory visible", () => {
+    const args = Sandbox.args({ read: ["src"] }, { cwd: "/tmp/project", root: "/work/app" }).join(" ")
+    expect(args).not.toContain("--ro-bind-try / /")
+    expect(args).toContain("--ro-bind-try /usr /usr")
+    expect(args).toContain("--ro-bind-try /work/app/src /work/app/src")
+    // the working directory is below the private /tmp, so it is mounted after it
+    expect(args.indexOf("--ro-bind-try /tmp/project")).toBeGreaterThan(args.indexOf("--tmpfs /tmp"))
+    expect(args).not.toContain("--unshare-net")
+  })
+
+  test("mounts each path once, writable when it is a write path", () => {
+    const args = Sandbox.args({ write: ["."] }, { cwd: "/tmp/project", root: "/tmp/project" }).join(" ")
+    expect(args).not.toContain("--ro-bind-try /tmp/project")
+    expect(args.split("--bind-try /tmp/project /tmp/project").length).toBe(2)
+  })
+
+  test("refuses to run unsandboxed unless the policy allows it", () => {
+    if (Sandbox.available()) return
+    const input = { shell: "bash", command: "true", cwd: "/", root: "/" }
+    expect(() => Sandbox.wrap({}, input)).toThrow(Sandbox.UnavailableError)
+    expect(Sandbox.wrap({ required: false }, input)).toBeUndefined()
+  })
+
+  test("commands cannot write outside the write paths", async () => {
+    if (!Sandbox.available()) return
+    await using tmp = await tmpdir()
+    await Bun.write(path.join(tmp.path, "out", ".keep"), "")
+    const run = (command: string) => {
+      const sandbox = Sandbox.wrap({ write: ["out"] }, { shell: "sh", command, cwd: tmp.path, root: tmp.path })!
+      return Bun.spawnSync([sandbox.file, ...sandbox.args]).exitCode
+    }
+    expect(run("touch blocked")).not.toBe(0)
+    expect(run("touch out/allowed")).toBe(0)
+    expect(await Bun.file(path.join(tmp.path, "blocked")).exists()).toBe(false)
+    expect(await Bun.file(path.join(tmp.path, "out", "allowed")).exists()).toBe(true)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Spec } from "../../src/spec"
+import { Instance } from "../../src/project/instance"
+import { Storage } from "../../src/storage/storage"
+import { tmpdir } from "../fixture/fixture"
+
+const draft = {
+  title: "Add login",
+  objective: "Users can log in with email and password",
+  criteria: [{ id: "AC-1", description: "Valid credentials create a session" }],
+  tests: [
+    {
+      id: "TC-1",
+      name: "valid login",
+      steps: "Given a user, when they log in, then a session exists",
+      criteria: ["AC-1"],
+    },
+  ],
+}
+
+describe("spec", () => {
+  test("persists specs under .opencode/specs", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const spec = await Spec.create(draft)
+        expect(spec.status).toBe("draft")
+        expect(await Bun.file(path.join(tmp.path, ".opencode", "specs", spec.id + ".json")).exists()).toBe(true)
+        expect(await Spec.get(spec.id)).toEqual(spec)
+        expect((await Spec.list()).map((x) => x.id)).toEqual([spec.id])
+      },
+    })
+  })
+
+  test("follows the approval state machine", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const spec = await Spec.create(draft)
+        await expect(Spec.transition(spec.id, "in_progress")).rejects.toBeInstanceOf(Spec.TransitionError)
+
+        const approved = await Spec.approve(spec.id)
+        expect(approved.status).toBe("approved")
+        expect(approved.time.approved).toBeDefined()
+
+        const running = await Spec.transition(spec.id, "in_progress", { orchestratorID: "ses_orchestrator" })
+        expect(running.orchestratorID).toBe("ses_orchestrator")
+        expect((await Spec.byOrchestrator("ses_orchestrator"))?.id).toBe(spec.id)
+
+        await expect(Spec.transition(spec.id, "done")).rejects.toBeInstanceOf(Spec.TransitionError)
+        await Spec.transition(spec.id, "audited")
+        expect((await Spec.transition(spec.id, "done")).status).toBe("done")
+      },
+    })
+  })
+
+  test("override closes an in-progress spec without an audit", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const spec = await Spec.create(draft)
+        await expect(Spec.override(spec.id)).rejects.toBeInstanceOf(Spec.TransitionError)
+        await Spec.approve(spec.id)
+        await Spec.transition(spec.id, "in_progress")
+        expect((await Spec.override(spec.id)).status).toBe("done")
+      },
+    })
+  })
+
+  test("reject returns the spec to draft with feedback", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const spec = await Spec.create(draft)
+        await Spec.approve(spec.id)
+        const rejected = await Spec.reject(spec.id, "add a test for invalid passwords")
+        expect(rejected.status).toBe("draft")
+        expect(rejected.feedback).toBe("add a test for invalid passwords")
+
+        const revised = await Spec.revise(spec.id, { title: "Add login and logout" })
+        expect(revised.title).toBe("Add login and logout")
+        expect(revised.criteria).toEqual(draft.criteria)
+
+        await Spec.approve(spec.id)
+        await expect(Spec.revise(spec.id, { title: "changed" })).rejects.toBeInstanceOf(Spec.TransitionError)
+      },
+    })
+  })
+
+  test("concurrent changes see each other's writes", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const spec = await Spec.create(draft)
+        await Spec.approve(spec.id)
+        // both would start from approved without the lock, and two orchestrators would own the spec
+        const results = await Promise.allSettled([
+          Spec.transition(spec.id, "in_progress", { orchestratorID: "ses_a" }),
+          Spec.transition(spec.id, "in_progress", { orchestratorID: "ses_b" }),
+        ])
+        expect(results.map((x) => x.status).sort()).toEqual(["fulfilled", "rejected"])
+        expect((await Spec.get(spec.id)).orchestratorID).toBe("ses_a")
+      },
+    })
+  })
+
+  test("get throws NotFoundError for unknown ids", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await expect(Spec.get("spc_missing")).rejects.toBeInstanceOf(Storage.NotFoundError)
+        await expect(Spec.get("../project-state")).rejects.toBeInstanceOf(Storage.NotFoundError)
+      },
+    })
+  })
+})
@@ -1,11 +1,23 @@
-import { describe, expect, test, mock, beforeEach } from "bun:test"
+import { describe, expect, test, mock, beforeEach, afterEach } from "bun:test"
 import { FinishTaskTool } from "../../src/tool/finish-task"
 import { Instance } from "../../src/project/instance"
+import * as SessionModule from "../../src/session"
+import { Session } from "../../src/session"
+import { SessionAudit } from "../../src/session/audit"
+import { SessionMarker } from "../../src/session/marker"
+import { SessionDiagnostic } from "../../src/session/diagnostic"
+import { Question } from "../../src/question"
+import { Bus } from "../../src/bus"
+import { Log } from "../../src/util/log"
 import { tmpdir } from "../fixture/fixture"
 import path from "path"
 
+Log.init({ print: false })
+
 const SRC_ROOT = path.resolve(__dirname, "../../src")
 const SESSION_PATH = path.join(SRC_ROOT, "session/index.ts")
+// module mocks outlive the file, so the real session module is put back after each test
+const RealSession = { ...SessionModule }
 
 const ctx = {
   sessionID: "child-123",
@@ -17,11 +29,47 @@ const ctx = {
   ask: async () => {},
 }
 
+/** A PM session with an orchestrator child, the session finish_task is called from. */
+async function orchestrator() {
+  const pm = await Session.create({})
+  const session = await Session.create({ parentID: pm.id, agentID: "orchestrator" })
+  return { pm, session, ctx: { ...ctx, sessionID: session.id } }
+}
+
+function audit(sessionID: string, verdict: "PASS" | "FAIL") {
+  return SessionAudit.record({
+    sessionID,
+    auditorSessionID: "ses_auditor",
+    verdict,
+    summary: `audit ${verdict}`,
+    issues: [],
+    criteria: [],
+  })
+}
+
+/** Answers every question asked while `fn` runs with `answer`. */
+async function answering<T>(answer: string, fn: () => Promise<T>) {
+  const asked: Question.Request[] = []
+  const unsubscribe = Bus.subscribe(Question.Event.Asked, (event) => {
+    asked.push(event.properties)
+    Question.reply({ requestID: event.properties.id, answers: [[answer]] })
+  })
+  try {
+    return { result: await fn(), asked }
+  } finally {
+    unsubscribe()
+  }
+}
+
 describe("tool.finish-task", () => {
   beforeEach(() => {
     mock.restore()
   })
 
+  afterEach(() => {
+    mock.module(SESSION_PATH, () => RealSession)
+  })
+
   test("validates required parameters", async () => {
     const impl = await FinishTaskTool.init()
     const result = impl.parameters.safeParse({
@@ -52,41 +100,34 @@ describe("tool.finish-task", () => {
       directory: tmp.path,
       fn: async () => {
         const impl = await FinishTaskTool.init()
-        await expect(impl.execute({ summary: "Done", status: "completed" }, ctx)).rejects.toThrow("Cannot find current session")
+        await expect(impl.execute({ summary: "Done", status: "completed" }, ctx)).rejects.toThrow(
+          "Cannot find current session",
+        )
       },
     })
   })
 
   test("throws when no parentID (not a child session)", async () => {
-    mock.module(SESSION_PATH, () => ({
-      Session: {
-        get: mock(() => Promise.resolve({ id: "session-123", parentID: undefined })),
-      },
-    }))
-
-    await using tmp = await tmpdir()
+    await using tmp = await tmpdir({ git: true })
     await Instance.provide({
       directory: tmp.path,
       fn: async () => {
+        const session = await Session.create({})
         const impl = await FinishTaskTool.init()
-        await expect(impl.execute({ summary: "Done", status: "completed" }, ctx)).rejects.toThrow(
-          "finish_task can only be called from a child session",
-        )
+        await expect(
+          impl.execute({ summary: "Done", status: "completed" }, { ...ctx, sessionID: session.id }),
+        ).rejects.toThrow("finish_task can only be called from a child session")
       },
     })
   })
 
   test("returns correct output and metadata", async () => {
-    mock.module(SESSION_PATH, () => ({
-      Session: {
-        get: mock(() => Promise.resolve({ id: "child-123", parentID: "parent-456" })),
-      },
-    }))
-
-    await using tmp = await tmpdir()
+    await using tmp = await tmpdir({ git: true })
     await Instance.provide({
       directory: tmp.path,
       fn: async () => {
+        const { pm, session, ctx } = await orchestrator()
+        await audit(session.id, "PASS")
         const impl = await FinishTaskTool.init()
         const result = await impl.execute(
           {
@@ -101,14 +142,120 @@ describe("tool.finish-task", () => {
         expect(result.output).toContain("Summary: Task completed successfully")
         // Tool.define wrapper adds truncated: false at runtime
         expect(result.metadata).toMatchObject({
-          parentSessionID: "parent-456",
-          childSessionID: "child-123",
+          parentSessionID: pm.id,
+          childSessionID: session.id,
           status: "completed",
           summary: "Task completed successfully",
           learnings: ["Learning 1"],
+          audit: "PASS",
         })
         expect((result.metadata as Record<string, unknown>).truncated).toBe(false)
       },
     })
   })
+
+  test("rejects completed without a passing audit when the user keeps working", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { session, ctx } = await orchestrator()
+        await audit(session.id, "FAIL")
+        const impl = await FinishTaskTool.init()
+        const { asked } = await answering("Keep working", async () => {
+          await expect(impl.execute({ summary: "Done", status: "completed" }, ctx)).rejects.toThrow(
+            "The latest audit verdict is FAIL",
+          )
+        })
+        expect(asked).toHaveLength(1)
+      },
+    })
+  })
+
+  test("accepts completed without an audit when the user overrides", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { ctx } = await orchestrator()
+        const impl = await FinishTaskTool.init()
+        const { result } = await answering("Complete anyway", () =>
+          impl.execute({ summary: "Done", status: "completed" }, ctx),
+        )
+        expect(result.output).toContain("overridden by the user")
+        expect(result.metadata).toMatchObject({ auditOverridden: true })
+      },
+    })
+  })
+
+  test("does not require an audit for failed tasks", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { ctx } = await orchestrator()
+        const impl = await FinishTaskTool.init()
+        const { result, asked } = await answering("Keep working", () =>
+          impl.execute({ summary: "Blocked", status: "failed" }, ctx),
+        )
+        expect(result.metadata).toMatchObject({ status: "failed", auditOverridden: false })
+        expect(asked).toHaveLength(0)
+      },
+    })
+  })
+
+  test("warns when markers remain after cleanup ran", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { session, ctx } = await orchestrator()
+        await audit(session.id, "PASS")
+        await SessionMarker.track({
+          sessionID: session.id,
+          file: path.join(tmp.path, "src/a.ts"),
+          before: "",
+          after: "const a = 1\n\n// @TODO review\n",
+        })
+        await Session.create({ parentID: session.id, agentID: "cleanup" })
+
+        const impl = await FinishTaskTool.init()
+        const result = await impl.execute({ summary: "Done", status: "completed" }, ctx)
+        expect(result.output).toContain("1 @TODO marker(s) remain after Cleanup ran")
+        expect(result.output).toContain("src/a.ts:3")
+        expect(result.metadata).toMatchObject({ markers: 1 })
+      },
+    })
+  })
+
+  test("reports outstanding diagnostics introduced by the subtree", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { session, ctx } = await orchestrator()
+        await audit(session.id, "PASS")
+        const file = path.join(tmp.path, "src/a.ts")
+        await SessionDiagnostic.check({
+          sessionID: session.id,
+          baseline: { orchestratorID: session.id, file, issues: [] },
+          diagnostics: {
+            [file]: [
+              {
+                range: { start: { line: 6, character: 0 }, end: { line: 6, character: 1 } },
+                severity: 1,
+                message: "Cannot find name 'x'.",
+              },
+            ],
+          },
+        })
+
+        const impl = await FinishTaskTool.init()
+        const result = await impl.execute({ summary: "Done", status: "completed" }, ctx)
+        expect(result.output).toContain("1 diagnostic(s) introduced in this task are still outstanding")
+        expect(result.output).toContain("src/a.ts:7:1 Cannot find name 'x'.")
+        expect(result.metadata).toMatchObject({ diagnostics: 1 })
+      },
+    })
+  })
 })
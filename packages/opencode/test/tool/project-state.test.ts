@@ -1,12 +1,15 @@
-import { describe, expect, test, mock, beforeEach } from "bun:test"
-import { ProjectStateReadTool, ProjectStateWriteTool, ProjectStateStorage } from "../../src/tool/project-state"
+import { describe, expect, test, mock, beforeEach, afterEach } from "bun:test"
+import { ProjectStateReadTool, ProjectStateWriteTool } from "../../src/tool/project-state"
 import { Instance } from "../../src/project/instance"
+import * as SessionModule from "../../src/session"
 import { tmpdir } from "../fixture/fixture"
 import path from "path"
 import fs from "fs/promises"
 
 const SRC_ROOT = path.resolve(__dirname, "../../src")
 const SESSION_PATH = path.join(SRC_ROOT, "session/index.ts")
+// module mocks outlive the file, so the real session module is put back after each test
+const RealSession = { ...SessionModule }
 const getStateFile = (root: string) => path.join(root, ".opencode", "project-state.json")
 
 function mockPmSession() {
@@ -32,36 +35,8 @@ describe("tool.project-state", () => {
     mock.restore()
   })
 
-  describe("ProjectStateStorage", () => {
-    test("read returns empty state on NotFoundError", async () => {
-      await using tmp = await tmpdir()
-      const state = await ProjectStateStorage.read(tmp.path)
-      expect(state).toEqual({
-        objectives: [],
-        decisions: [],
-        learnings: [],
-        todos: [],
-      })
-    })
-
-    test("write merges partial state", async () => {
-      const existing = {
-        objectives: ["old"],
-        decisions: [],
-        learnings: [],
-        todos: [],
-      }
-      await using tmp = await tmpdir()
-      const stateFile = getStateFile(tmp.path)
-      await fs.mkdir(path.dirname(stateFile), { recursive: true })
-      await Bun.write(stateFile, JSON.stringify(existing, null, 2))
-
-      const updated = await ProjectStateStorage.write(tmp.path, { objectives: ["new"] })
-      expect(updated.objectives).toEqual(["new"])
-      const saved = await Bun.file(stateFile).json()
-      expect(saved.objectives).toEqual(["new"])
-      expect(saved.lastUpdated).toBeDefined()
-    })
+  afterEach(() => {
+    mock.module(SESSION_PATH, () => RealSession)
   })
 
   describe("Tools", () => {
@@ -103,7 +78,8 @@ describe("tool.project-state", () => {
         fn: async () => {
           const impl = await ProjectStateReadTool.init()
           const result = await impl.execute({}, ctx)
-          expect(result.output).toBe(JSON.stringify(existing))
+          // unversioned files are migrated on read
+          expect(result.output).toBe(JSON.stringify({ version: 1, ...existing, history: [], preferences: {} }))
           expect(result.output).not.toContain("\n")
         },
       })
@@ -138,7 +114,7 @@ describe("tool.project-state", () => {
       })
     })
 
-    test("write tool appends add* fields and returns short confirmation", async () => {
+    test("write tool appends entries and returns short confirmation", async () => {
       mockPmSession()
 
       const existing = {
@@ -159,9 +135,13 @@ describe("tool.project-state", () => {
           const impl = await ProjectStateWriteTool.init()
           const result = await impl.execute(
             {
-              addDecisions: [{ decision: "new decision", rationale: "new rationale", timestamp: "2026-01-01T00:00:00.000Z" }],
-              addLearnings: [{ topic: "new", insight: "new insight" }],
-              addTodos: [{ id: "new", task: "new task", status: "in_progress", priority: "high" }],
+              append: {
+                decisions: [
+                  { decision: "new decision", rationale: "new rationale", timestamp: "2026-01-01T00:00:00.000Z" },
+                ],
+                learnings: [{ topic: "new", insight: "new insight" }],
+                todos: [{ id: "new", task: "new task", status: "in_progress", priority: "high" }],
+              },
             },
             ctx,
           )
@@ -185,22 +165,41 @@ describe("tool.project-state", () => {
       })
     })
 
-    test("write tool full-replace fields still work", async () => {
+    test("write tool patches todos instead of replacing the array", async () => {
       mockPmSession()
 
       await using tmp = await tmpdir()
       const stateFile = getStateFile(tmp.path)
       await fs.mkdir(path.dirname(stateFile), { recursive: true })
-      await Bun.write(stateFile, JSON.stringify({ todos: [{ id: "old", task: "keep", status: "pending", priority: "low" }] }, null, 2))
+      await Bun.write(
+        stateFile,
+        JSON.stringify(
+          { version: 1, todos: [{ id: "old", task: "keep", status: "pending", priority: "low" }] },
+          null,
+          2,
+        ),
+      )
 
       await Instance.provide({
         directory: tmp.path,
         fn: async () => {
           const impl = await ProjectStateWriteTool.init()
-          await impl.execute({ todos: [{ id: "new", task: "replace", status: "completed", priority: "high" }] }, ctx)
+          await impl.execute(
+            {
+              append: { todos: [{ id: "new", task: "add", status: "pending", priority: "high" }] },
+              patch: { todos: [{ id: "old", status: "completed" }] },
+            },
+            ctx,
+          )
 
           const saved = await Bun.file(stateFile).json()
-          expect(saved.todos).toEqual([{ id: "new", task: "replace", status: "completed", priority: "high" }])
+          expect(saved.todos).toEqual([
+            { id: "old", task: "keep", status: "completed", priority: "low" },
+            { id: "new", task: "add", status: "pending", priority: "high" },
+          ])
+          await expect(
+            impl.execute({ patch: { todos: [{ id: "missing", status: "completed" }] } }, ctx),
+          ).rejects.toThrow('no todo with id "missing"')
         },
       })
     })
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test"
+import { TaskGraph, TaskGraphTool } from "../../src/tool/task-graph"
+import { Instance } from "../../src/project/instance"
+import { Session } from "../../src/session"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function node(id: string, depends_on?: string[]): TaskGraph.Node {
+  return { id, description: id, prompt: `do ${id}`, subagent_type: "investigator", depends_on }
+}
+
+describe("tool.task-graph", () => {
+  describe("sort", () => {
+    test("orders nodes after their dependencies", () => {
+      const order = TaskGraph.sort([node("audit", ["a", "b"]), node("a"), node("b", ["a"])]).map((x) => x.id)
+      expect(order).toEqual(["a", "b", "audit"])
+    })
+
+    test("rejects duplicate ids", () => {
+      expect(() => TaskGraph.sort([node("a"), node("a")])).toThrow("Duplicate task graph node id: a")
+    })
+
+    test("rejects unknown dependencies", () => {
+      expect(() => TaskGraph.sort([node("a", ["missing"])])).toThrow("depends on unknown node missing")
+    })
+
+    test("rejects cycles", () => {
+      expect(() => TaskGraph.sort([node("a", ["b"]), node("b", ["a"]), node("c")])).toThrow("dependency cycle")
+      expect(() => TaskGraph.sort([node("a", ["a"])])).toThrow("depends on itself")
+    })
+  })
+
+  describe("run", () => {
+    test("runs independent nodes concurrently up to the limit", async () => {
+      let active = 0
+      let peak = 0
+      const results = await TaskGraph.run({
+        nodes: [node("a"), node("b"), node("c"), node("d")],
+        concurrency: 2,
+        abort: new AbortController().signal,
+        async execute(n) {
+          active++
+          peak = Math.max(peak, active)
+          await Bun.sleep(10)
+          active--
+          return { output: n.id }
+        },
+      })
+      expect(peak).toBe(2)
+      expect(results.map((x) => x.status)).toEqual(["completed", "completed", "completed", "completed"])
+    })
+
+    test("passes dependency results to dependents", async () => {
+      const seen: Record<string, string[]> = {}
+      await TaskGraph.run({
+        nodes: [node("a"), node("b"), node("audit", ["a", "b"])],
+        concurrency: 4,
+        abort: new AbortController().signal,
+        async execute(n, deps) {
+          seen[n.id] = deps.map((x) => x.output)
+          return { output: `result ${n.id}` }
+        },
+      })
+      expect(seen.audit).toEqual(["result a", "result b"])
+      expect(TaskGraph.prompt(node("audit"), [{ id: "a", status: "completed", output: "result a" }])).toContain(
+        '<result id="a">\nresult a\n</result>',
+      )
+    })
+
+    test("skips dependents of failed nodes transitively", async () => {
+      const executed: string[] = []
+      const results = await TaskGraph.run({
+        nodes: [node("a"), node("b", ["a"]), node("c", ["b"]), node("d")],
+        concurrency: 4,
+        abort: new AbortController().signal,
+        async execute(n) {
+          executed.push(n.id)
+          if (n.id === "a") throw new Error("boom")
+          return { output: n.id }
+        },
+      })
+      expect(executed.sort()).toEqual(["a", "d"])
+      const byID = Object.fromEntries(results.map((x) => [x.id, x]))
+      expect(byID.a.status).toBe("failed")
+      expect(byID.a.output).toBe("boom")
+      expect(byID.b.status).toBe("skipped")
+      expect(byID.c.status).toBe("skipped")
+      expect(byID.d.status).toBe("completed")
+    })
+
+    test("skips pending nodes after abort", async () => {
+      const abort = new AbortController()
+      const results = await TaskGraph.run({
+        nodes: [node("a"), node("b", ["a"])],
+        concurrency: 1,
+        abort: abort.signal,
+        async execute(n) {
+          abort.abort()
+          return { output: n.id }
+        },
+      })
+      expect(results.map((x) => x.status)).toEqual(["completed", "skipped"])
+    })
+  })
+
+  test("rejects agents that run until finish_task before spawning anything", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pm = await Session.create({})
+        const tool = await TaskGraphTool.init()
+        const ctx = {
+          sessionID: pm.id,
+          messageID: "",
+          callID: "",
+          agent: "pm",
+          abort: AbortSignal.any([]),
+          metadata: () => {},
+          ask: async () => {},
+        }
+        await expect(
+          tool.execute({ nodes: [node("a"), { ...node("b"), subagent_type: "orchestrator" }] }, ctx),
+        ).rejects.toThrow("Task graph node b would spawn orchestrator, which runs until finish_task")
+        expect(await Session.children(pm.id)).toEqual([])
+        await Session.remove(pm.id)
+      },
+    })
+  })
+})
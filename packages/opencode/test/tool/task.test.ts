@@ -1,6 +1,12 @@
-import { describe, expect, test, mock, beforeEach } from "bun:test"
+import { describe, expect, test, mock, beforeEach, afterEach } from "bun:test"
 import { TaskTool } from "../../src/tool/task"
 import { Instance } from "../../src/project/instance"
+import * as SessionModule from "../../src/session"
+import * as MessageV2Module from "../../src/session/message-v2"
+import * as PromptModule from "../../src/session/prompt"
+import * as AgentModule from "../../src/agent/agent"
+import * as ConfigModule from "../../src/config/config"
+import * as BusModule from "../../src/bus"
 import { tmpdir } from "../fixture/fixture"
 import path from "path"
 
@@ -13,6 +19,16 @@ const AGENT_PATH = path.join(SRC_ROOT, "agent/agent.ts")
 const CONFIG_PATH = path.join(SRC_ROOT, "config/config.ts")
 const BUS_PATH = path.join(SRC_ROOT, "bus/index.ts")
 
+// module mocks outlive the file, so the real modules are put back after each test
+const real = [
+  [SESSION_PATH, { ...SessionModule }],
+  [MESSAGE_V2_PATH, { ...MessageV2Module }],
+  [PROMPT_PATH, { ...PromptModule }],
+  [AGENT_PATH, { ...AgentModule }],
+  [CONFIG_PATH, { ...ConfigModule }],
+  [BUS_PATH, { ...BusModule }],
+] as const
+
 const ctx = {
   sessionID: "test-session",
   messageID: "test-msg",
@@ -28,6 +44,10 @@ describe("tool.task", () => {
     mock.restore()
   })
 
+  afterEach(() => {
+    for (const [file, module] of real) mock.module(file, () => module)
+  })
+
   test("subagent (depth 2+) is ALWAYS singleShot", async () => {
     // Setup depth 1 session (Orchestrator calling Subagent)
     mock.module(SESSION_PATH, () => ({
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test"
+import fs from "fs/promises"
+import { ToolOutputTool } from "../../src/tool/tool-output"
+import { Truncate } from "../../src/tool/truncation"
+import { Session } from "../../src/session"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function context(sessionID: string) {
+  return {
+    sessionID,
+    messageID: "",
+    callID: "",
+    agent: "build",
+    abort: AbortSignal.any([]),
+    metadata: () => {},
+    ask: async () => {},
+  }
+}
+
+const log = Array.from({ length: 3000 }, (_, i) => (i === 1234 ? "FAIL test/foo.test.ts > bar" : `ok ${i}`)).join("\n")
+
+describe("tool.tool_output", () => {
+  test("indexes spilled outputs per session and retrieves them by id", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const child = await Session.create({ parentID: session.id })
+        const spilled = await Truncate.output(log, { sessionID: child.id, tool: "bash" })
+        if (!spilled.truncated) throw new Error("expected the log to be spilled")
+        const [spill] = await Truncate.spills(child.id)
+        expect(spill).toMatchObject({ sessionID: child.id, tool: "bash", lines: 3000 })
+        expect(spilled.content).toContain(`saved as ${spill.id}`)
+
+        const tool = await ToolOutputTool.init()
+        const listed = await tool.execute({ operation: "list" }, context(session.id))
+        expect(listed.output).toContain(`${spill.id} bash: 3000 lines`)
+        expect(listed.output).toContain(`child session ${child.id}`)
+
+        const summary = await tool.execute({ operation: "summary", id: spill.id }, context(session.id))
+        expect(summary.output).toContain("Lines mentioning errors or failures (1):")
+        expect(summary.output).toContain("01235| FAIL test/foo.test.ts > bar")
+        expect(summary.output).toContain("03000| ok 2999")
+
+        const grep = await tool.execute(
+          { operation: "grep", id: spill.id, pattern: "^FAIL", context: 1 },
+          context(session.id),
+        )
+        expect(grep.output).toContain("01234| ok 1233\n01235| FAIL test/foo.test.ts > bar\n01236| ok 1235")
+        expect(grep.output).toContain("(1 match from line 1)")
+
+        const page = await tool.execute({ operation: "page", id: spill.id, offset: 10, limit: 2 }, context(child.id))
+        expect(page.output).toContain("00011| ok 10\n00012| ok 11\n</tool_output>")
+        expect(page.output).toContain("Use offset 12 to continue")
+
+        const bytes = await tool.execute(
+          { operation: "page", id: spill.id, unit: "bytes", offset: 3, limit: 4 },
+          context(child.id),
+        )
+        expect(bytes.output).toContain('bytes="3-7">\n0\nok\n</tool_output>')
+
+        await fs.unlink(spilled.outputPath)
+        await expect(tool.execute({ operation: "summary", id: spill.id }, context(session.id))).rejects.toThrow(
+          `No saved output ${spill.id}`,
+        )
+        await expect(tool.execute({ operation: "page", id: "tool_../../x" }, context(session.id))).rejects.toThrow()
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
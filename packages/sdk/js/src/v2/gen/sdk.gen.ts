@@ -23,6 +23,7 @@ import type {
   EventTuiSessionSelect,
   EventTuiToastShow,
   ExperimentalResourceListResponses,
+  ExperimentalResourceTemplatesResponses,
   FileListResponses,
   FilePartInput,
   FilePartSource,
@@ -31,6 +32,8 @@ import type {
   FindFilesResponses,
   FindSymbolsResponses,
   FindTextResponses,
+  FormatterPreviewErrors,
+  FormatterPreviewResponses,
   FormatterStatusResponses,
   GlobalDisposeResponses,
   GlobalEventResponses,
@@ -93,12 +96,16 @@ import type {
   QuestionReplyResponses,
   SessionAbortErrors,
   SessionAbortResponses,
+  SessionAnswerErrors,
+  SessionAnswerResponses,
   SessionChildrenErrors,
   SessionChildrenResponses,
   SessionCommandErrors,
   SessionCommandResponses,
   SessionCreateErrors,
   SessionCreateResponses,
+  SessionCurateErrors,
+  SessionCurateResponses,
   SessionDeleteErrors,
   SessionDeleteResponses,
   SessionDiffResponses,
@@ -108,6 +115,8 @@ import type {
   SessionInitErrors,
   SessionInitResponses,
   SessionListResponses,
+  SessionMarkersErrors,
+  SessionMarkersResponses,
   SessionMessageErrors,
   SessionMessageResponses,
   SessionMessagesErrors,
@@ -126,6 +135,8 @@ import type {
   SessionStatusResponses,
   SessionSummarizeErrors,
   SessionSummarizeResponses,
+  SessionTasksErrors,
+  SessionTasksResponses,
   SessionTodoErrors,
   SessionTodoResponses,
   SessionUnrevertErrors,
@@ -134,6 +145,13 @@ import type {
   SessionUnshareResponses,
   SessionUpdateErrors,
   SessionUpdateResponses,
+  SpecApproveErrors,
+  SpecApproveResponses,
+  SpecGetErrors,
+  SpecGetResponses,
+  SpecListResponses,
+  SpecRejectErrors,
+  SpecRejectResponses,
   SubtaskPartInput,
   TextPartInput,
   ToolIdsErrors,
@@ -812,6 +830,25 @@ export class Resource extends HeyApiClient {
       ...params,
     })
   }
+
+  /**
+   * Get MCP resource templates
+   *
+   * Get the resource templates of all connected MCP servers.
+   */
+  public templates<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<ExperimentalResourceTemplatesResponses, unknown, ThrowOnError>({
+      url: "/experimental/resource/template",
+      ...options,
+      ...params,
+    })
+  }
 }
 
 export class Experimental extends HeyApiClient {
@@ -834,6 +871,8 @@ export class Session extends HeyApiClient {
       start?: number
       search?: string
       limit?: number
+      depth?: number
+      role?: "pm" | "orchestrator" | "subagent"
     },
     options?: Options<never, ThrowOnError>,
   ) {
@@ -847,6 +886,8 @@ export class Session extends HeyApiClient {
             { in: "query", key: "start" },
             { in: "query", key: "search" },
             { in: "query", key: "limit" },
+            { in: "query", key: "depth" },
+            { in: "query", key: "role" },
           ],
         },
       ],
@@ -867,6 +908,8 @@ export class Session extends HeyApiClient {
     parameters?: {
       directory?: string
       parentID?: string
+      agentID?: string
+      depth?: number
       title?: string
       permission?: PermissionRuleset
     },
@@ -879,6 +922,8 @@ export class Session extends HeyApiClient {
           args: [
             { in: "query", key: "directory" },
             { in: "body", key: "parentID" },
+            { in: "body", key: "agentID" },
+            { in: "body", key: "depth" },
             { in: "body", key: "title" },
             { in: "body", key: "permission" },
           ],
@@ -1077,6 +1122,103 @@ export class Session extends HeyApiClient {
     })
   }
 
+  /**
+   * Get session markers
+   *
+   * Retrieve the @TODO marker ledger of an orchestrator session: markers added by edits in its subtree that are still present.
+   */
+  public markers<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionMarkersResponses, SessionMarkersErrors, ThrowOnError>({
+      url: "/session/{sessionID}/markers",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get session task links
+   *
+   * Retrieve the orchestrators a session is waiting on, including ones left behind when the process that spawned them exited.
+   */
+  public tasks<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionTasksResponses, SessionTasksErrors, ThrowOnError>({
+      url: "/session/{sessionID}/tasks",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Answer escalation
+   *
+   * Answer the pending escalation of an orchestrator session and resume the orchestrator with the answer.
+   */
+  public answer<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      answer?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "answer" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionAnswerResponses, SessionAnswerErrors, ThrowOnError>({
+      url: "/session/{sessionID}/escalation",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
   /**
    * Initialize session
    *
@@ -1438,6 +1580,49 @@ export class Session extends HeyApiClient {
     })
   }
 
+  /**
+   * Curate message context
+   *
+   * Pin parts of a message so they survive compaction verbatim, or exclude them from the model context. Applies to every part of the message unless a part is given; null resets a flag.
+   */
+  public curate<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      messageID: string
+      directory?: string
+      partID?: string
+      pinned?: boolean | null
+      excluded?: boolean | null
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "messageID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "partID" },
+            { in: "body", key: "pinned" },
+            { in: "body", key: "excluded" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).patch<SessionCurateResponses, SessionCurateErrors, ThrowOnError>({
+      url: "/session/{sessionID}/message/{messageID}/curate",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
   /**
    * Send async message
    *
@@ -1511,6 +1696,8 @@ export class Session extends HeyApiClient {
       variant?: string
       parts?: Array<{
         id?: string
+        pinned?: boolean
+        excluded?: boolean
         type: "file"
         mime: string
         filename?: string
@@ -1926,6 +2113,124 @@ export class Question extends HeyApiClient {
   }
 }
 
+export class Spec extends HeyApiClient {
+  /**
+   * List specs
+   *
+   * Get all specs in the project spec store, most recently updated first.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<SpecListResponses, unknown, ThrowOnError>({
+      url: "/spec",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get spec
+   *
+   * Retrieve a spec with its acceptance criteria and test cases.
+   */
+  public get<ThrowOnError extends boolean = false>(
+    parameters: {
+      specID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "specID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SpecGetResponses, SpecGetErrors, ThrowOnError>({
+      url: "/spec/{specID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Approve spec
+   *
+   * Approve a draft spec so it can be handed to an orchestrator.
+   */
+  public approve<ThrowOnError extends boolean = false>(
+    parameters: {
+      specID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "specID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SpecApproveResponses, SpecApproveErrors, ThrowOnError>({
+      url: "/spec/{specID}/approve",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Reject spec
+   *
+   * Send a spec back to draft with optional feedback for the PM.
+   */
+  public reject<ThrowOnError extends boolean = false>(
+    parameters: {
+      specID: string
+      directory?: string
+      feedback?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "specID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "feedback" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SpecRejectResponses, SpecRejectErrors, ThrowOnError>({
+      url: "/spec/{specID}/reject",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+}
+
 export class Oauth extends HeyApiClient {
   /**
    * OAuth authorize
@@ -3051,6 +3356,36 @@ export class Formatter extends HeyApiClient {
       ...params,
     })
   }
+
+  /**
+   * Preview formatting
+   *
+   * Report what the configured formatters would change in a file, without writing it.
+   */
+  public preview<ThrowOnError extends boolean = false>(
+    parameters: {
+      directory?: string
+      path: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "path" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<FormatterPreviewResponses, FormatterPreviewErrors, ThrowOnError>({
+      url: "/formatter/preview",
+      ...options,
+      ...params,
+    })
+  }
 }
 
 export class Auth2 extends HeyApiClient {
@@ -3176,6 +3511,11 @@ export class OpencodeClient extends HeyApiClient {
     return (this._question ??= new Question({ client: this.client }))
   }
 
+  private _spec?: Spec
+  get spec(): Spec {
+    return (this._spec ??= new Spec({ client: this.client }))
+  }
+
   private _provider?: Provider
   get provider(): Provider {
     return (this._provider ??= new Provider({ client: this.client }))
@@ -87,6 +87,13 @@ export type EventFileEdited = {
   type: "file.edited"
   properties: {
     file: string
+    /**
+     * Lines changed by the edit, 0-based and inclusive; omitted when the whole file changed
+     */
+    lines?: Array<{
+      start: number
+      end: number
+    }>
   }
 }
 
@@ -220,6 +227,8 @@ export type TextPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "text"
   text: string
   synthetic?: boolean
@@ -237,6 +246,8 @@ export type ReasoningPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "reasoning"
   text: string
   metadata?: {
@@ -293,6 +304,8 @@ export type FilePart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "file"
   mime: string
   filename?: string
@@ -361,6 +374,8 @@ export type ToolPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "tool"
   callID: string
   tool: string
@@ -374,6 +389,8 @@ export type StepStartPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "step-start"
   snapshot?: string
 }
@@ -382,6 +399,8 @@ export type StepFinishPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "step-finish"
   reason: string
   snapshot?: string
@@ -401,6 +420,8 @@ export type SnapshotPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "snapshot"
   snapshot: string
 }
@@ -409,6 +430,8 @@ export type PatchPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "patch"
   hash: string
   files: Array<string>
@@ -418,6 +441,8 @@ export type AgentPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "agent"
   name: string
   source?: {
@@ -431,6 +456,8 @@ export type RetryPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "retry"
   attempt: number
   error: ApiError
@@ -439,20 +466,73 @@ export type RetryPart = {
   }
 }
 
+export type FailoverPart = {
+  id: string
+  sessionID: string
+  messageID: string
+  pinned?: boolean
+  excluded?: boolean
+  type: "failover"
+  from: {
+    providerID: string
+    modelID: string
+  }
+  to: {
+    providerID: string
+    modelID: string
+  }
+  reason: "retry" | "overflow"
+  attempt: number
+  message: string
+  time: {
+    created: number
+  }
+}
+
 export type CompactionPart = {
   id: string
   sessionID: string
   messageID: string
+  pinned?: boolean
+  excluded?: boolean
   type: "compaction"
   auto: boolean
 }
 
+export type EscalationPart = {
+  id: string
+  sessionID: string
+  messageID: string
+  pinned?: boolean
+  excluded?: boolean
+  type: "escalation"
+  /**
+   * Session that escalated and is suspended until answered
+   */
+  orchestratorID: string
+  agent: string
+  question: string
+  context?: string
+  options: Array<{
+    label: string
+    description: string
+  }>
+  status: "pending" | "answered"
+  answer?: string
+  time: {
+    created: number
+    answered?: number
+  }
+}
+
 export type Part =
   | TextPart
   | {
       id: string
       sessionID: string
       messageID: string
+      pinned?: boolean
+      excluded?: boolean
       type: "subtask"
       prompt: string
       description: string
@@ -472,7 +552,9 @@ export type Part =
   | PatchPart
   | AgentPart
   | RetryPart
+  | FailoverPart
   | CompactionPart
+  | EscalationPart
 
 export type EventMessagePartUpdated = {
   type: "message.part.updated"
@@ -620,6 +702,153 @@ export type EventQuestionRejected = {
   }
 }
 
+export type TaskLinkResult = {
+  status: "completed" | "failed" | "cancelled"
+  summary: string
+  learnings?: Array<string>
+  /**
+   * LSP errors introduced by the task that were still outstanding when it finished
+   */
+  diagnostics?: Array<string>
+  /**
+   * @TODO markers still in place after Cleanup ran
+   */
+  markers?: Array<string>
+}
+
+export type TaskLink = {
+  /**
+   * Orchestrator session
+   */
+  sessionID: string
+  /**
+   * Session whose task call spawned the orchestrator
+   */
+  parentID: string
+  /**
+   * Assistant message holding the task call
+   */
+  messageID: string
+  callID?: string
+  agent: string
+  description: string
+  status: "running" | "finished"
+  result?: TaskLinkResult
+  time: {
+    created: number
+    finished?: number
+  }
+}
+
+export type EventSessionTaskLinkUpdated = {
+  type: "session.task_link.updated"
+  properties: {
+    link: TaskLink
+  }
+}
+
+export type BudgetLimits = {
+  tokens?: number
+  cost?: number
+  /**
+   * Seconds
+   */
+  duration?: number
+  steps?: number
+}
+
+export type Budget = {
+  /**
+   * Session owning the budget; usage of all its descendants counts against it
+   */
+  sessionID: string
+  limits: BudgetLimits
+  warn: number
+  usage: {
+    tokens: number
+    cost: number
+    steps: number
+  }
+  status: "ok" | "warning" | "paused" | "stopped"
+  time: {
+    started: number
+    updated: number
+  }
+}
+
+export type EventSessionBudgetUpdated = {
+  type: "session.budget.updated"
+  properties: {
+    budget: Budget
+  }
+}
+
+export type SpecCriterion = {
+  /**
+   * Stable identifier of the criterion, e.g. AC-1
+   */
+  id: string
+  /**
+   * What must be true for the spec to be satisfied
+   */
+  description: string
+}
+
+export type SpecTestCase = {
+  /**
+   * Stable identifier of the test case, e.g. TC-1
+   */
+  id: string
+  /**
+   * Short name of the test case
+   */
+  name: string
+  /**
+   * How the test is performed and what is expected
+   */
+  steps: string
+  /**
+   * Ids of the acceptance criteria this test covers
+   */
+  criteria?: Array<string>
+}
+
+export type SpecStatus = "draft" | "approved" | "in_progress" | "audited" | "done" | "failed"
+
+export type Spec = {
+  id: string
+  title: string
+  objective: string
+  scope?: string
+  criteria: Array<SpecCriterion>
+  tests: Array<SpecTestCase>
+  status: SpecStatus
+  /**
+   * Session that drafted the spec
+   */
+  sessionID?: string
+  /**
+   * Orchestrator session executing the spec
+   */
+  orchestratorID?: string
+  /**
+   * Reason given when the spec was last rejected
+   */
+  feedback?: string
+  time: {
+    created: number
+    updated: number
+    approved?: number
+  }
+}
+
+export type EventSpecUpdated = {
+  type: "spec.updated"
+  properties: {
+    info: Spec
+  }
+}
+
 export type EventSessionCompacted = {
   type: "session.compacted"
   properties: {
@@ -627,6 +856,166 @@ export type EventSessionCompacted = {
   }
 }
 
+export type Pty = {
+  id: string
+  title: string
+  command: string
+  args: Array<string>
+  cwd: string
+  status: "running" | "exited"
+  pid: number
+}
+
+export type EventPtyCreated = {
+  type: "pty.created"
+  properties: {
+    info: Pty
+  }
+}
+
+export type EventPtyUpdated = {
+  type: "pty.updated"
+  properties: {
+    info: Pty
+  }
+}
+
+export type EventPtyExited = {
+  type: "pty.exited"
+  properties: {
+    id: string
+    exitCode: number
+  }
+}
+
+export type EventPtyDeleted = {
+  type: "pty.deleted"
+  properties: {
+    id: string
+  }
+}
+
+export type Marker = {
+  /**
+   * Path relative to the worktree
+   */
+  file: string
+  line: number
+  text: string
+  /**
+   * Session whose edit left the marker in place
+   */
+  sessionID: string
+}
+
+export type MarkerLedger = {
+  /**
+   * Orchestrator session owning the ledger
+   */
+  sessionID: string
+  /**
+   * Markers currently present in edited files
+   */
+  markers: Array<Marker>
+  added: number
+  removed: number
+  time: {
+    updated: number
+  }
+}
+
+export type EventSessionMarkerUpdated = {
+  type: "session.marker.updated"
+  properties: {
+    ledger: MarkerLedger
+  }
+}
+
+export type DiagnosticEntry = {
+  /**
+   * Path relative to the worktree
+   */
+  file: string
+  line: number
+  character: number
+  severity: "error" | "warning"
+  message: string
+  /**
+   * Session whose edit introduced the diagnostic
+   */
+  sessionID: string
+}
+
+export type DiagnosticLedger = {
+  /**
+   * Orchestrator session owning the ledger
+   */
+  sessionID: string
+  /**
+   * Introduced diagnostics that are still present
+   */
+  diagnostics: Array<DiagnosticEntry>
+  introduced: number
+  resolved: number
+  time: {
+    updated: number
+  }
+}
+
+export type EventSessionDiagnosticUpdated = {
+  type: "session.diagnostic.updated"
+  properties: {
+    ledger: DiagnosticLedger
+  }
+}
+
+export type AuditIssue = {
+  /**
+   * Path of the file containing the issue
+   */
+  file: string
+  /**
+   * Line number of the issue
+   */
+  line?: number
+  /**
+   * What is wrong and why it blocks
+   */
+  description: string
+}
+
+export type AuditCriterion = {
+  /**
+   * Id of the spec acceptance criterion, e.g. AC-1
+   */
+  id: string
+  /**
+   * Whether the implementation satisfies the criterion
+   */
+  met: boolean
+  note?: string
+}
+
+export type AuditVerdict = {
+  /**
+   * Orchestrator session the verdict applies to
+   */
+  sessionID: string
+  auditorSessionID: string
+  verdict: "PASS" | "FAIL"
+  summary: string
+  issues: Array<AuditIssue>
+  criteria: Array<AuditCriterion>
+  time: number
+}
+
+export type EventSessionAuditRecorded = {
+  type: "session.audit.recorded"
+  properties: {
+    verdict: AuditVerdict
+  }
+}
+
 export type Todo = {
   /**
    * Brief description of the task
@@ -716,6 +1105,14 @@ export type EventTuiSessionSelect = {
   }
 }
 
+export type EventMcpResourceUpdated = {
+  type: "mcp.resource.updated"
+  properties: {
+    server: string
+    uri: string
+  }
+}
+
 export type EventMcpToolsChanged = {
   type: "mcp.tools.changed"
   properties: {
@@ -741,6 +1138,33 @@ export type EventCommandExecuted = {
   }
 }
 
+export type SessionResource = {
+  clientName: string
+  uri: string
+  filename?: string
+  /**
+   * Whether the server announces updates of the resource
+   */
+  subscribed: boolean
+  /**
+   * Whether the server updated the resource since it was last read
+   */
+  stale: boolean
+  time: {
+    read: number
+    updated?: number
+    notified?: number
+  }
+}
+
+export type EventSessionResourceUpdated = {
+  type: "session.resource.updated"
+  properties: {
+    sessionID: string
+    resources: Array<SessionResource>
+  }
+}
+
 export type PermissionAction = "allow" | "deny" | "ask"
 
 export type PermissionRule = {
@@ -757,7 +1181,9 @@ export type Session = {
   projectID: string
   directory: string
   parentID?: string
-  agentID?: string // OpenCodeOrchestra: Store agent type for subagent sessions
+  agentID?: string
+  depth?: number
+  role?: "pm" | "orchestrator" | "subagent"
   summary?: {
     additions: number
     deletions: number
@@ -828,45 +1254,6 @@ export type EventVcsBranchUpdated = {
   }
 }
 
-export type Pty = {
-  id: string
-  title: string
-  command: string
-  args: Array<string>
-  cwd: string
-  status: "running" | "exited"
-  pid: number
-}
-
-export type EventPtyCreated = {
-  type: "pty.created"
-  properties: {
-    info: Pty
-  }
-}
-
-export type EventPtyUpdated = {
-  type: "pty.updated"
-  properties: {
-    info: Pty
-  }
-}
-
-export type EventPtyExited = {
-  type: "pty.exited"
-  properties: {
-    id: string
-    exitCode: number
-  }
-}
-
-export type EventPtyDeleted = {
-  type: "pty.deleted"
-  properties: {
-    id: string
-  }
-}
-
 export type EventWorktreeReady = {
   type: "worktree.ready"
   properties: {
@@ -903,26 +1290,34 @@ export type Event =
   | EventQuestionAsked
   | EventQuestionReplied
   | EventQuestionRejected
+  | EventSessionTaskLinkUpdated
+  | EventSessionBudgetUpdated
+  | EventSpecUpdated
   | EventSessionCompacted
+  | EventPtyCreated
+  | EventPtyUpdated
+  | EventPtyExited
+  | EventPtyDeleted
+  | EventSessionMarkerUpdated
+  | EventSessionDiagnosticUpdated
+  | EventSessionAuditRecorded
   | EventTodoUpdated
   | EventFileWatcherUpdated
   | EventTuiPromptAppend
   | EventTuiCommandExecute
   | EventTuiToastShow
   | EventTuiSessionSelect
+  | EventMcpResourceUpdated
   | EventMcpToolsChanged
   | EventMcpBrowserOpenFailed
   | EventCommandExecuted
+  | EventSessionResourceUpdated
   | EventSessionCreated
   | EventSessionUpdated
   | EventSessionDeleted
   | EventSessionDiff
   | EventSessionError
   | EventVcsBranchUpdated
-  | EventPtyCreated
-  | EventPtyUpdated
-  | EventPtyExited
-  | EventPtyDeleted
   | EventWorktreeReady
   | EventWorktreeFailed
 
@@ -1086,6 +1481,14 @@ export type KeybindsConfig = {
    * Copy message
    */
   messages_copy?: string
+  /**
+   * Pin or unpin the selected message
+   */
+  messages_pin?: string
+  /**
+   * Exclude the selected message from context, or include it again
+   */
+  messages_exclude?: string
   /**
    * Undo message
    */
@@ -1382,10 +1785,71 @@ export type PermissionConfig =
       codesearch?: PermissionActionConfig
       lsp?: PermissionRuleConfig
       doom_loop?: PermissionActionConfig
+      sampling?: PermissionRuleConfig
       [key: string]: PermissionRuleConfig | Array<string> | PermissionActionConfig | undefined
     }
   | PermissionActionConfig
 
+export type BudgetConfig = {
+  /**
+   * Maximum input, output and reasoning tokens
+   */
+  tokens?: number
+  /**
+   * Maximum cost in dollars
+   */
+  cost?: number
+  /**
+   * Maximum wall-clock time in seconds
+   */
+  duration?: number
+  /**
+   * Maximum number of model calls
+   */
+  steps?: number
+  /**
+   * Fraction of any limit at which the task is warned (default: 0.8)
+   */
+  warn?: number
+}
+
+export type SandboxConfig = {
+  /**
+   * Sandbox backend (default: bwrap, Linux only)
+   */
+  backend?: "bwrap"
+  /**
+   * Paths visible read-only to commands (default: the whole filesystem)
+   */
+  read?: Array<string>
+  /**
+   * Paths commands may modify (default: none; /tmp is always a private scratch directory)
+   */
+  write?: Array<string>
+  /**
+   * Allow network access (default: true)
+   */
+  network?: boolean
+  /**
+   * Refuse to run commands when the backend is unavailable instead of running them unsandboxed (default: true)
+   */
+  required?: boolean
+}
+
+/**
+ * Models to switch to when this agent's model keeps failing or its context is too long
+ */
+export type FailoverConfig = {
+  /**
+   * Models to fall back to, in order, in provider/model format
+   */
+  models: Array<string>
+  /**
+   * Retryable failures of a model before switching to the next one (default: 3)
+   */
+  after?: number
+}
+
 export type AgentConfig = {
   model?: string
   temperature?: number
@@ -1423,6 +1887,16 @@ export type AgentConfig = {
    */
   maxSteps?: number
   permission?: PermissionConfig
+  /**
+   * If true, first response auto-returns to parent. If false, agent must call finish_task.
+   */
+  single_shot?: boolean
+  budget?: BudgetConfig
+  /**
+   * Run this agent's bash commands in a sandbox, or false to disable a built-in sandbox
+   */
+  sandbox?: SandboxConfig | false
+  failover?: FailoverConfig
   [key: string]:
     | unknown
     | string
@@ -1440,9 +1914,62 @@ export type AgentConfig = {
     | string
     | number
     | PermissionConfig
+    | BudgetConfig
+    | SandboxConfig
+    | false
+    | FailoverConfig
     | undefined
 }
 
+/**
+ * Session hierarchy policy for the task tool
+ */
+export type HierarchyConfig = {
+  /**
+   * Deepest level a session may be spawned at. The PM is depth 0 (default: unlimited)
+   */
+  max_depth?: number
+  /**
+   * Per-depth rules keyed by depth, e.g. { "1": { "agents": ["orchestrator"] } }
+   */
+  levels?: {
+    [key: string]: {
+      /**
+       * Agents allowed at this depth. Agents that are not listed are placed at the next depth that allows them
+       */
+      agents?: Array<string>
+      /**
+       * Force every agent at this depth to be single-shot (true) or persistent (false)
+       */
+      single_shot?: boolean
+    }
+  }
+  /**
+   * Sessions at or below this depth are always single-shot unless a level overrides it (default: 2)
+   */
+  single_shot_depth?: number
+  /**
+   * Agents each agent may spawn through the task tool (wildcards allowed). Unlisted agents are unrestricted
+   */
+  spawn?: {
+    [key: string]: Array<string>
+  }
+}
+
+/**
+ * LSP diagnostics gate for edits made by orchestrator subtrees
+ */
+export type DiagnosticsConfig = {
+  /**
+   * Report errors introduced by each edit and summarize outstanding ones in finish_task (default: true)
+   */
+  gate?: boolean
+  /**
+   * Lowest severity tracked by the gate (default: error)
+   */
+  severity?: "error" | "warning"
+}
+
 export type ProviderConfig = {
   api?: string
   name?: string
@@ -1706,13 +2233,13 @@ export type Config = {
   agent?: {
     plan?: AgentConfig
     build?: AgentConfig
-    general?: AgentConfig
-    explore?: AgentConfig
     title?: AgentConfig
     summary?: AgentConfig
     compaction?: AgentConfig
     [key: string]: AgentConfig | undefined
   }
+  hierarchy?: HierarchyConfig
+  diagnostics?: DiagnosticsConfig
   /**
    * Custom provider configurations and model overrides
    */
@@ -1786,6 +2313,12 @@ export type Config = {
      */
     prune?: boolean
   }
+  skills?: {
+    /**
+     * Additional directories to scan for skills
+     */
+    paths?: Array<string>
+  }
   experimental?: {
     hook?: {
       file_edited?: {
@@ -1824,10 +2357,35 @@ export type Config = {
      * Continue the agent loop when a tool call is denied
      */
     continue_loop_on_deny?: boolean
+    /**
+     * Maximum number of task_graph nodes that run at the same time (default: 4)
+     */
+    task_concurrency?: number
     /**
      * Timeout in milliseconds for model context protocol (MCP) requests
      */
     mcp_timeout?: number
+    /**
+     * Whether formatters rewrite the whole file after an edit or only the lines the edit changed (default: file)
+     */
+    format_scope?: "file" | "changes"
+    /**
+     * What happens on the next turn to attached MCP resources the server reported as updated: re-read them into the conversation, or only note that they are stale (default: refresh)
+     */
+    mcp_resource_updates?: "refresh" | "mark"
+    /**
+     * Record and replay model streams for offline tests
+     */
+    cassette?: {
+      /**
+       * Record model streams, or replay them instead of calling the provider
+       */
+      mode: "record" | "replay"
+      /**
+       * Directory holding the cassette files, relative to the project directory
+       */
+      path: string
+    }
   }
 }
 
@@ -1956,8 +2514,21 @@ export type McpResource = {
   client: string
 }
 
+export type McpResourceTemplate = {
+  name: string
+  /**
+   * RFC 6570 URI template
+   */
+  uriTemplate: string
+  description?: string
+  mimeType?: string
+  client: string
+}
+
 export type TextPartInput = {
   id?: string
+  pinned?: boolean
+  excluded?: boolean
   type: "text"
   text: string
   synthetic?: boolean
@@ -1973,6 +2544,8 @@ export type TextPartInput = {
 
 export type FilePartInput = {
   id?: string
+  pinned?: boolean
+  excluded?: boolean
   type: "file"
   mime: string
   filename?: string
@@ -1982,6 +2555,8 @@ export type FilePartInput = {
 
 export type AgentPartInput = {
   id?: string
+  pinned?: boolean
+  excluded?: boolean
   type: "agent"
   name: string
   source?: {
@@ -1993,6 +2568,8 @@ export type AgentPartInput = {
 
 export type SubtaskPartInput = {
   id?: string
+  pinned?: boolean
+  excluded?: boolean
   type: "subtask"
   prompt: string
   description: string
@@ -2127,11 +2704,22 @@ export type Agent = {
     modelID: string
     providerID: string
   }
+  variant?: string
   prompt?: string
   options: {
     [key: string]: unknown
   }
   steps?: number
+  singleShot?: boolean
+  budget?: BudgetConfig
+  sandbox?: SandboxConfig
+  failover?: {
+    models: Array<{
+      modelID: string
+      providerID: string
+    }>
+    after?: number
+  }
 }
 
 export type LspStatus = {
@@ -2147,6 +2735,20 @@ export type FormatterStatus = {
   enabled: boolean
 }
 
+export type FormatterPreview = {
+  file: string
+  /**
+   * Formatters that would run on the file
+   */
+  formatters: Array<string>
+  /**
+   * Unified diff of the changes the formatters would make
+   */
+  diff: string
+  additions: number
+  deletions: number
+}
+
 export type OAuth = {
   type: "oauth"
   refresh: string
@@ -2721,6 +3323,27 @@ export type ExperimentalResourceListResponses = {
 export type ExperimentalResourceListResponse =
   ExperimentalResourceListResponses[keyof ExperimentalResourceListResponses]
 
+export type ExperimentalResourceTemplatesData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/experimental/resource/template"
+}
+
+export type ExperimentalResourceTemplatesResponses = {
+  /**
+   * MCP resource templates
+   */
+  200: {
+    [key: string]: McpResourceTemplate
+  }
+}
+
+export type ExperimentalResourceTemplatesResponse =
+  ExperimentalResourceTemplatesResponses[keyof ExperimentalResourceTemplatesResponses]
+
 export type SessionListData = {
   body?: never
   path?: never
@@ -2745,6 +3368,14 @@ export type SessionListData = {
      * Maximum number of sessions to return
      */
     limit?: number
+    /**
+     * Only return sessions at this hierarchy depth
+     */
+    depth?: number
+    /**
+     * Only return sessions with this hierarchy role
+     */
+    role?: "pm" | "orchestrator" | "subagent"
   }
   url: "/session"
 }
@@ -2761,6 +3392,8 @@ export type SessionListResponse = SessionListResponses[keyof SessionListResponse
 export type SessionCreateData = {
   body?: {
     parentID?: string
+    agentID?: string
+    depth?: number
     title?: string
     permission?: PermissionRuleset
   }
@@ -2991,6 +3624,116 @@ export type SessionTodoResponses = {
 
 export type SessionTodoResponse = SessionTodoResponses[keyof SessionTodoResponses]
 
+export type SessionMarkersData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/markers"
+}
+
+export type SessionMarkersErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionMarkersError = SessionMarkersErrors[keyof SessionMarkersErrors]
+
+export type SessionMarkersResponses = {
+  /**
+   * Marker ledger
+   */
+  200: MarkerLedger
+}
+
+export type SessionMarkersResponse = SessionMarkersResponses[keyof SessionMarkersResponses]
+
+export type SessionTasksData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/tasks"
+}
+
+export type SessionTasksErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionTasksError = SessionTasksErrors[keyof SessionTasksErrors]
+
+export type SessionTasksResponses = {
+  /**
+   * Task links
+   */
+  200: Array<TaskLink>
+}
+
+export type SessionTasksResponse = SessionTasksResponses[keyof SessionTasksResponses]
+
+export type SessionAnswerData = {
+  body?: {
+    answer: string
+  }
+  path: {
+    /**
+     * Orchestrator session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/escalation"
+}
+
+export type SessionAnswerErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionAnswerError = SessionAnswerErrors[keyof SessionAnswerErrors]
+
+export type SessionAnswerResponses = {
+  /**
+   * Answered escalation
+   */
+  200: EscalationPart
+}
+
+export type SessionAnswerResponse = SessionAnswerResponses[keyof SessionAnswerResponses]
+
 export type SessionInitData = {
   body?: {
     modelID: string
@@ -3440,6 +4183,50 @@ export type PartUpdateResponses = {
 
 export type PartUpdateResponse = PartUpdateResponses[keyof PartUpdateResponses]
 
+export type SessionCurateData = {
+  body?: {
+    partID?: string
+    pinned?: boolean | null
+    excluded?: boolean | null
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Message ID
+     */
+    messageID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/message/{messageID}/curate"
+}
+
+export type SessionCurateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCurateError = SessionCurateErrors[keyof SessionCurateErrors]
+
+export type SessionCurateResponses = {
+  /**
+   * Updated parts
+   */
+  200: Array<Part>
+}
+
+export type SessionCurateResponse = SessionCurateResponses[keyof SessionCurateResponses]
+
 export type SessionPromptAsyncData = {
   body?: {
     messageID?: string
@@ -3503,6 +4290,8 @@ export type SessionCommandData = {
     variant?: string
     parts?: Array<{
       id?: string
+      pinned?: boolean
+      excluded?: boolean
       type: "file"
       mime: string
       filename?: string
@@ -3838,6 +4627,125 @@ export type QuestionRejectResponses = {
 
 export type QuestionRejectResponse = QuestionRejectResponses[keyof QuestionRejectResponses]
 
+export type SpecListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/spec"
+}
+
+export type SpecListResponses = {
+  /**
+   * List of specs
+   */
+  200: Array<Spec>
+}
+
+export type SpecListResponse = SpecListResponses[keyof SpecListResponses]
+
+export type SpecGetData = {
+  body?: never
+  path: {
+    specID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/spec/{specID}"
+}
+
+export type SpecGetErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SpecGetError = SpecGetErrors[keyof SpecGetErrors]
+
+export type SpecGetResponses = {
+  /**
+   * Spec
+   */
+  200: Spec
+}
+
+export type SpecGetResponse = SpecGetResponses[keyof SpecGetResponses]
+
+export type SpecApproveData = {
+  body?: never
+  path: {
+    specID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/spec/{specID}/approve"
+}
+
+export type SpecApproveErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SpecApproveError = SpecApproveErrors[keyof SpecApproveErrors]
+
+export type SpecApproveResponses = {
+  /**
+   * Approved spec
+   */
+  200: Spec
+}
+
+export type SpecApproveResponse = SpecApproveResponses[keyof SpecApproveResponses]
+
+export type SpecRejectData = {
+  body?: {
+    feedback?: string
+  }
+  path: {
+    specID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/spec/{specID}/reject"
+}
+
+export type SpecRejectErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SpecRejectError = SpecRejectErrors[keyof SpecRejectErrors]
+
+export type SpecRejectResponses = {
+  /**
+   * Rejected spec
+   */
+  200: Spec
+}
+
+export type SpecRejectResponse = SpecRejectResponses[keyof SpecRejectResponses]
+
 export type ProviderListData = {
   body?: never
   path?: never
@@ -4831,6 +5739,7 @@ export type AppSkillsResponses = {
     name: string
     description: string
     location: string
+    content: string
   }>
 }
 
@@ -4872,6 +5781,34 @@ export type FormatterStatusResponses = {
 
 export type FormatterStatusResponse = FormatterStatusResponses[keyof FormatterStatusResponses]
 
+export type FormatterPreviewData = {
+  body?: never
+  path?: never
+  query: {
+    directory?: string
+    path: string
+  }
+  url: "/formatter/preview"
+}
+
+export type FormatterPreviewErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type FormatterPreviewError = FormatterPreviewErrors[keyof FormatterPreviewErrors]
+
+export type FormatterPreviewResponses = {
+  /**
+   * Formatter preview
+   */
+  200: FormatterPreview
+}
+
+export type FormatterPreviewResponse = FormatterPreviewResponses[keyof FormatterPreviewResponses]
+
 export type AuthSetData = {
   body?: Auth
   path: {